@@ -6,6 +6,7 @@ export async function generateAltText(
   buffer: Buffer,
   mimeType: string,
   contextText: string,
+  subject: AltTextSubject = 'image',
 ): Promise<string | undefined> {
   const config = getConfig();
 
@@ -43,7 +44,7 @@ export async function generateAltText(
   }
 
   try {
-    const prompt = buildAltTextPrompt(contextText);
+    const prompt = buildAltTextPrompt(contextText, subject);
     switch (provider) {
       case 'gemini':
         // apiKey is guaranteed by check above
@@ -77,9 +78,11 @@ export async function generateAltText(
   }
 }
 
+export type AltTextSubject = 'image' | 'video';
+
 const ALT_TEXT_CONTEXT_MAX_CHARS = 400;
 
-function buildAltTextPrompt(contextText: string): string {
+function buildAltTextPrompt(contextText: string, subject: AltTextSubject): string {
   const normalized = contextText.replace(/\s+/g, ' ').trim();
   const trimmed =
     normalized.length > ALT_TEXT_CONTEXT_MAX_CHARS
@@ -90,7 +93,9 @@ function buildAltTextPrompt(contextText: string): string {
     'Write one alt text description (1-2 sentences).',
     'Describe only what is visible.',
     'Use context to identify people/places/objects if relevant for search.',
-    'Describe only this image; ignore other images in the post.',
+    subject === 'video'
+      ? 'The image shows frames sampled from one video, left to right; describe the video as a whole.'
+      : 'Describe only this image; ignore other images in the post.',
     'Return only the alt text with no labels, quotes, or options.',
     'No hashtags or emojis.',
     `Context: "${trimmed}"`,
@@ -1,5 +1,6 @@
 import { BskyAgent } from '@atproto/api';
 import { getConfig } from './config-manager.js';
+import type { InteractionGateSettings } from './config-manager.js';
 
 const activeAgents = new Map<string, BskyAgent>();
 
@@ -24,6 +25,155 @@ export async function getAgent(mapping: {
   }
 }
 
+const parseAtUri = (uri: string): { repo: string; collection: string; rkey: string } | null => {
+  const match = uri.match(/^at:\/\/([^/]+)\/([^/]+)\/([^/]+)$/);
+  if (!match || !match[1] || !match[2] || !match[3]) return null;
+  return { repo: match[1], collection: match[2], rkey: match[3] };
+};
+
+// Walks reply parents from the tail back to the root so every chunk of a mirrored thread is found.
+export async function collectThreadChainUris(agent: BskyAgent, rootUri: string, tailUri?: string): Promise<string[]> {
+  const uris: string[] = [];
+  let currentUri: string | undefined = tailUri || rootUri;
+
+  for (let hops = 0; currentUri && hops < 100; hops++) {
+    uris.push(currentUri);
+    if (currentUri === rootUri) break;
+
+    const parsed = parseAtUri(currentUri);
+    if (!parsed) break;
+
+    try {
+      const { data } = await agent.com.atproto.repo.getRecord(parsed);
+      const value = data.value as { reply?: { parent?: { uri?: string } } };
+      currentUri = value.reply?.parent?.uri;
+    } catch {
+      break;
+    }
+  }
+
+  if (!uris.includes(rootUri)) uris.push(rootUri);
+  return uris.reverse();
+}
+
+export async function deleteMirroredThread(agent: BskyAgent, rootUri: string, tailUri?: string): Promise<number> {
+  const uris = await collectThreadChainUris(agent, rootUri, tailUri);
+  let deletedCount = 0;
+
+  // Delete from the tail upwards so a partial failure never leaves orphaned replies above a deleted root.
+  for (const uri of [...uris].reverse()) {
+    const parsed = parseAtUri(uri);
+    if (!parsed) continue;
+    await agent.com.atproto.repo.deleteRecord(parsed);
+    deletedCount++;
+  }
+
+  return deletedCount;
+}
+
+export async function updatePostRecord(
+  agent: BskyAgent,
+  uri: string,
+  // biome-ignore lint/suspicious/noExplicitAny: post records are built dynamically by the crossposter
+  record: Record<string, any>,
+): Promise<{ uri: string; cid: string }> {
+  const parsed = parseAtUri(uri);
+  if (!parsed) throw new Error(`Invalid post URI: ${uri}`);
+
+  const { data: existing } = await agent.com.atproto.repo.getRecord(parsed);
+  const existingCreatedAt = (existing.value as { createdAt?: string }).createdAt;
+
+  const { data } = await agent.com.atproto.repo.putRecord({
+    ...parsed,
+    record: {
+      ...record,
+      $type: 'app.bsky.feed.post',
+      createdAt: existingCreatedAt || record.createdAt,
+    },
+    swapRecord: existing.cid,
+  });
+
+  return { uri: data.uri, cid: data.cid };
+}
+
+const buildThreadgateAllow = (gate: InteractionGateSettings): Array<Record<string, string>> => {
+  switch (gate.replies) {
+    case 'followers':
+      return [{ $type: 'app.bsky.feed.threadgate#followerRule' }];
+    case 'following':
+      return [{ $type: 'app.bsky.feed.threadgate#followingRule' }];
+    case 'mentioned':
+      return [{ $type: 'app.bsky.feed.threadgate#mentionRule' }];
+    case 'list':
+      return gate.replyListUri ? [{ $type: 'app.bsky.feed.threadgate#listRule', list: gate.replyListUri }] : [];
+    default:
+      // An empty allow list means nobody can reply.
+      return [];
+  }
+};
+
+// Removing a gate that was never set is still a repo write, so look for the record first.
+const deleteRecordIfExists = async (
+  agent: BskyAgent,
+  params: { repo: string; collection: string; rkey: string },
+): Promise<boolean> => {
+  try {
+    await agent.com.atproto.repo.getRecord(params);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (/not found|record.*not.*found|could not locate/i.test(message)) {
+      return false;
+    }
+    throw error;
+  }
+  await agent.com.atproto.repo.deleteRecord(params);
+  return true;
+};
+
+// Gates share the post's record key. Threadgates only take effect on thread roots; postgates work on any post.
+// On existing posts, missing settings remove earlier gates so re-applying Bluesky's defaults reopens them.
+// A new post has no gates yet, so only the writes that restrict it are made.
+export async function applyInteractionGate(
+  agent: BskyAgent,
+  postUri: string,
+  gate: InteractionGateSettings | undefined,
+  options: { isThreadRoot: boolean; isNewPost: boolean },
+): Promise<void> {
+  const parsed = parseAtUri(postUri);
+  if (!parsed) throw new Error(`Invalid post URI: ${postUri}`);
+  const target = { repo: parsed.repo, rkey: parsed.rkey };
+  const createdAt = new Date().toISOString();
+
+  if (options.isThreadRoot) {
+    const collection = 'app.bsky.feed.threadgate';
+    if (gate && gate.replies !== 'everyone') {
+      await agent.com.atproto.repo.putRecord({
+        ...target,
+        collection,
+        record: { $type: collection, post: postUri, allow: buildThreadgateAllow(gate), createdAt },
+      });
+    } else if (!options.isNewPost) {
+      await deleteRecordIfExists(agent, { ...target, collection });
+    }
+  }
+
+  const collection = 'app.bsky.feed.postgate';
+  if (gate?.allowQuotes === false) {
+    await agent.com.atproto.repo.putRecord({
+      ...target,
+      collection,
+      record: {
+        $type: collection,
+        post: postUri,
+        embeddingRules: [{ $type: 'app.bsky.feed.postgate#disableRule' }],
+        createdAt,
+      },
+    });
+  } else if (!options.isNewPost) {
+    await deleteRecordIfExists(agent, { ...target, collection });
+  }
+}
+
 export async function deleteAllPosts(mappingId: string): Promise<number> {
     const config = getConfig();
     const mapping = config.mappings.find(m => m.id === mappingId);
@@ -8,12 +8,25 @@ import { deleteAllPosts } from './bsky.js';
 import {
   type AccountMapping,
   type AppConfig,
+  type ContentFilterRule,
+  DEFAULT_DELETION_SYNC_MAX_DELETES,
+  DEFAULT_DELETION_SYNC_WINDOW,
+  type TextRewriteRule,
   addMapping,
   getConfig,
+  normalizeContentFilterRules,
+  normalizeContentLabel,
+  normalizeDeletionSyncSettings,
+  normalizeInteractionGateSettings,
+  normalizeLinkFrontendDomain,
+  normalizeQuoteWaitMinutes,
+  normalizeTextRewriteRules,
+  normalizeTextTemplate,
   removeMapping,
   saveConfig,
   updateTwitterConfig,
 } from './config-manager.js';
+import { describeContentFilterRule } from './content-filter.js';
 import { dbService } from './db.js';
 import {
   applyProfileMirrorSyncState,
@@ -22,6 +35,7 @@ import {
   syncBlueskyProfileFromTwitter,
   validateBlueskyCredentials,
 } from './profile-mirror.js';
+import { describeTextRewriteRule } from './text-rewrite.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -122,6 +136,198 @@ const ensureMapping = async (mappingRef?: string): Promise<AccountMapping | null
   return selectMapping('Select a mapping:');
 };
 
+const promptContentFilterRules = async (existingRules: ContentFilterRule[]): Promise<ContentFilterRule[]> => {
+  let rules = [...existingRules];
+
+  while (true) {
+    if (rules.length === 0) {
+      console.log('Content filters: none (every tweet is mirrored).');
+    } else {
+      console.log('Content filters (first match wins):');
+      rules.forEach((rule, index) => {
+        console.log(`  ${index + 1}. ${describeContentFilterRule(rule)}`);
+      });
+    }
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'Content filter rules:',
+        choices: [
+          { name: 'Add rule', value: 'add' },
+          ...(rules.length > 0
+            ? [
+                { name: 'Remove rule', value: 'remove' },
+                { name: 'Move rule up', value: 'move' },
+                { name: 'Clear all rules', value: 'clear' },
+              ]
+            : []),
+          { name: 'Done', value: 'done' },
+        ],
+      },
+    ]);
+
+    if (action === 'done') {
+      return rules;
+    }
+
+    if (action === 'clear') {
+      rules = [];
+      continue;
+    }
+
+    if (action === 'remove' || action === 'move') {
+      const { index } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'index',
+          message: action === 'remove' ? 'Remove which rule?' : 'Move which rule up?',
+          choices: rules.map((rule, ruleIndex) => ({
+            name: `${ruleIndex + 1}. ${describeContentFilterRule(rule)}`,
+            value: ruleIndex,
+          })),
+        },
+      ]);
+      const [selected] = rules.splice(index, 1);
+      if (selected && action === 'move') {
+        rules.splice(Math.max(0, index - 1), 0, selected);
+      }
+      continue;
+    }
+
+    const ruleAnswers = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'Rule action:',
+        choices: [
+          { name: 'Exclude matching tweets', value: 'exclude' },
+          { name: 'Include matching tweets', value: 'include' },
+        ],
+      },
+      {
+        type: 'list',
+        name: 'type',
+        message: 'Match on:',
+        choices: [
+          { name: 'Keyword', value: 'keyword' },
+          { name: 'Regex', value: 'regex' },
+          { name: 'Hashtag', value: 'hashtag' },
+          { name: 'Has media', value: 'has_media' },
+          { name: 'Has link', value: 'has_link' },
+          { name: 'Minimum length', value: 'min_length' },
+          { name: 'Language (comma separated codes)', value: 'language' },
+        ],
+      },
+      {
+        type: 'input',
+        name: 'value',
+        message: 'Value:',
+        when: (current) => current.type !== 'has_media' && current.type !== 'has_link',
+      },
+    ]);
+
+    const [rule] = normalizeContentFilterRules([ruleAnswers]);
+    if (!rule) {
+      console.log('Invalid rule, not added.');
+      continue;
+    }
+    rules.push(rule);
+  }
+};
+
+const promptTextRewriteRules = async (existingRules: TextRewriteRule[]): Promise<TextRewriteRule[]> => {
+  let rules = [...existingRules];
+
+  while (true) {
+    if (rules.length === 0) {
+      console.log('Text rewrites: none.');
+    } else {
+      console.log('Text rewrites (applied top to bottom):');
+      rules.forEach((rule, index) => {
+        console.log(`  ${index + 1}. ${describeTextRewriteRule(rule)}`);
+      });
+    }
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'Text rewrite rules:',
+        choices: [
+          { name: 'Add rule', value: 'add' },
+          ...(rules.length > 0
+            ? [
+                { name: 'Remove rule', value: 'remove' },
+                { name: 'Move rule up', value: 'move' },
+                { name: 'Clear all rules', value: 'clear' },
+              ]
+            : []),
+          { name: 'Done', value: 'done' },
+        ],
+      },
+    ]);
+
+    if (action === 'done') {
+      return rules;
+    }
+
+    if (action === 'clear') {
+      rules = [];
+      continue;
+    }
+
+    if (action === 'remove' || action === 'move') {
+      const { index } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'index',
+          message: action === 'remove' ? 'Remove which rule?' : 'Move which rule up?',
+          choices: rules.map((rule, ruleIndex) => ({
+            name: `${ruleIndex + 1}. ${describeTextRewriteRule(rule)}`,
+            value: ruleIndex,
+          })),
+        },
+      ]);
+      const [selected] = rules.splice(index, 1);
+      if (selected && action === 'move') {
+        rules.splice(Math.max(0, index - 1), 0, selected);
+      }
+      continue;
+    }
+
+    const ruleAnswers = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'type',
+        message: 'Match on:',
+        choices: [
+          { name: 'Exact text', value: 'replace' },
+          { name: 'Regex (case-insensitive, $1 for groups)', value: 'regex' },
+        ],
+      },
+      {
+        type: 'input',
+        name: 'find',
+        message: 'Find:',
+      },
+      {
+        type: 'input',
+        name: 'replace',
+        message: 'Replace with (empty to delete):',
+      },
+    ]);
+
+    const [rule] = normalizeTextRewriteRules([ruleAnswers]);
+    if (!rule) {
+      console.log('Invalid rule, not added.');
+      continue;
+    }
+    rules.push(rule);
+  }
+};
+
 const exportConfig = (outputFile: string) => {
   const config = getConfig();
   const { users, ...cleanConfig } = config;
@@ -619,6 +825,176 @@ program
         message: 'Group emoji icon (optional):',
         default: mapping.groupEmoji || '',
       },
+      {
+        type: 'list',
+        name: 'retweetPolicy',
+        message: 'How should retweets be handled?',
+        choices: [
+          { name: 'Skip retweets', value: 'skip' },
+          { name: 'Repost natively when the original is mirrored', value: 'repost' },
+          { name: 'Post an attributed copy (RT @user: ...)', value: 'attributed' },
+        ],
+        default: mapping.retweetPolicy || 'skip',
+      },
+      {
+        type: 'confirm',
+        name: 'postExternalReplies',
+        message: 'Post replies to other accounts as standalone posts (with the parent tweet as context)?',
+        default: mapping.postExternalReplies === true,
+      },
+      {
+        type: 'input',
+        name: 'quoteWaitMinutes',
+        message: 'Minutes to wait for a quoted tweet that another mapping will mirror (0 = do not wait):',
+        default: String(mapping.quoteWaitMinutes ?? 0),
+      },
+      {
+        type: 'input',
+        name: 'twitterLinkFrontend',
+        message: 'Rewrite remaining Twitter links to this front-end domain (e.g. xcancel.com, blank = keep):',
+        default: mapping.twitterLinkFrontend || '',
+      },
+      {
+        type: 'list',
+        name: 'editSyncMode',
+        message: 'How should tweet edits be propagated?',
+        choices: [
+          { name: 'Ignore edits', value: 'off' },
+          { name: 'Update the Bluesky post in place', value: 'update' },
+          { name: 'Delete and repost', value: 'repost' },
+        ],
+        default: mapping.editSyncMode || 'off',
+      },
+      {
+        type: 'list',
+        name: 'threadNumbering',
+        message: 'How should posts of a split thread be numbered?',
+        choices: [
+          { name: '(1/3) after each post', value: 'fraction' },
+          { name: '🧵 1/3 after each post', value: 'thread-emoji' },
+          { name: 'Trailing … on all but the last post', value: 'ellipsis' },
+          { name: 'No numbering', value: 'none' },
+        ],
+        default: mapping.threadNumbering || 'fraction',
+      },
+      {
+        type: 'list',
+        name: 'overflowStrategy',
+        message: 'What should happen to tweets longer than one Bluesky post?',
+        choices: [
+          { name: 'Split into a thread', value: 'thread' },
+          { name: 'Post the full text as an image', value: 'image' },
+          { name: 'Truncate and link to the original tweet', value: 'truncate' },
+        ],
+        default: mapping.overflowStrategy || 'thread',
+      },
+      {
+        type: 'confirm',
+        name: 'postMediaFollowUps',
+        message: 'Post media that does not fit on the first post (extra videos or images) as follow-up replies?',
+        default: mapping.postMediaFollowUps !== false,
+      },
+      {
+        type: 'confirm',
+        name: 'trimLongVideos',
+        message: 'Trim videos longer than 3 minutes (and link the full video) instead of only linking them?',
+        default: mapping.trimLongVideos === true,
+      },
+      {
+        type: 'list',
+        name: 'pollStyle',
+        message: 'How should Twitter polls be shown?',
+        choices: [
+          { name: 'As a text block under the question', value: 'text' },
+          { name: 'As a generated image', value: 'image' },
+        ],
+        default: mapping.pollStyle || 'text',
+      },
+      {
+        type: 'confirm',
+        name: 'pollResultsFollowUp',
+        message: 'Reply with the final results when a mirrored poll closes?',
+        default: mapping.pollResultsFollowUp === true,
+      },
+      {
+        type: 'list',
+        name: 'attributionStyle',
+        message: 'How should mirrored posts link back to the original tweet?',
+        choices: [
+          { name: 'No attribution', value: 'none' },
+          { name: 'Compact "🐦 source" link on the first post of a thread', value: 'compact' },
+          { name: '"🐦 source" link on the last post of a thread only', value: 'last-chunk' },
+          { name: 'Hidden link in the post tags', value: 'tags' },
+        ],
+        default: mapping.attributionStyle || 'none',
+      },
+      {
+        type: 'list',
+        name: 'forceContentLabel',
+        message: 'Add a content label to every post from this account (on top of labels from Twitter sensitive flags)?',
+        choices: [
+          { name: 'No forced label', value: '' },
+          { name: 'Graphic media', value: 'graphic-media' },
+          { name: 'Nudity (never set from Twitter flags)', value: 'nudity' },
+          { name: 'Sexually suggestive (never set from Twitter flags)', value: 'sexual' },
+          { name: 'Adult content (porn)', value: 'porn' },
+        ],
+        default: mapping.forceContentLabel || '',
+      },
+      {
+        type: 'list',
+        name: 'replyGate',
+        message: 'Who can reply to mirrored posts?',
+        choices: [
+          { name: 'Everyone', value: 'everyone' },
+          { name: 'Nobody', value: 'nobody' },
+          { name: 'Accounts that follow this Bluesky account', value: 'followers' },
+          { name: 'Accounts this Bluesky account follows', value: 'following' },
+          { name: 'Mentioned accounts', value: 'mentioned' },
+          { name: 'Members of a list', value: 'list' },
+        ],
+        default: mapping.interactionGate?.replies || 'everyone',
+      },
+      {
+        type: 'input',
+        name: 'replyListUri',
+        message: 'List URI (at://did:.../app.bsky.graph.list/...):',
+        default: mapping.interactionGate?.replyListUri || '',
+        when: (current) => current.replyGate === 'list',
+      },
+      {
+        type: 'confirm',
+        name: 'allowQuotes',
+        message: 'Allow other accounts to quote mirrored posts?',
+        default: mapping.interactionGate?.allowQuotes !== false,
+      },
+      {
+        type: 'confirm',
+        name: 'deletionSyncEnabled',
+        message: 'Delete Bluesky mirrors of tweets that get deleted on Twitter?',
+        default: mapping.deletionSync?.enabled === true,
+      },
+      {
+        type: 'confirm',
+        name: 'deletionSyncReportOnly',
+        message: 'Only report deletions (dry run) instead of deleting posts?',
+        default: mapping.deletionSync?.reportOnly === true,
+        when: (current) => current.deletionSyncEnabled,
+      },
+      {
+        type: 'input',
+        name: 'deletionSyncWindow',
+        message: 'How many recent mirrored tweets should each pass re-check?',
+        default: String(mapping.deletionSync?.windowSize ?? DEFAULT_DELETION_SYNC_WINDOW),
+        when: (current) => current.deletionSyncEnabled,
+      },
+      {
+        type: 'input',
+        name: 'deletionSyncMaxDeletes',
+        message: 'Maximum posts to delete per pass:',
+        default: String(mapping.deletionSync?.maxDeletesPerPass ?? DEFAULT_DELETION_SYNC_MAX_DELETES),
+        when: (current) => current.deletionSyncEnabled,
+      },
     ]);
 
     const usernames = answers.twitterUsernames
@@ -654,6 +1030,44 @@ program
       profileSyncSourceUsername = normalizeHandle(String(sourceAnswer.profileSyncSourceUsername || ''));
     }
 
+    let contentFilters = mapping.contentFilters || [];
+    const { editContentFilters } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'editContentFilters',
+        message: `Edit content filter rules? (${contentFilters.length} configured)`,
+        default: false,
+      },
+    ]);
+    if (editContentFilters) {
+      contentFilters = await promptContentFilterRules(contentFilters);
+    }
+
+    let textRewrites = mapping.textRewrites || [];
+    const templateAnswers = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'editTextRewrites',
+        message: `Edit text rewrite rules? (${textRewrites.length} configured)`,
+        default: false,
+      },
+      {
+        type: 'input',
+        name: 'textPrefix',
+        message: 'Text prefix ({author}, {username}, {date}, {url}; "\\n" for a line break; empty for none):',
+        default: mapping.textPrefix || '',
+      },
+      {
+        type: 'input',
+        name: 'textSuffix',
+        message: 'Text suffix (same variables; empty for none):',
+        default: mapping.textSuffix || '',
+      },
+    ]);
+    if (templateAnswers.editTextRewrites) {
+      textRewrites = await promptTextRewriteRules(textRewrites);
+    }
+
     const index = config.mappings.findIndex((entry) => entry.id === mapping.id);
     if (index === -1) return;
 
@@ -669,6 +1083,34 @@ program
       groupName: answers.groupName?.trim() || undefined,
       groupEmoji: answers.groupEmoji?.trim() || undefined,
       profileSyncSourceUsername: profileSyncSourceUsername || undefined,
+      contentFilters: contentFilters.length > 0 ? contentFilters : undefined,
+      textRewrites: textRewrites.length > 0 ? textRewrites : undefined,
+      textPrefix: normalizeTextTemplate(templateAnswers.textPrefix),
+      textSuffix: normalizeTextTemplate(templateAnswers.textSuffix),
+      retweetPolicy: answers.retweetPolicy,
+      postExternalReplies: answers.postExternalReplies || undefined,
+      editSyncMode: answers.editSyncMode,
+      threadNumbering: answers.threadNumbering,
+      overflowStrategy: answers.overflowStrategy,
+      postMediaFollowUps: answers.postMediaFollowUps ? undefined : false,
+      trimLongVideos: answers.trimLongVideos || undefined,
+      quoteWaitMinutes: normalizeQuoteWaitMinutes(answers.quoteWaitMinutes),
+      twitterLinkFrontend: normalizeLinkFrontendDomain(answers.twitterLinkFrontend),
+      pollStyle: answers.pollStyle,
+      pollResultsFollowUp: answers.pollResultsFollowUp || undefined,
+      attributionStyle: answers.attributionStyle,
+      forceContentLabel: normalizeContentLabel(answers.forceContentLabel),
+      interactionGate: normalizeInteractionGateSettings({
+        replies: answers.replyGate,
+        replyListUri: answers.replyListUri,
+        allowQuotes: answers.allowQuotes,
+      }),
+      deletionSync: normalizeDeletionSyncSettings({
+        enabled: answers.deletionSyncEnabled,
+        reportOnly: answers.deletionSyncReportOnly,
+        windowSize: answers.deletionSyncWindow,
+        maxDeletesPerPass: answers.deletionSyncMaxDeletes,
+      }),
     };
 
     if (answers.bskyPassword && answers.bskyPassword.trim().length > 0) {
@@ -816,6 +1258,20 @@ program
     await runCoreCommand(args);
   });
 
+program
+  .command('deletion-sync [mapping]')
+  .description('Re-check recent tweets for one mapping and delete mirrors of tweets removed on Twitter')
+  .option('--dry-run', 'Report deleted tweets without touching Bluesky', false)
+  .action(async (mappingRef: string | undefined, options) => {
+    const mapping = await ensureMapping(mappingRef);
+    if (!mapping) return;
+
+    const args = ['--no-web', '--deletion-sync', mapping.id];
+    if (options.dryRun) args.push('--dry-run');
+
+    await runCoreCommand(args);
+  });
+
 program
   .command('clear-cache [mapping]')
   .description('Clear cached tweet history for a mapping')
@@ -830,6 +1286,21 @@ program
     console.log(`Cache cleared for ${mapping.twitterUsernames.join(', ')}.`);
   });
 
+program
+  .command('rebuild-cache [mapping]')
+  .description('Rebuild cached tweet history for a mapping by matching recent tweets to existing Bluesky posts')
+  .option('-l, --limit <number>', 'Number of recent tweets per source account to match', '200')
+  .option('--dry-run', 'Report matches without writing to the cache', false)
+  .action(async (mappingRef: string | undefined, options) => {
+    const mapping = await ensureMapping(mappingRef);
+    if (!mapping) return;
+
+    const args = ['--no-web', '--rebuild-cache', mapping.id, '--limit', String(parsePositiveInt(options.limit, 200))];
+    if (options.dryRun) args.push('--dry-run');
+
+    await runCoreCommand(args);
+  });
+
 program
   .command('delete-all-posts [mapping]')
   .description('Delete all posts on mapped Bluesky account and clear local cache')
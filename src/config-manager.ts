@@ -65,6 +65,68 @@ export interface AIConfig {
   baseUrl?: string;
 }
 
+export type ContentFilterAction = 'include' | 'exclude';
+
+export type ContentFilterType = 'keyword' | 'regex' | 'hashtag' | 'has_media' | 'has_link' | 'min_length' | 'language';
+
+export interface ContentFilterRule {
+  action: ContentFilterAction;
+  type: ContentFilterType;
+  value?: string;
+}
+
+// 'replace' swaps literal text; 'regex' runs a case-insensitive global pattern with $1-style replacements.
+export type TextRewriteType = 'replace' | 'regex';
+
+export interface TextRewriteRule {
+  type: TextRewriteType;
+  find: string;
+  replace: string;
+}
+
+export type RetweetPolicy = 'skip' | 'repost' | 'attributed';
+
+export type EditSyncMode = 'off' | 'update' | 'repost';
+
+export type ThreadNumberingStyle = 'none' | 'fraction' | 'thread-emoji' | 'ellipsis';
+
+export const DEFAULT_THREAD_NUMBERING: ThreadNumberingStyle = 'fraction';
+
+export type OverflowStrategy = 'thread' | 'image' | 'truncate';
+
+export const DEFAULT_OVERFLOW_STRATEGY: OverflowStrategy = 'thread';
+
+export type PollStyle = 'text' | 'image';
+
+export const DEFAULT_POLL_STYLE: PollStyle = 'text';
+
+// 'compact' links "🐦 source" on the first post of a tweet, 'last-chunk' on its final post, 'tags' hides it in record tags.
+export type AttributionStyle = 'none' | 'compact' | 'last-chunk' | 'tags';
+
+export const DEFAULT_ATTRIBUTION_STYLE: AttributionStyle = 'none';
+
+// Bluesky's self-label values for adult and graphic content.
+export type ContentLabel = 'graphic-media' | 'nudity' | 'sexual' | 'porn';
+
+export interface DeletionSyncSettings {
+  enabled: boolean;
+  reportOnly: boolean;
+  windowSize: number;
+  maxDeletesPerPass: number;
+}
+
+// Who may reply to mirrored threads; 'list' needs replyListUri. Everyone plus quotes is Bluesky's default.
+export type ReplyGate = 'everyone' | 'nobody' | 'followers' | 'following' | 'mentioned' | 'list';
+
+export interface InteractionGateSettings {
+  replies: ReplyGate;
+  replyListUri?: string;
+  allowQuotes: boolean;
+}
+
+export const DEFAULT_DELETION_SYNC_WINDOW = 50;
+export const DEFAULT_DELETION_SYNC_MAX_DELETES = 5;
+
 export interface AccountMapping {
   id: string;
   twitterUsernames: string[];
@@ -83,6 +145,25 @@ export interface AccountMapping {
   lastMirroredAvatarUrl?: string;
   lastMirroredBannerUrl?: string;
   hasBotLabel?: boolean;
+  contentFilters?: ContentFilterRule[];
+  retweetPolicy?: RetweetPolicy;
+  postExternalReplies?: boolean;
+  editSyncMode?: EditSyncMode;
+  deletionSync?: DeletionSyncSettings;
+  threadNumbering?: ThreadNumberingStyle;
+  overflowStrategy?: OverflowStrategy;
+  postMediaFollowUps?: boolean;
+  trimLongVideos?: boolean;
+  quoteWaitMinutes?: number;
+  twitterLinkFrontend?: string;
+  pollStyle?: PollStyle;
+  pollResultsFollowUp?: boolean;
+  forceContentLabel?: ContentLabel;
+  interactionGate?: InteractionGateSettings;
+  attributionStyle?: AttributionStyle;
+  textRewrites?: TextRewriteRule[];
+  textPrefix?: string;
+  textSuffix?: string;
 }
 
 export interface AccountGroup {
@@ -90,6 +171,11 @@ export interface AccountGroup {
   emoji?: string;
 }
 
+export interface HandleDirectoryEntry {
+  twitterUsername: string;
+  bskyIdentifier: string;
+}
+
 export interface AppConfig {
   twitter: TwitterConfig;
   mappings: AccountMapping[];
@@ -98,6 +184,7 @@ export interface AppConfig {
   checkIntervalMinutes: number;
   geminiApiKey?: string;
   ai?: AIConfig;
+  handleDirectory?: HandleDirectoryEntry[];
 }
 
 const DEFAULT_TWITTER_CONFIG: TwitterConfig = {
@@ -278,6 +365,264 @@ const normalizeGroup = (group: unknown): AccountGroup | null => {
   };
 };
 
+const CONTENT_FILTER_TYPES: ContentFilterType[] = [
+  'keyword',
+  'regex',
+  'hashtag',
+  'has_media',
+  'has_link',
+  'min_length',
+  'language',
+];
+
+const normalizeContentFilterRule = (rawRule: unknown): ContentFilterRule | null => {
+  if (!rawRule || typeof rawRule !== 'object') {
+    return null;
+  }
+
+  const record = rawRule as Record<string, unknown>;
+  const action = record.action === 'include' || record.action === 'exclude' ? record.action : undefined;
+  const type = CONTENT_FILTER_TYPES.find((candidate) => candidate === record.type);
+  if (!action || !type) {
+    return null;
+  }
+
+  if (type === 'has_media' || type === 'has_link') {
+    return { action, type };
+  }
+
+  const rawValue = typeof record.value === 'number' ? String(record.value) : normalizeString(record.value);
+  if (!rawValue) {
+    return null;
+  }
+
+  if (type === 'regex') {
+    try {
+      new RegExp(rawValue, 'iu');
+    } catch {
+      return null;
+    }
+    return { action, type, value: rawValue };
+  }
+
+  if (type === 'min_length') {
+    const length = Number(rawValue);
+    if (!Number.isFinite(length) || length < 1) {
+      return null;
+    }
+    return { action, type, value: String(Math.round(length)) };
+  }
+
+  if (type === 'hashtag') {
+    const tag = rawValue.replace(/^#/, '').toLowerCase();
+    return tag ? { action, type, value: tag } : null;
+  }
+
+  if (type === 'language') {
+    const languages = [
+      ...new Set(
+        rawValue
+          .split(',')
+          .map((language) => language.trim().toLowerCase())
+          .filter((language) => language.length > 0),
+      ),
+    ];
+    return languages.length > 0 ? { action, type, value: languages.join(',') } : null;
+  }
+
+  return { action, type, value: rawValue };
+};
+
+export const normalizeContentFilterRules = (value: unknown): ContentFilterRule[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.map(normalizeContentFilterRule).filter((rule): rule is ContentFilterRule => rule !== null);
+};
+
+// Replacements are kept verbatim: an empty one deletes the match, and leading or trailing spaces matter.
+const normalizeTextRewriteRule = (rawRule: unknown): TextRewriteRule | null => {
+  if (!rawRule || typeof rawRule !== 'object') {
+    return null;
+  }
+
+  const record = rawRule as Record<string, unknown>;
+  const type = record.type === 'replace' || record.type === 'regex' ? record.type : undefined;
+  const find = typeof record.find === 'string' ? record.find : '';
+  if (!type || find.length === 0) {
+    return null;
+  }
+
+  if (type === 'regex') {
+    try {
+      new RegExp(find, 'giu');
+    } catch {
+      return null;
+    }
+  }
+
+  return { type, find, replace: typeof record.replace === 'string' ? record.replace : '' };
+};
+
+export const normalizeTextRewriteRules = (value: unknown): TextRewriteRule[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.map(normalizeTextRewriteRule).filter((rule): rule is TextRewriteRule => rule !== null);
+};
+
+// Templates keep their spacing so "📰 {author}: " can sit flush against the tweet text.
+export const normalizeTextTemplate = (value: unknown): string | undefined => {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return undefined;
+  }
+  return value;
+};
+
+export const normalizeRetweetPolicy = (value: unknown): RetweetPolicy | undefined => {
+  if (value === 'skip' || value === 'repost' || value === 'attributed') {
+    return value;
+  }
+  return undefined;
+};
+
+export const normalizeEditSyncMode = (value: unknown): EditSyncMode | undefined => {
+  if (value === 'off' || value === 'update' || value === 'repost') {
+    return value;
+  }
+  return undefined;
+};
+
+export const normalizeOverflowStrategy = (value: unknown): OverflowStrategy | undefined => {
+  if (value === 'thread' || value === 'image' || value === 'truncate') {
+    return value;
+  }
+  return undefined;
+};
+
+export const normalizePollStyle = (value: unknown): PollStyle | undefined => {
+  if (value === 'text' || value === 'image') {
+    return value;
+  }
+  return undefined;
+};
+
+export const normalizeAttributionStyle = (value: unknown): AttributionStyle | undefined => {
+  if (value === 'none' || value === 'compact' || value === 'last-chunk' || value === 'tags') {
+    return value;
+  }
+  return undefined;
+};
+
+export const normalizeContentLabel = (value: unknown): ContentLabel | undefined => {
+  if (value === 'graphic-media' || value === 'nudity' || value === 'sexual' || value === 'porn') {
+    return value;
+  }
+  return undefined;
+};
+
+export const normalizeThreadNumberingStyle = (value: unknown): ThreadNumberingStyle | undefined => {
+  if (value === 'none' || value === 'fraction' || value === 'thread-emoji' || value === 'ellipsis') {
+    return value;
+  }
+  return undefined;
+};
+
+const normalizeBoundedInteger = (value: unknown, fallback: number, min: number, max: number): number => {
+  const parsed = typeof value === 'string' ? Number(value.trim()) : Number(value);
+  if (!Number.isFinite(parsed)) {
+    return fallback;
+  }
+  return Math.min(max, Math.max(min, Math.round(parsed)));
+};
+
+export const normalizeDeletionSyncSettings = (value: unknown): DeletionSyncSettings | undefined => {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const record = value as Record<string, unknown>;
+  if (record.enabled !== true) {
+    return undefined;
+  }
+
+  return {
+    enabled: true,
+    reportOnly: record.reportOnly === true,
+    windowSize: normalizeBoundedInteger(record.windowSize, DEFAULT_DELETION_SYNC_WINDOW, 1, 500),
+    maxDeletesPerPass: normalizeBoundedInteger(record.maxDeletesPerPass, DEFAULT_DELETION_SYNC_MAX_DELETES, 1, 100),
+  };
+};
+
+const LIST_URI_PATTERN = /^at:\/\/did:[a-z0-9]+:[a-zA-Z0-9._:%-]+\/app\.bsky\.graph\.list\/[a-zA-Z0-9._~:-]+$/;
+
+export const normalizeReplyGate = (value: unknown): ReplyGate | undefined => {
+  if (
+    value === 'everyone' ||
+    value === 'nobody' ||
+    value === 'followers' ||
+    value === 'following' ||
+    value === 'mentioned' ||
+    value === 'list'
+  ) {
+    return value;
+  }
+  return undefined;
+};
+
+const normalizeListUri = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const uri = value.trim();
+  return LIST_URI_PATTERN.test(uri) ? uri : undefined;
+};
+
+// Returns undefined for Bluesky's defaults so untouched mappings never write gate records.
+export const normalizeInteractionGateSettings = (value: unknown): InteractionGateSettings | undefined => {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const record = value as Record<string, unknown>;
+  const replyListUri = normalizeListUri(record.replyListUri);
+  let replies = normalizeReplyGate(record.replies) ?? 'everyone';
+  if (replies === 'list' && !replyListUri) {
+    replies = 'everyone';
+  }
+  const allowQuotes = record.allowQuotes !== false;
+  if (replies === 'everyone' && allowQuotes) {
+    return undefined;
+  }
+
+  return {
+    replies,
+    ...(replies === 'list' ? { replyListUri } : {}),
+    allowQuotes,
+  };
+};
+
+// Accepts "xcancel.com" or "https://xcancel.com/" and keeps only the host.
+export const normalizeLinkFrontendDomain = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const host = value
+    .trim()
+    .replace(/^https?:\/\//i, '')
+    .replace(/\/.*$/, '')
+    .toLowerCase();
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+(:\d+)?$/.test(host) ? host : undefined;
+};
+
+export const MAX_QUOTE_WAIT_MINUTES = 24 * 60;
+
+// Zero turns waiting off, so it is stored as a missing value.
+export const normalizeQuoteWaitMinutes = (value: unknown): number | undefined => {
+  const minutes = normalizeBoundedInteger(value, 0, 0, MAX_QUOTE_WAIT_MINUTES);
+  return minutes > 0 ? minutes : undefined;
+};
+
 const findAdminUserId = (users: WebUser[]): string | undefined => users.find((user) => user.role === 'admin')?.id;
 
 const matchOwnerToUserId = (owner: string | undefined, users: WebUser[]): string | undefined => {
@@ -318,6 +663,21 @@ const normalizeMapping = (rawMapping: unknown, users: WebUser[], adminUserId?: s
       : usernames[0];
   const explicitCreator = normalizeString(record.createdByUserId) ?? normalizeString(record.ownerUserId);
   const explicitCreatorExists = explicitCreator && users.some((user) => user.id === explicitCreator);
+  const contentFilters = normalizeContentFilterRules(record.contentFilters);
+  const retweetPolicy = normalizeRetweetPolicy(record.retweetPolicy);
+  const editSyncMode = normalizeEditSyncMode(record.editSyncMode);
+  const deletionSync = normalizeDeletionSyncSettings(record.deletionSync);
+  const threadNumbering = normalizeThreadNumberingStyle(record.threadNumbering);
+  const quoteWaitMinutes = normalizeQuoteWaitMinutes(record.quoteWaitMinutes);
+  const twitterLinkFrontend = normalizeLinkFrontendDomain(record.twitterLinkFrontend);
+  const overflowStrategy = normalizeOverflowStrategy(record.overflowStrategy);
+  const pollStyle = normalizePollStyle(record.pollStyle);
+  const forceContentLabel = normalizeContentLabel(record.forceContentLabel);
+  const interactionGate = normalizeInteractionGateSettings(record.interactionGate);
+  const attributionStyle = normalizeAttributionStyle(record.attributionStyle);
+  const textRewrites = normalizeTextRewriteRules(record.textRewrites);
+  const textPrefix = normalizeTextTemplate(record.textPrefix);
+  const textSuffix = normalizeTextTemplate(record.textSuffix);
 
   return {
     id: normalizeString(record.id) ?? randomUUID(),
@@ -336,6 +696,25 @@ const normalizeMapping = (rawMapping: unknown, users: WebUser[], adminUserId?: s
     lastMirroredAvatarUrl: normalizeString(record.lastMirroredAvatarUrl),
     lastMirroredBannerUrl: normalizeString(record.lastMirroredBannerUrl),
     hasBotLabel: normalizeBoolean(record.hasBotLabel, false),
+    ...(contentFilters.length > 0 ? { contentFilters } : {}),
+    ...(retweetPolicy ? { retweetPolicy } : {}),
+    ...(record.postExternalReplies === true ? { postExternalReplies: true } : {}),
+    ...(editSyncMode ? { editSyncMode } : {}),
+    ...(deletionSync ? { deletionSync } : {}),
+    ...(threadNumbering ? { threadNumbering } : {}),
+    ...(overflowStrategy ? { overflowStrategy } : {}),
+    ...(record.postMediaFollowUps === false ? { postMediaFollowUps: false } : {}),
+    ...(record.trimLongVideos === true ? { trimLongVideos: true } : {}),
+    ...(quoteWaitMinutes ? { quoteWaitMinutes } : {}),
+    ...(twitterLinkFrontend ? { twitterLinkFrontend } : {}),
+    ...(pollStyle ? { pollStyle } : {}),
+    ...(record.pollResultsFollowUp === true ? { pollResultsFollowUp: true } : {}),
+    ...(forceContentLabel ? { forceContentLabel } : {}),
+    ...(interactionGate ? { interactionGate } : {}),
+    ...(attributionStyle ? { attributionStyle } : {}),
+    ...(textRewrites.length > 0 ? { textRewrites } : {}),
+    ...(textPrefix ? { textPrefix } : {}),
+    ...(textSuffix ? { textSuffix } : {}),
     createdByUserId:
       (explicitCreatorExists ? explicitCreator : undefined) ?? matchOwnerToUserId(owner, users) ?? adminUserId,
   };
@@ -396,6 +775,28 @@ const normalizeAiConfig = (rawAi: unknown): AIConfig | undefined => {
   };
 };
 
+// Manually curated Twitter -> Bluesky pairs for accounts mirrored elsewhere; mappings are added at lookup time.
+export const normalizeHandleDirectory = (value: unknown): HandleDirectoryEntry[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const entries = new Map<string, HandleDirectoryEntry>();
+  for (const rawEntry of value) {
+    if (!rawEntry || typeof rawEntry !== 'object') {
+      continue;
+    }
+    const record = rawEntry as Record<string, unknown>;
+    const twitterUsername = normalizeString(record.twitterUsername)?.replace(/^@/, '').toLowerCase();
+    const bskyIdentifier = normalizeString(record.bskyIdentifier)?.replace(/^@/, '');
+    if (!twitterUsername || !/^[a-z0-9_]{1,15}$/.test(twitterUsername) || !bskyIdentifier) {
+      continue;
+    }
+    entries.set(twitterUsername, { twitterUsername, bskyIdentifier });
+  }
+  return [...entries.values()];
+};
+
 const normalizeConfigShape = (rawConfig: unknown): AppConfig => {
   if (!rawConfig || typeof rawConfig !== 'object') {
     return { ...DEFAULT_CONFIG };
@@ -433,6 +834,7 @@ const normalizeConfigShape = (rawConfig: unknown): AppConfig => {
 
   const geminiApiKey = normalizeString(record.geminiApiKey);
   const ai = normalizeAiConfig(record.ai);
+  const handleDirectory = normalizeHandleDirectory(record.handleDirectory);
 
   return {
     twitter: {
@@ -447,6 +849,7 @@ const normalizeConfigShape = (rawConfig: unknown): AppConfig => {
     checkIntervalMinutes,
     ...(geminiApiKey ? { geminiApiKey } : {}),
     ...(ai ? { ai } : {}),
+    ...(handleDirectory.length > 0 ? { handleDirectory } : {}),
   };
 };
 
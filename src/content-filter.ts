@@ -0,0 +1,102 @@
+import type { ContentFilterRule } from './config-manager.js';
+
+export interface ContentFilterSubject {
+  text: string;
+  hashtags: string[];
+  hasMedia: boolean;
+  hasLink: boolean;
+  languages: string[];
+}
+
+export interface ContentFilterDecision {
+  allowed: boolean;
+  rule?: ContentFilterRule;
+  reason?: string;
+}
+
+const HASHTAG_REGEX = /(?:^|[^\p{L}\p{N}_&])[#＃]([\p{L}\p{N}_]+)/gu;
+
+export const extractHashtags = (text: string): string[] => {
+  const tags = new Set<string>();
+  for (const match of text.matchAll(HASHTAG_REGEX)) {
+    const tag = match[1];
+    if (tag) tags.add(tag.toLowerCase());
+  }
+  return [...tags];
+};
+
+export const describeContentFilterRule = (rule: ContentFilterRule): string => {
+  switch (rule.type) {
+    case 'has_media':
+      return `${rule.action} has media`;
+    case 'has_link':
+      return `${rule.action} has link`;
+    case 'min_length':
+      return `${rule.action} min length ${rule.value}`;
+    case 'hashtag':
+      return `${rule.action} hashtag #${rule.value}`;
+    case 'regex':
+      return `${rule.action} regex /${rule.value}/`;
+    case 'language':
+      return `${rule.action} language ${rule.value}`;
+    default:
+      return `${rule.action} keyword "${rule.value}"`;
+  }
+};
+
+const ruleMatches = (rule: ContentFilterRule, subject: ContentFilterSubject): boolean => {
+  const value = rule.value || '';
+  switch (rule.type) {
+    case 'keyword':
+      return value.length > 0 && subject.text.toLowerCase().includes(value.toLowerCase());
+    case 'regex':
+      try {
+        return new RegExp(value, 'iu').test(subject.text);
+      } catch {
+        return false;
+      }
+    case 'hashtag':
+      return subject.hashtags.some((tag) => tag.replace(/^#/, '').toLowerCase() === value.toLowerCase());
+    case 'has_media':
+      return subject.hasMedia;
+    case 'has_link':
+      return subject.hasLink;
+    case 'min_length': {
+      const minLength = Number(value);
+      return Number.isFinite(minLength) && [...subject.text.trim()].length >= minLength;
+    }
+    case 'language': {
+      const wanted = value.split(',').map((language) => language.trim().toLowerCase());
+      return subject.languages.some((language) => wanted.includes(language.toLowerCase()));
+    }
+    default:
+      return false;
+  }
+};
+
+// Rules are evaluated top to bottom and the first match decides. When nothing matches,
+// the tweet is posted unless the list contains include rules, which then act as an allowlist.
+export const evaluateContentFilters = (
+  subject: ContentFilterSubject,
+  rules: ContentFilterRule[] | undefined,
+): ContentFilterDecision => {
+  if (!rules || rules.length === 0) {
+    return { allowed: true };
+  }
+
+  for (const rule of rules) {
+    if (ruleMatches(rule, subject)) {
+      return {
+        allowed: rule.action === 'include',
+        rule,
+        reason: describeContentFilterRule(rule),
+      };
+    }
+  }
+
+  if (rules.some((rule) => rule.action === 'include')) {
+    return { allowed: false, reason: 'no include rule matched' };
+  }
+
+  return { allowed: true };
+};
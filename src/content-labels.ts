@@ -0,0 +1,41 @@
+import type { ContentLabel } from './config-manager.js';
+
+export interface SensitiveMediaWarning {
+  adult_content?: boolean;
+  graphic_violence?: boolean;
+  other?: boolean;
+}
+
+export interface SensitiveMediaItem {
+  ext_sensitive_media_warning?: SensitiveMediaWarning;
+  sensitive_media_warning?: SensitiveMediaWarning;
+}
+
+// Twitter flags map to Bluesky self-labels as follows:
+// - adult_content → 'porn', since Twitter's adult warning covers explicit material;
+// - graphic_violence → 'graphic-media';
+// - 'other', or media the author marked sensitive without a reason → 'graphic-media', Bluesky's general warning
+//   for disturbing media, and only when no specific flag already labels the post.
+// Twitter never says a post shows nudity or is merely suggestive, so 'nudity' and 'sexual' come only from the
+// mapping's forced label.
+export const detectContentLabels = (
+  media: SensitiveMediaItem[],
+  possiblySensitive: boolean | undefined,
+  forcedLabel?: ContentLabel,
+): ContentLabel[] => {
+  const labels = new Set<ContentLabel>();
+  let unspecified = possiblySensitive === true && media.length > 0;
+  for (const item of media) {
+    const warning = item.ext_sensitive_media_warning || item.sensitive_media_warning;
+    if (warning?.adult_content) labels.add('porn');
+    if (warning?.graphic_violence) labels.add('graphic-media');
+    if (warning?.other) unspecified = true;
+  }
+  if (unspecified && labels.size === 0) {
+    labels.add('graphic-media');
+  }
+  if (forcedLabel) {
+    labels.add(forcedLabel);
+  }
+  return [...labels];
+};
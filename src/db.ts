@@ -137,18 +137,147 @@ if (tableInfo.length > 0) {
       bsky_root_cid TEXT,
       bsky_tail_uri TEXT,
       bsky_tail_cid TEXT,
-      status TEXT NOT NULL, -- 'migrated', 'skipped', 'failed'
+      status TEXT NOT NULL, -- 'migrated', 'reposted', 'skipped', 'failed', 'deleted'
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       PRIMARY KEY (twitter_id, bsky_identifier)
     );
   `);
 }
 
+// Optional columns added after the table layout settled can be appended without a rebuild.
+const processedTweetColumns = new Set(
+  (db.prepare('PRAGMA table_info(processed_tweets)').all() as Array<{ name: string }>).map((col) => col.name),
+);
+const additiveProcessedTweetColumns: Array<[name: string, definition: string, backfill?: string]> = [
+  ['skip_reason', 'TEXT'],
+  // Before retweet policies every retweet was skipped, and "RT @" text was one of the signs used to spot it.
+  [
+    'is_retweet',
+    'INTEGER NOT NULL DEFAULT 0',
+    `UPDATE processed_tweets SET is_retweet = 1 WHERE status = 'skipped' AND tweet_text LIKE 'RT @%';`,
+  ],
+];
+for (const [name, definition, backfill] of additiveProcessedTweetColumns) {
+  if (!processedTweetColumns.has(name)) {
+    db.exec(`ALTER TABLE processed_tweets ADD COLUMN ${name} ${definition};`);
+    if (backfill) {
+      db.exec(backfill);
+    }
+  }
+}
+
 db.exec(`
   CREATE INDEX IF NOT EXISTS idx_twitter_username ON processed_tweets(twitter_username);
   CREATE INDEX IF NOT EXISTS idx_bsky_identifier ON processed_tweets(bsky_identifier);
 `);
 
+db.exec(`
+  CREATE TABLE IF NOT EXISTS tweet_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    original_twitter_id TEXT NOT NULL,
+    previous_twitter_id TEXT NOT NULL,
+    revision_twitter_id TEXT NOT NULL,
+    bsky_identifier TEXT NOT NULL,
+    previous_text TEXT,
+    revision_text TEXT,
+    action TEXT NOT NULL, -- 'update', 'repost'
+    previous_bsky_uri TEXT,
+    bsky_uri TEXT,
+    bsky_cid TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE INDEX IF NOT EXISTS idx_tweet_revisions_original ON tweet_revisions(original_twitter_id, bsky_identifier);
+`);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS backfill_jobs (
+    request_id TEXT PRIMARY KEY,
+    mapping_id TEXT NOT NULL,
+    bsky_identifier TEXT,
+    tweet_limit INTEGER,
+    sequence INTEGER NOT NULL,
+    state TEXT NOT NULL, -- 'queued', 'running', 'done', 'failed', 'cancelled'
+    requested_by TEXT,
+    processed_count INTEGER NOT NULL DEFAULT 0,
+    total_count INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    queued_at INTEGER NOT NULL,
+    started_at INTEGER,
+    finished_at INTEGER,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_backfill_jobs_state ON backfill_jobs(state, sequence);
+  CREATE INDEX IF NOT EXISTS idx_backfill_jobs_mapping ON backfill_jobs(mapping_id);
+`);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS post_failures (
+    twitter_id TEXT NOT NULL,
+    bsky_identifier TEXT NOT NULL,
+    twitter_username TEXT NOT NULL,
+    stage TEXT NOT NULL,
+    error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    state TEXT NOT NULL, -- 'pending', 'deferred', 'gave_up'
+    tweet_json TEXT,
+    first_failed_at INTEGER NOT NULL,
+    last_failed_at INTEGER NOT NULL,
+    next_attempt_at INTEGER,
+    PRIMARY KEY (twitter_id, bsky_identifier)
+  );
+  CREATE INDEX IF NOT EXISTS idx_post_failures_due ON post_failures(bsky_identifier, state, next_attempt_at);
+`);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS post_intents (
+    twitter_id TEXT NOT NULL,
+    bsky_identifier TEXT NOT NULL,
+    twitter_username TEXT NOT NULL,
+    chunks_json TEXT NOT NULL,
+    posted_json TEXT NOT NULL, -- [{ uri, cid }] of chunks already on Bluesky, in thread order
+    root_uri TEXT,
+    root_cid TEXT,
+    pending_created_at TEXT, -- createdAt of the chunk being posted, used to find it after a crash
+    pending_text TEXT,
+    tweet_json TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (twitter_id, bsky_identifier)
+  );
+`);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS poll_followups (
+    twitter_id TEXT NOT NULL,
+    bsky_identifier TEXT NOT NULL,
+    twitter_username TEXT NOT NULL,
+    ends_at INTEGER NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (twitter_id, bsky_identifier)
+  );
+  CREATE INDEX IF NOT EXISTS idx_poll_followups_due ON poll_followups(bsky_identifier, next_attempt_at);
+`);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS link_previews (
+    url TEXT PRIMARY KEY,
+    canonical_url TEXT,
+    title TEXT, -- NULL together with description marks a page without a usable preview
+    description TEXT,
+    image_url TEXT,
+    fetched_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS link_preview_thumbs (
+    image_url TEXT NOT NULL,
+    repo_did TEXT NOT NULL,
+    blob_json TEXT NOT NULL,
+    uploaded_at INTEGER NOT NULL,
+    PRIMARY KEY (image_url, repo_did)
+  );
+`);
+
 export interface ProcessedTweet {
   twitter_id: string;
   twitter_username: string;
@@ -160,10 +289,104 @@ export interface ProcessedTweet {
   bsky_root_cid?: string;
   bsky_tail_uri?: string;
   bsky_tail_cid?: string;
-  status: 'migrated' | 'skipped' | 'failed';
+  // Native reposts are 'reposted'; only 'migrated' rows point at posts that can be linked, quoted or replied to.
+  status: 'migrated' | 'reposted' | 'skipped' | 'failed' | 'deleted';
+  skip_reason?: string;
+  // 1 for retweets, whether reposted natively or posted as attributed copies.
+  is_retweet?: number;
+  created_at?: string;
+}
+
+export interface TweetRevision {
+  id?: number;
+  original_twitter_id: string;
+  previous_twitter_id: string;
+  revision_twitter_id: string;
+  bsky_identifier: string;
+  previous_text?: string;
+  revision_text?: string;
+  action: 'update' | 'repost';
+  previous_bsky_uri?: string;
+  bsky_uri?: string;
+  bsky_cid?: string;
   created_at?: string;
 }
 
+export type BackfillJobState = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BackfillJob {
+  request_id: string;
+  mapping_id: string;
+  bsky_identifier?: string;
+  tweet_limit?: number;
+  sequence: number;
+  state: BackfillJobState;
+  requested_by?: string;
+  processed_count: number;
+  total_count: number;
+  last_error?: string;
+  queued_at: number;
+  started_at?: number;
+  finished_at?: number;
+  updated_at: number;
+}
+
+// Deferred rows wait on another tweet; they are retried like pending ones but are not failures.
+export type PostFailureState = 'pending' | 'deferred' | 'gave_up';
+
+export interface PostFailure {
+  twitter_id: string;
+  bsky_identifier: string;
+  twitter_username: string;
+  stage: string;
+  error?: string;
+  attempts: number;
+  state: PostFailureState;
+  tweet_json?: string;
+  first_failed_at: number;
+  last_failed_at: number;
+  next_attempt_at?: number;
+}
+
+export interface PostIntent {
+  twitter_id: string;
+  bsky_identifier: string;
+  twitter_username: string;
+  chunks_json: string;
+  posted_json: string;
+  root_uri?: string;
+  root_cid?: string;
+  pending_created_at?: string;
+  pending_text?: string;
+  tweet_json?: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface PollFollowUp {
+  twitter_id: string;
+  bsky_identifier: string;
+  twitter_username: string;
+  ends_at: number;
+  attempts: number;
+  next_attempt_at: number;
+  created_at: number;
+}
+
+export interface CachedLinkPreview {
+  url: string;
+  canonical_url?: string;
+  title?: string;
+  description?: string;
+  image_url?: string;
+  fetched_at: number;
+}
+
+export type NewBackfillJob = Pick<
+  BackfillJob,
+  'request_id' | 'mapping_id' | 'bsky_identifier' | 'tweet_limit' | 'requested_by' | 'queued_at'
+>;
+
 export interface ProcessedTweetSearchResult extends ProcessedTweet {
   score: number;
 }
@@ -305,6 +528,8 @@ export const dbService = {
       bsky_tail_uri: row.bsky_tail_uri,
       bsky_tail_cid: row.bsky_tail_cid,
       status: row.status,
+      skip_reason: row.skip_reason ?? undefined,
+      is_retweet: row.is_retweet ?? 0,
       created_at: row.created_at,
     };
   },
@@ -312,8 +537,8 @@ export const dbService = {
   saveTweet(tweet: ProcessedTweet) {
     const stmt = db.prepare(`
       INSERT OR REPLACE INTO processed_tweets 
-      (twitter_id, twitter_username, bsky_identifier, tweet_text, bsky_uri, bsky_cid, bsky_root_uri, bsky_root_cid, bsky_tail_uri, bsky_tail_cid, status)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      (twitter_id, twitter_username, bsky_identifier, tweet_text, bsky_uri, bsky_cid, bsky_root_uri, bsky_root_cid, bsky_tail_uri, bsky_tail_cid, status, skip_reason, is_retweet)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     stmt.run(
       tweet.twitter_id,
@@ -327,21 +552,43 @@ export const dbService = {
       tweet.bsky_tail_uri || null,
       tweet.bsky_tail_cid || null,
       tweet.status,
+      tweet.skip_reason || null,
+      tweet.is_retweet ? 1 : 0,
     );
   },
 
+  deleteTweet(twitterId: string, bskyIdentifier: string) {
+    const stmt = db.prepare('DELETE FROM processed_tweets WHERE twitter_id = ? AND bsky_identifier = ?');
+    stmt.run(twitterId, bskyIdentifier.toLowerCase());
+  },
+
+  getMirroredPostByTwitterId(twitterId: string): ProcessedTweet | null {
+    const stmt = db.prepare(
+      'SELECT * FROM processed_tweets WHERE twitter_id = ? AND status = ? ORDER BY datetime(created_at) ASC, rowid ASC LIMIT 1',
+    );
+    const row = stmt.get(twitterId, 'migrated') as ProcessedTweet | undefined;
+    return row ?? null;
+  },
+
   getTweetsByBskyIdentifier(bskyIdentifier: string): Record<string, any> {
     const stmt = db.prepare('SELECT * FROM processed_tweets WHERE bsky_identifier = ?');
     const rows = stmt.all(bskyIdentifier.toLowerCase()) as any[];
     const map: Record<string, any> = {};
     for (const row of rows) {
+      // Deleted rows keep their URI for the record, but nothing may reply to, quote or edit a post that is gone.
+      if (row.status === 'deleted') {
+        map[row.twitter_id] = { deleted: true };
+        continue;
+      }
       map[row.twitter_id] = {
         uri: row.bsky_uri,
         cid: row.bsky_cid,
         root: row.bsky_root_uri ? { uri: row.bsky_root_uri, cid: row.bsky_root_cid } : undefined,
         tail: row.bsky_tail_uri && row.bsky_tail_cid ? { uri: row.bsky_tail_uri, cid: row.bsky_tail_cid } : undefined,
         migrated: row.status === 'migrated',
+        reposted: row.status === 'reposted',
         skipped: row.status === 'skipped',
+        failed: row.status === 'failed',
       };
     }
     return map;
@@ -364,6 +611,20 @@ export const dbService = {
     return map;
   },
 
+  getRecentMirroredTweets(bskyIdentifier: string, limit = 50): ProcessedTweet[] {
+    const stmt = db.prepare(
+      'SELECT * FROM processed_tweets WHERE bsky_identifier = ? AND status = ? ORDER BY datetime(created_at) DESC, rowid DESC LIMIT ?',
+    );
+    return stmt.all(bskyIdentifier.toLowerCase(), 'migrated', limit) as ProcessedTweet[];
+  },
+
+  // Edited tweets keep one row per version pointing at the same post, so all of them are retired together.
+  markTweetsDeletedByBskyUri(bskyIdentifier: string, bskyUri: string): number {
+    const stmt = db.prepare('UPDATE processed_tweets SET status = ? WHERE bsky_identifier = ? AND bsky_uri = ?');
+    const result = stmt.run('deleted', bskyIdentifier.toLowerCase(), bskyUri) as { changes?: number };
+    return Number(result.changes ?? 0);
+  },
+
   getRecentProcessedTweets(limit = 50): ProcessedTweet[] {
     const stmt = db.prepare('SELECT * FROM processed_tweets ORDER BY datetime(created_at) DESC, rowid DESC LIMIT ?');
     return stmt.all(limit) as ProcessedTweet[];
@@ -401,6 +662,264 @@ export const dbService = {
       .slice(0, safeLimit);
   },
 
+  saveTweetRevision(revision: TweetRevision) {
+    const stmt = db.prepare(`
+      INSERT INTO tweet_revisions
+      (original_twitter_id, previous_twitter_id, revision_twitter_id, bsky_identifier, previous_text, revision_text, action, previous_bsky_uri, bsky_uri, bsky_cid)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      revision.original_twitter_id,
+      revision.previous_twitter_id,
+      revision.revision_twitter_id,
+      revision.bsky_identifier.toLowerCase(),
+      revision.previous_text || null,
+      revision.revision_text || null,
+      revision.action,
+      revision.previous_bsky_uri || null,
+      revision.bsky_uri || null,
+      revision.bsky_cid || null,
+    );
+  },
+
+  getTweetRevisions(originalTwitterId: string, bskyIdentifier: string): TweetRevision[] {
+    const stmt = db.prepare(
+      'SELECT * FROM tweet_revisions WHERE original_twitter_id = ? AND bsky_identifier = ? ORDER BY id ASC',
+    );
+    return stmt.all(originalTwitterId, bskyIdentifier.toLowerCase()) as TweetRevision[];
+  },
+
+  createBackfillJob(job: NewBackfillJob) {
+    const sequenceRow = db.prepare('SELECT MAX(sequence) AS max_sequence FROM backfill_jobs').get() as
+      | { max_sequence: number | null }
+      | undefined;
+    const sequence = (sequenceRow?.max_sequence ?? -1) + 1;
+    const stmt = db.prepare(`
+      INSERT INTO backfill_jobs
+      (request_id, mapping_id, bsky_identifier, tweet_limit, sequence, state, requested_by, queued_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      job.request_id,
+      job.mapping_id,
+      job.bsky_identifier?.toLowerCase() || null,
+      job.tweet_limit ?? null,
+      sequence,
+      'queued',
+      job.requested_by || null,
+      job.queued_at,
+      job.queued_at,
+    );
+    return sequence;
+  },
+
+  getActiveBackfillJobs(): BackfillJob[] {
+    const stmt = db.prepare('SELECT * FROM backfill_jobs WHERE state IN (?, ?) ORDER BY sequence ASC');
+    return stmt.all('queued', 'running') as BackfillJob[];
+  },
+
+  getRecentBackfillJobs(limit = 50): BackfillJob[] {
+    const stmt = db.prepare('SELECT * FROM backfill_jobs ORDER BY updated_at DESC, sequence DESC LIMIT ?');
+    return stmt.all(limit) as BackfillJob[];
+  },
+
+  updateBackfillJobProgress(requestId: string, processedCount: number, totalCount: number) {
+    const stmt = db.prepare(
+      'UPDATE backfill_jobs SET processed_count = ?, total_count = ?, updated_at = ? WHERE request_id = ?',
+    );
+    stmt.run(processedCount, totalCount, Date.now(), requestId);
+  },
+
+  markBackfillJobRunning(requestId: string, totalCount: number) {
+    const now = Date.now();
+    const stmt = db.prepare(
+      'UPDATE backfill_jobs SET state = ?, total_count = ?, started_at = COALESCE(started_at, ?), updated_at = ? WHERE request_id = ? AND state = ?',
+    );
+    stmt.run('running', totalCount, now, now, requestId, 'queued');
+  },
+
+  // Only active jobs can be finished, so a job cancelled mid-run keeps its cancelled state.
+  finishBackfillJob(requestId: string, state: 'done' | 'failed' | 'cancelled', error?: string) {
+    const now = Date.now();
+    const stmt = db.prepare(
+      'UPDATE backfill_jobs SET state = ?, last_error = COALESCE(?, last_error), finished_at = ?, updated_at = ? WHERE request_id = ? AND state IN (?, ?)',
+    );
+    stmt.run(state, error || null, now, now, requestId, 'queued', 'running');
+  },
+
+  cancelBackfillJobs(mappingId?: string) {
+    const now = Date.now();
+    if (mappingId) {
+      db.prepare(
+        'UPDATE backfill_jobs SET state = ?, finished_at = ?, updated_at = ? WHERE mapping_id = ? AND state IN (?, ?)',
+      ).run('cancelled', now, now, mappingId, 'queued', 'running');
+      return;
+    }
+    db.prepare('UPDATE backfill_jobs SET state = ?, finished_at = ?, updated_at = ? WHERE state IN (?, ?)').run(
+      'cancelled',
+      now,
+      now,
+      'queued',
+      'running',
+    );
+  },
+
+  // A job that was running when the process stopped starts over from the queue on the next boot.
+  requeueInterruptedBackfillJobs(): number {
+    const stmt = db.prepare('UPDATE backfill_jobs SET state = ?, updated_at = ? WHERE state = ?');
+    const result = stmt.run('queued', Date.now(), 'running') as { changes?: number };
+    return Number(result.changes ?? 0);
+  },
+
+  getPostFailure(twitterId: string, bskyIdentifier: string): PostFailure | null {
+    const stmt = db.prepare('SELECT * FROM post_failures WHERE twitter_id = ? AND bsky_identifier = ?');
+    return (stmt.get(twitterId, bskyIdentifier.toLowerCase()) as PostFailure | undefined) ?? null;
+  },
+
+  savePostFailure(failure: PostFailure) {
+    const stmt = db.prepare(`
+      INSERT OR REPLACE INTO post_failures
+      (twitter_id, bsky_identifier, twitter_username, stage, error, attempts, state, tweet_json, first_failed_at, last_failed_at, next_attempt_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      failure.twitter_id,
+      failure.bsky_identifier.toLowerCase(),
+      failure.twitter_username.toLowerCase(),
+      failure.stage,
+      failure.error || null,
+      failure.attempts,
+      failure.state,
+      failure.tweet_json || null,
+      failure.first_failed_at,
+      failure.last_failed_at,
+      failure.next_attempt_at ?? null,
+    );
+  },
+
+  getDuePostFailures(bskyIdentifier: string, now: number, limit = 5): PostFailure[] {
+    const stmt = db.prepare(
+      'SELECT * FROM post_failures WHERE bsky_identifier = ? AND state IN (?, ?) AND next_attempt_at <= ? ORDER BY next_attempt_at ASC LIMIT ?',
+    );
+    return stmt.all(bskyIdentifier.toLowerCase(), 'pending', 'deferred', now, limit) as PostFailure[];
+  },
+
+  getPostFailures(limit = 200): PostFailure[] {
+    const stmt = db.prepare('SELECT * FROM post_failures WHERE state != ? ORDER BY last_failed_at DESC LIMIT ?');
+    return stmt.all('deferred', limit) as PostFailure[];
+  },
+
+  deletePostFailure(twitterId: string, bskyIdentifier: string) {
+    const stmt = db.prepare('DELETE FROM post_failures WHERE twitter_id = ? AND bsky_identifier = ?');
+    stmt.run(twitterId, bskyIdentifier.toLowerCase());
+  },
+
+  getPostIntent(twitterId: string, bskyIdentifier: string): PostIntent | null {
+    const stmt = db.prepare('SELECT * FROM post_intents WHERE twitter_id = ? AND bsky_identifier = ?');
+    return (stmt.get(twitterId, bskyIdentifier.toLowerCase()) as PostIntent | undefined) ?? null;
+  },
+
+  getPostIntents(bskyIdentifier: string): PostIntent[] {
+    const stmt = db.prepare('SELECT * FROM post_intents WHERE bsky_identifier = ? ORDER BY created_at ASC');
+    return stmt.all(bskyIdentifier.toLowerCase()) as PostIntent[];
+  },
+
+  savePostIntent(intent: PostIntent) {
+    const stmt = db.prepare(`
+      INSERT OR REPLACE INTO post_intents
+      (twitter_id, bsky_identifier, twitter_username, chunks_json, posted_json, root_uri, root_cid, pending_created_at, pending_text, tweet_json, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      intent.twitter_id,
+      intent.bsky_identifier.toLowerCase(),
+      intent.twitter_username.toLowerCase(),
+      intent.chunks_json,
+      intent.posted_json,
+      intent.root_uri || null,
+      intent.root_cid || null,
+      intent.pending_created_at || null,
+      intent.pending_text ?? null,
+      intent.tweet_json || null,
+      intent.created_at,
+      intent.updated_at,
+    );
+  },
+
+  deletePostIntent(twitterId: string, bskyIdentifier: string) {
+    const stmt = db.prepare('DELETE FROM post_intents WHERE twitter_id = ? AND bsky_identifier = ?');
+    stmt.run(twitterId, bskyIdentifier.toLowerCase());
+  },
+
+  savePollFollowUp(followUp: PollFollowUp) {
+    const stmt = db.prepare(`
+      INSERT OR REPLACE INTO poll_followups
+      (twitter_id, bsky_identifier, twitter_username, ends_at, attempts, next_attempt_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      followUp.twitter_id,
+      followUp.bsky_identifier.toLowerCase(),
+      followUp.twitter_username.toLowerCase(),
+      followUp.ends_at,
+      followUp.attempts,
+      followUp.next_attempt_at,
+      followUp.created_at,
+    );
+  },
+
+  getDuePollFollowUps(bskyIdentifier: string, now: number, limit = 5): PollFollowUp[] {
+    const stmt = db.prepare(
+      'SELECT * FROM poll_followups WHERE bsky_identifier = ? AND next_attempt_at <= ? ORDER BY next_attempt_at ASC LIMIT ?',
+    );
+    return stmt.all(bskyIdentifier.toLowerCase(), now, limit) as PollFollowUp[];
+  },
+
+  deletePollFollowUp(twitterId: string, bskyIdentifier: string) {
+    const stmt = db.prepare('DELETE FROM poll_followups WHERE twitter_id = ? AND bsky_identifier = ?');
+    stmt.run(twitterId, bskyIdentifier.toLowerCase());
+  },
+
+  getLinkPreview(url: string): CachedLinkPreview | null {
+    const stmt = db.prepare('SELECT * FROM link_previews WHERE url = ?');
+    return (stmt.get(url) as CachedLinkPreview | undefined) ?? null;
+  },
+
+  saveLinkPreview(preview: CachedLinkPreview) {
+    const stmt = db.prepare(`
+      INSERT OR REPLACE INTO link_previews (url, canonical_url, title, description, image_url, fetched_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      preview.url,
+      preview.canonical_url || null,
+      preview.title || null,
+      preview.description || null,
+      preview.image_url || null,
+      preview.fetched_at,
+    );
+  },
+
+  getLinkPreviewThumb(imageUrl: string, repoDid: string, uploadedAfter: number): string | null {
+    const stmt = db.prepare(
+      'SELECT blob_json FROM link_preview_thumbs WHERE image_url = ? AND repo_did = ? AND uploaded_at > ?',
+    );
+    const row = stmt.get(imageUrl, repoDid, uploadedAfter) as { blob_json: string } | undefined;
+    return row?.blob_json ?? null;
+  },
+
+  saveLinkPreviewThumb(imageUrl: string, repoDid: string, blobJson: string, uploadedAt: number) {
+    const stmt = db.prepare(
+      'INSERT OR REPLACE INTO link_preview_thumbs (image_url, repo_did, blob_json, uploaded_at) VALUES (?, ?, ?, ?)',
+    );
+    stmt.run(imageUrl, repoDid, blobJson, uploadedAt);
+  },
+
+  pruneLinkPreviews(fetchedBefore: number, uploadedBefore: number) {
+    db.prepare('DELETE FROM link_previews WHERE fetched_at < ?').run(fetchedBefore);
+    db.prepare('DELETE FROM link_preview_thumbs WHERE uploaded_at < ?').run(uploadedBefore);
+  },
+
   deleteTweetsByUsername(username: string) {
     const stmt = db.prepare('DELETE FROM processed_tweets WHERE twitter_username = ?');
     stmt.run(username.toLowerCase());
@@ -409,6 +928,10 @@ export const dbService = {
   deleteTweetsByBskyIdentifier(bskyIdentifier: string) {
     const stmt = db.prepare('DELETE FROM processed_tweets WHERE bsky_identifier = ?');
     stmt.run(bskyIdentifier.toLowerCase());
+    db.prepare('DELETE FROM tweet_revisions WHERE bsky_identifier = ?').run(bskyIdentifier.toLowerCase());
+    db.prepare('DELETE FROM post_failures WHERE bsky_identifier = ?').run(bskyIdentifier.toLowerCase());
+    db.prepare('DELETE FROM post_intents WHERE bsky_identifier = ?').run(bskyIdentifier.toLowerCase());
+    db.prepare('DELETE FROM poll_followups WHERE bsky_identifier = ?').run(bskyIdentifier.toLowerCase());
   },
 
   repairUnknownIdentifiers(twitterUsername: string, bskyIdentifier: string) {
@@ -420,5 +943,9 @@ export const dbService = {
 
   clearAll() {
     db.prepare('DELETE FROM processed_tweets').run();
+    db.prepare('DELETE FROM tweet_revisions').run();
+    db.prepare('DELETE FROM post_failures').run();
+    db.prepare('DELETE FROM post_intents').run();
+    db.prepare('DELETE FROM poll_followups').run();
   },
 };
@@ -0,0 +1,143 @@
+import type { BskyAgent } from '@atproto/api';
+import { deleteMirroredThread } from './bsky.js';
+import { dbService } from './db.js';
+import type { ProcessedTweet } from './db.js';
+
+export type TweetPresence = 'present' | 'missing' | 'unknown';
+
+export interface DeletionSyncCandidate {
+  twitterId: string;
+  twitterUsername: string;
+  bskyUri: string;
+  bskyTailUri?: string;
+  text?: string;
+}
+
+export interface DeletionSyncReport {
+  bskyIdentifier: string;
+  reportOnly: boolean;
+  checked: number;
+  unknown: number;
+  missing: DeletionSyncCandidate[];
+  deleted: DeletionSyncCandidate[];
+  deferred: DeletionSyncCandidate[];
+  deletedPosts: number;
+  suspiciousUsernames: string[];
+  errors: string[];
+}
+
+export interface DeletionSyncOptions {
+  agent: BskyAgent;
+  bskyIdentifier: string;
+  windowSize: number;
+  maxDeletesPerPass: number;
+  reportOnly: boolean;
+  lookupTweet: (tweetId: string) => Promise<TweetPresence>;
+  logPrefix?: string;
+}
+
+// When every checked tweet of a source account looks gone at once, the account was most likely
+// suspended, protected or renamed, so nothing is deleted until it resolves again.
+const SUSPICIOUS_MISSING_THRESHOLD = 3;
+
+// Rows for edited tweets share one post; keep only the newest row per post so each post is checked once.
+// Retweet IDs do not resolve reliably on their own, so attributed copies of retweets are left alone.
+const selectRowsToCheck = (rows: ProcessedTweet[]): ProcessedTweet[] => {
+  const seenUris = new Set<string>();
+  const selected: ProcessedTweet[] = [];
+  for (const row of rows) {
+    if (!row.bsky_uri || seenUris.has(row.bsky_uri) || row.is_retweet) {
+      continue;
+    }
+    seenUris.add(row.bsky_uri);
+    selected.push(row);
+  }
+  return selected;
+};
+
+export const runDeletionSync = async (options: DeletionSyncOptions): Promise<DeletionSyncReport> => {
+  const logPrefix = options.logPrefix || `[${options.bskyIdentifier}]`;
+  const report: DeletionSyncReport = {
+    bskyIdentifier: options.bskyIdentifier,
+    reportOnly: options.reportOnly,
+    checked: 0,
+    unknown: 0,
+    missing: [],
+    deleted: [],
+    deferred: [],
+    deletedPosts: 0,
+    suspiciousUsernames: [],
+    errors: [],
+  };
+
+  const rows = selectRowsToCheck(dbService.getRecentMirroredTweets(options.bskyIdentifier, options.windowSize));
+  const checkedByUsername = new Map<string, number>();
+  const missingByUsername = new Map<string, DeletionSyncCandidate[]>();
+
+  for (const row of rows) {
+    const presence = await options.lookupTweet(row.twitter_id);
+    report.checked += 1;
+    checkedByUsername.set(row.twitter_username, (checkedByUsername.get(row.twitter_username) ?? 0) + 1);
+
+    if (presence === 'unknown') {
+      report.unknown += 1;
+      continue;
+    }
+    if (presence === 'missing' && row.bsky_uri) {
+      const candidates = missingByUsername.get(row.twitter_username) ?? [];
+      candidates.push({
+        twitterId: row.twitter_id,
+        twitterUsername: row.twitter_username,
+        bskyUri: row.bsky_uri,
+        bskyTailUri: row.bsky_tail_uri || undefined,
+        text: row.tweet_text,
+      });
+      missingByUsername.set(row.twitter_username, candidates);
+    }
+  }
+
+  for (const [twitterUsername, candidates] of missingByUsername) {
+    const checked = checkedByUsername.get(twitterUsername) ?? 0;
+    if (checked >= SUSPICIOUS_MISSING_THRESHOLD && candidates.length === checked) {
+      console.warn(
+        `${logPrefix} ⚠️ All ${checked} recent tweets from @${twitterUsername} look deleted. Skipping deletion sync for this account.`,
+      );
+      report.suspiciousUsernames.push(twitterUsername);
+      continue;
+    }
+    report.missing.push(...candidates);
+  }
+
+  for (const candidate of report.missing) {
+    if (options.reportOnly) {
+      console.log(`${logPrefix} 🔎 [REPORT] Tweet ${candidate.twitterId} is gone; would delete ${candidate.bskyUri}`);
+      continue;
+    }
+    if (report.deleted.length >= options.maxDeletesPerPass) {
+      report.deferred.push(candidate);
+      continue;
+    }
+
+    try {
+      const deletedPosts = await deleteMirroredThread(options.agent, candidate.bskyUri, candidate.bskyTailUri);
+      dbService.markTweetsDeletedByBskyUri(options.bskyIdentifier, candidate.bskyUri);
+      report.deleted.push(candidate);
+      report.deletedPosts += deletedPosts;
+      console.log(
+        `${logPrefix} 🗑️ Tweet ${candidate.twitterId} was deleted on Twitter; removed ${deletedPosts} Bluesky post(s).`,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      report.errors.push(`${candidate.twitterId}: ${message}`);
+      console.warn(`${logPrefix} ⚠️ Failed to delete mirror of tweet ${candidate.twitterId}: ${message}`);
+    }
+  }
+
+  if (report.deferred.length > 0) {
+    console.warn(
+      `${logPrefix} ⚠️ Deletion cap of ${options.maxDeletesPerPass} reached; ${report.deferred.length} deletion(s) deferred to the next pass.`,
+    );
+  }
+
+  return report;
+};
@@ -0,0 +1,143 @@
+import type { BskyAgent } from '@atproto/api';
+
+export interface PostRef {
+  uri: string;
+  cid: string;
+}
+
+export interface FeedPostRecord {
+  uri: string;
+  cid: string;
+  createdAtMs: number;
+  text: string;
+  replyRoot?: PostRef;
+  replyParentUri?: string;
+}
+
+export interface MirroredThreadMatch {
+  uri: string;
+  cid: string;
+  root: PostRef;
+  tail: PostRef;
+  chunkCount: number;
+}
+
+export const DUPLICATE_CHECK_RECORD_LIMIT = 200;
+const LIST_RECORDS_PAGE_SIZE = 100;
+// Mirrored posts reuse the tweet timestamp; uniqueness nudges only push it forward by a few milliseconds.
+const CREATED_AT_TOLERANCE_MS = 5000;
+// Consecutive chunks of one tweet are stamped one second apart.
+const CHUNK_GAP_TOLERANCE_MS = 2000;
+const TEXT_MATCH_PREFIX_LENGTH = 48;
+
+export const normalizePostText = (text: string): string =>
+  text
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/&[a-z]+;/gi, ' ')
+    .replace(/\(\d+\/\d+\)\s*$/, ' ')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+// Chunk text is a slice of the tweet text and attribution may wrap it, so compare a leading window only.
+const textsMatch = (recordText: string, tweetText: string): boolean => {
+  const normalizedRecord = normalizePostText(recordText);
+  const normalizedTweet = normalizePostText(tweetText);
+  if (!normalizedRecord || !normalizedTweet) {
+    return normalizedRecord === normalizedTweet;
+  }
+
+  const [shorter, longer] =
+    normalizedRecord.length <= normalizedTweet.length
+      ? [normalizedRecord, normalizedTweet]
+      : [normalizedTweet, normalizedRecord];
+  return longer.includes(shorter.slice(0, TEXT_MATCH_PREFIX_LENGTH));
+};
+
+export const listRecentPostRecords = async (agent: BskyAgent, limit: number): Promise<FeedPostRecord[]> => {
+  const repo = agent.session?.did;
+  if (!repo) {
+    throw new Error('Cannot list Bluesky posts without an active session.');
+  }
+
+  const records: FeedPostRecord[] = [];
+  let cursor: string | undefined;
+  while (records.length < limit) {
+    const { data } = await agent.com.atproto.repo.listRecords({
+      repo,
+      collection: 'app.bsky.feed.post',
+      limit: Math.min(LIST_RECORDS_PAGE_SIZE, limit - records.length),
+      cursor,
+    });
+
+    for (const record of data.records) {
+      const value = record.value as {
+        text?: string;
+        createdAt?: string;
+        reply?: { root?: PostRef; parent?: PostRef };
+      };
+      const createdAtMs = value.createdAt ? Date.parse(value.createdAt) : Number.NaN;
+      if (!Number.isFinite(createdAtMs)) continue;
+      records.push({
+        uri: record.uri,
+        cid: record.cid,
+        createdAtMs,
+        text: value.text || '',
+        replyRoot: value.reply?.root,
+        replyParentUri: value.reply?.parent?.uri,
+      });
+    }
+
+    cursor = data.cursor;
+    if (!cursor || data.records.length === 0) break;
+  }
+
+  return records;
+};
+
+const findNextChunk = (records: FeedPostRecord[], current: FeedPostRecord): FeedPostRecord | undefined =>
+  records.find(
+    (record) =>
+      record.replyParentUri === current.uri &&
+      record.createdAtMs > current.createdAtMs &&
+      record.createdAtMs - current.createdAtMs < CHUNK_GAP_TOLERANCE_MS,
+  );
+
+export const findMirroredThread = (
+  records: FeedPostRecord[],
+  tweet: { createdAtMs: number; text: string },
+): MirroredThreadMatch | null => {
+  const matches = records.filter((record) => {
+    const offset = record.createdAtMs - tweet.createdAtMs;
+    return offset >= 0 && offset < CREATED_AT_TOLERANCE_MS && textsMatch(record.text, tweet.text);
+  });
+  if (matches.length === 0) {
+    return null;
+  }
+
+  // Later chunks of the same tweet can fall inside the window too; the head is the one not replying to another match.
+  const matchUris = new Set(matches.map((record) => record.uri));
+  const head = matches
+    .filter((record) => !record.replyParentUri || !matchUris.has(record.replyParentUri))
+    .sort((a, b) => a.createdAtMs - b.createdAtMs)[0];
+  if (!head) {
+    return null;
+  }
+
+  let tail = head;
+  let chunkCount = 1;
+  let next = findNextChunk(records, tail);
+  while (next) {
+    tail = next;
+    chunkCount += 1;
+    next = findNextChunk(records, tail);
+  }
+
+  return {
+    uri: head.uri,
+    cid: head.cid,
+    root: head.replyRoot || { uri: head.uri, cid: head.cid },
+    tail: { uri: tail.uri, cid: tail.cid },
+    chunkCount,
+  };
+};
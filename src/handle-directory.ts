@@ -0,0 +1,76 @@
+import type { BskyAgent } from '@atproto/api';
+import type { AppConfig } from './config-manager.js';
+
+export interface HandleDirectoryView {
+  twitterUsername: string;
+  bskyIdentifier: string;
+  source: 'mapping' | 'manual';
+}
+
+const DID_CACHE_TTL_MS = 60 * 60 * 1000;
+const didCache = new Map<string, { did: string | null; expiresAt: number }>();
+
+// Mappings provide the mirrored accounts; manual pairs cover accounts mirrored elsewhere and win on conflict.
+export const listHandleDirectory = (config: AppConfig): HandleDirectoryView[] => {
+  const entries = new Map<string, HandleDirectoryView>();
+  for (const mapping of config.mappings) {
+    for (const username of mapping.twitterUsernames) {
+      const twitterUsername = username.toLowerCase();
+      if (!entries.has(twitterUsername)) {
+        entries.set(twitterUsername, { twitterUsername, bskyIdentifier: mapping.bskyIdentifier, source: 'mapping' });
+      }
+    }
+  }
+  for (const entry of config.handleDirectory || []) {
+    entries.set(entry.twitterUsername, { ...entry, source: 'manual' });
+  }
+  return [...entries.values()];
+};
+
+const resolveDid = async (agent: BskyAgent, identifier: string): Promise<string | null> => {
+  if (identifier.startsWith('did:')) {
+    return identifier;
+  }
+  // Login emails are valid mapping identifiers but cannot be resolved to an account.
+  if (identifier.includes('@')) {
+    return null;
+  }
+
+  const key = identifier.toLowerCase();
+  const cached = didCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.did;
+  }
+
+  let did: string | null = null;
+  try {
+    const { data } = await agent.resolveHandle({ handle: key });
+    did = data.did;
+  } catch (err) {
+    console.warn(`[handle-directory] ⚠️ Could not resolve ${identifier}:`, err);
+  }
+  didCache.set(key, { did, expiresAt: Date.now() + DID_CACHE_TTL_MS });
+  return did;
+};
+
+export const resolveMentionDids = async (
+  agent: BskyAgent,
+  config: AppConfig,
+  twitterHandles: string[],
+): Promise<Map<string, string>> => {
+  const mentionDids = new Map<string, string>();
+  if (twitterHandles.length === 0) {
+    return mentionDids;
+  }
+
+  const directory = new Map(listHandleDirectory(config).map((entry) => [entry.twitterUsername, entry.bskyIdentifier]));
+  for (const handle of new Set(twitterHandles.map((value) => value.toLowerCase()))) {
+    const bskyIdentifier = directory.get(handle);
+    if (!bskyIdentifier) continue;
+    const did = await resolveDid(agent, bskyIdentifier);
+    if (did) {
+      mentionDids.set(handle, did);
+    }
+  }
+  return mentionDids;
+};
@@ -7,15 +7,69 @@ import type { BlobRef } from '@atproto/api';
 import { Scraper } from '@the-convocation/twitter-scraper';
 import type { Tweet as ScraperTweet } from '@the-convocation/twitter-scraper';
 import axios from 'axios';
-import * as cheerio from 'cheerio';
 import { Command } from 'commander';
 import * as francModule from 'franc-min';
 import iso6391 from 'iso-639-1';
 import puppeteer from 'puppeteer-core';
 import sharp from 'sharp';
 import { generateAltText } from './ai-manager.js';
+import { evaluateContentFilters, extractHashtags } from './content-filter.js';
+import type { ContentFilterSubject } from './content-filter.js';
+import { detectContentLabels } from './content-labels.js';
+import type { SensitiveMediaWarning } from './content-labels.js';
+import { runDeletionSync } from './deletion-sync.js';
+import type { DeletionSyncReport, TweetPresence } from './deletion-sync.js';
+import { DUPLICATE_CHECK_RECORD_LIMIT, findMirroredThread, listRecentPostRecords } from './duplicate-check.js';
+import type { FeedPostRecord } from './duplicate-check.js';
+import { resolveMentionDids } from './handle-directory.js';
+import { cacheLinkThumb, fetchLinkPreview, getCachedLinkThumb } from './link-preview.js';
+import type { LinkPreviewFallback } from './link-preview.js';
+import { rewriteTwitterLinks } from './link-rewriter.js';
+import { buildPollResultsReply, formatPollText, isPollClosed, parsePollCard, renderPollImage } from './poll-card.js';
+import type { TweetPoll } from './poll-card.js';
+import {
+  MAX_POST_RETRIES_PER_PASS,
+  getPostRetryDelayMs,
+  giveUpPostFailure,
+  recordPostDeferral,
+  recordPostFailure,
+} from './post-failures.js';
+import {
+  beginPostIntent,
+  getIntentChunks,
+  getIntentRoot,
+  getPostedChunks,
+  markChunkPending,
+  markChunkPosted,
+  reconcilePostIntent,
+  rollBackPostIntent,
+} from './post-intents.js';
+import { renderTextImage } from './text-image.js';
+import { formatTemplateDate, transformTweetText } from './text-rewrite.js';
+import { POST_GRAPHEME_LIMIT, countGraphemes, splitText, truncateText } from './thread-splitter.js';
+import type { ChunkReserve } from './thread-splitter.js';
+import { renderTweetCard } from './tweet-card.js';
+import type { TweetCardContent } from './tweet-card.js';
+import { MAX_CAPTION_BYTES, fetchHlsCaptionTracks } from './video-captions.js';
+import type { CaptionTrack } from './video-captions.js';
+import {
+  MAX_VIDEO_BYTES,
+  MAX_VIDEO_DURATION_MS,
+  isFfmpegAvailable,
+  renderVideoFrameStrip,
+  transcodeVideo,
+} from './video-transcode.js';
 
-import { getConfig, saveConfig } from './config-manager.js';
+import {
+  DEFAULT_ATTRIBUTION_STYLE,
+  DEFAULT_DELETION_SYNC_MAX_DELETES,
+  DEFAULT_DELETION_SYNC_WINDOW,
+  DEFAULT_OVERFLOW_STRATEGY,
+  DEFAULT_POLL_STYLE,
+  DEFAULT_THREAD_NUMBERING,
+  getConfig,
+  saveConfig,
+} from './config-manager.js';
 import { applyProfileMirrorSyncState, syncBlueskyProfileFromTwitter } from './profile-mirror.js';
 
 // ESM __dirname equivalent
@@ -32,8 +86,15 @@ interface ProcessedTweetEntry {
   root?: { uri: string; cid: string };
   tail?: { uri: string; cid: string };
   migrated?: boolean;
+  // A native repost: the URI is a repost record, not a post that can be quoted or replied to.
+  reposted?: boolean;
+  retweet?: boolean;
+  // The mirror was removed by deletion sync; the entry keeps the tweet marked as handled but carries no post refs.
+  deleted?: boolean;
   skipped?: boolean;
+  failed?: boolean;
   text?: string;
+  skipReason?: string;
 }
 
 interface ProcessedTweetsMap {
@@ -55,6 +116,7 @@ interface CardImageValue {
 interface CardBindingValue {
   type?: string;
   string_value?: string;
+  boolean_value?: boolean;
   image_value?: CardImageValue;
 }
 
@@ -106,11 +168,14 @@ interface MediaEntity {
   original_info?: OriginalInfo;
   video_info?: VideoInfo;
   source?: 'tweet' | 'card';
+  ext_sensitive_media_warning?: SensitiveMediaWarning;
+  sensitive_media_warning?: SensitiveMediaWarning;
 }
 
 interface TweetEntities {
   urls?: UrlEntity[];
   media?: MediaEntity[];
+  hashtags?: { text?: string }[];
 }
 
 interface Tweet {
@@ -131,10 +196,16 @@ interface Tweet {
   isRetweet?: boolean;
   user?: {
     screen_name?: string;
+    name?: string;
     id_str?: string;
   };
   card?: TweetCard | null;
   permanentUrl?: string;
+  lang?: string;
+  retweeted_status?: Tweet;
+  quoted_status?: Tweet;
+  edit_history_ids?: string[];
+  possibly_sensitive?: boolean;
 }
 
 interface AspectRatio {
@@ -148,6 +219,22 @@ interface ImageEmbed {
   aspectRatio?: AspectRatio;
 }
 
+interface VideoCaption {
+  lang: string;
+  file: BlobRef;
+}
+
+interface VideoAttachment {
+  video: BlobRef;
+  aspectRatio?: AspectRatio;
+  alt?: string;
+  captions?: VideoCaption[];
+}
+
+type VideoEmbed = { $type: 'app.bsky.embed.video' } & VideoAttachment;
+
+type MediaFollowUpEmbed = { $type: 'app.bsky.embed.images'; images: ImageEmbed[] } | VideoEmbed;
+
 import { dbService } from './db.js';
 
 // ============================================================================
@@ -227,7 +314,15 @@ function saveProcessedTweet(
     bsky_root_cid: entry.root?.cid,
     bsky_tail_uri: entry.tail?.uri,
     bsky_tail_cid: entry.tail?.cid,
-    status: entry.migrated || (entry.uri && entry.cid) ? 'migrated' : entry.skipped ? 'skipped' : 'failed',
+    status: entry.reposted
+      ? 'reposted'
+      : entry.migrated || (entry.uri && entry.cid)
+        ? 'migrated'
+        : entry.skipped
+          ? 'skipped'
+          : 'failed',
+    skip_reason: entry.skipReason,
+    is_retweet: entry.retweet ? 1 : 0,
   });
 }
 
@@ -296,6 +391,21 @@ async function switchCredentials() {
   return false;
 }
 
+// Long-form "note tweets" carry their full text (and its links) outside legacy.full_text, which stops at 280 characters.
+function extractNoteTweet(scraperTweet: ScraperTweet): { text: string; urls: UrlEntity[] } | null {
+  // biome-ignore lint/suspicious/noExplicitAny: note_tweet is missing in LegacyTweetRaw type
+  const noteResult = (scraperTweet.__raw_UNSTABLE as any)?.note_tweet?.note_tweet_results?.result;
+  const rawText = scraperTweet.__raw_UNSTABLE?.full_text || '';
+  const candidates = [noteResult?.text, scraperTweet.text].filter(
+    (candidate): candidate is string => typeof candidate === 'string' && candidate.length > rawText.length,
+  );
+  const text = candidates[0];
+  if (!text) {
+    return null;
+  }
+  return { text, urls: Array.isArray(noteResult?.entity_set?.urls) ? noteResult.entity_set.urls : [] };
+}
+
 function mapScraperTweetToLocalTweet(scraperTweet: ScraperTweet): Tweet {
   const raw = scraperTweet.__raw_UNSTABLE;
   if (!raw) {
@@ -319,18 +429,25 @@ function mapScraperTweetToLocalTweet(scraperTweet: ScraperTweet): Tweet {
       },
       created_at: scraperTweet.timeParsed?.toUTCString(),
       permanentUrl: scraperTweet.permanentUrl,
+      possibly_sensitive: scraperTweet.sensitiveContent,
     };
   }
 
+  const noteTweet = extractNoteTweet(scraperTweet);
+  // biome-ignore lint/suspicious/noExplicitAny: raw types match compatible structure
+  const entities = raw.entities as any;
+
   return {
     id: raw.id_str,
     id_str: raw.id_str,
-    text: raw.full_text,
-    full_text: raw.full_text,
+    text: noteTweet?.text ?? raw.full_text,
+    full_text: noteTweet?.text ?? raw.full_text,
     created_at: raw.created_at,
     isRetweet: scraperTweet.isRetweet,
-    // biome-ignore lint/suspicious/noExplicitAny: raw types match compatible structure
-    entities: raw.entities as any,
+    entities:
+      noteTweet && noteTweet.urls.length > 0
+        ? { ...entities, urls: [...(entities?.urls || []), ...noteTweet.urls] }
+        : entities,
     // biome-ignore lint/suspicious/noExplicitAny: raw types match compatible structure
     extended_entities: raw.extended_entities as any,
     quoted_status_id_str: raw.quoted_status_id_str,
@@ -341,9 +458,19 @@ function mapScraperTweetToLocalTweet(scraperTweet: ScraperTweet): Tweet {
     in_reply_to_user_id_str: (raw as any).in_reply_to_user_id_str,
     // biome-ignore lint/suspicious/noExplicitAny: card comes from raw tweet
     card: (raw as any).card,
+    // biome-ignore lint/suspicious/noExplicitAny: missing in LegacyTweetRaw type
+    lang: (raw as any).lang,
+    retweeted_status: scraperTweet.retweetedStatus
+      ? mapScraperTweetToLocalTweet(scraperTweet.retweetedStatus)
+      : undefined,
+    quoted_status: scraperTweet.quotedStatus ? mapScraperTweetToLocalTweet(scraperTweet.quotedStatus) : undefined,
+    edit_history_ids: scraperTweet.versions,
     permanentUrl: scraperTweet.permanentUrl,
+    // biome-ignore lint/suspicious/noExplicitAny: missing in LegacyTweetRaw type
+    possibly_sensitive: (raw as any).possibly_sensitive === true || scraperTweet.sensitiveContent === true,
     user: {
       screen_name: scraperTweet.username,
+      name: scraperTweet.name,
       id_str: scraperTweet.userId,
     },
   };
@@ -452,11 +579,17 @@ function detectCardMedia(tweet: Tweet): { imageUrls: string[]; link?: string; ti
   return { imageUrls, link, title, alt };
 }
 
+// Bluesky posts hold up to four images or one video; the rest can follow as replies, so keep more than that.
+const MAX_IMAGES_PER_POST = 4;
+const MAX_TWEET_MEDIA = 20;
+// Bluesky clients cap image alt text at 2,000 graphemes.
+const MAX_ALT_TEXT_GRAPHEMES = 2000;
+
 function buildCardMediaEntities(tweet: Tweet): { media: MediaEntity[]; link?: string } {
   const cardData = detectCardMedia(tweet);
   if (cardData.imageUrls.length === 0) return { media: [] };
 
-  const media = cardData.imageUrls.slice(0, 4).map((url) => ({
+  const media = cardData.imageUrls.slice(0, MAX_TWEET_MEDIA).map((url) => ({
     media_url_https: url,
     type: 'photo' as const,
     ext_alt_text: cardData.alt || cardData.title || 'Sponsored image',
@@ -476,6 +609,11 @@ function ensureUrlEntity(entities: TweetEntities | undefined, link?: string) {
   }
 }
 
+function detectTweetPoll(card?: TweetCard | null): TweetPoll | null {
+  if (!card?.binding_values) return null;
+  return parsePollCard(card.name, normalizeCardBindings(card.binding_values));
+}
+
 function detectSponsoredCard(tweet: Tweet): boolean {
   if (!tweet.card?.binding_values) return false;
   const cardName = tweet.card.name?.toLowerCase() || '';
@@ -486,7 +624,7 @@ function detectSponsoredCard(tweet: Tweet): boolean {
   return hasMultipleImages || hasPromoName;
 }
 
-function mergeMediaEntities(primary: MediaEntity[], secondary: MediaEntity[], limit = 4): MediaEntity[] {
+function mergeMediaEntities(primary: MediaEntity[], secondary: MediaEntity[], limit = MAX_TWEET_MEDIA): MediaEntity[] {
   const merged: MediaEntity[] = [];
   const seen = new Set<string>();
   const ordered = [
@@ -507,6 +645,32 @@ function mergeMediaEntities(primary: MediaEntity[], secondary: MediaEntity[], li
   return merged;
 }
 
+// The first post keeps the leading video (or the first four images); everything else becomes reply embeds in order.
+function buildMediaFollowUps(images: ImageEmbed[], videos: VideoAttachment[]): MediaFollowUpEmbed[] {
+  const remainingImages = videos.length > 0 ? images : images.slice(MAX_IMAGES_PER_POST);
+  const followUps: MediaFollowUpEmbed[] = [];
+  for (let index = 0; index < remainingImages.length; index += MAX_IMAGES_PER_POST) {
+    followUps.push({
+      $type: 'app.bsky.embed.images',
+      images: remainingImages.slice(index, index + MAX_IMAGES_PER_POST),
+    });
+  }
+  for (const video of videos.slice(1)) {
+    followUps.push(buildVideoEmbed(video));
+  }
+  return followUps;
+}
+
+function buildVideoEmbed({ video, aspectRatio, alt, captions }: VideoAttachment): VideoEmbed {
+  return {
+    $type: 'app.bsky.embed.video',
+    video,
+    ...(aspectRatio ? { aspectRatio } : {}),
+    ...(alt ? { alt } : {}),
+    ...(captions && captions.length > 0 ? { captions } : {}),
+  };
+}
+
 function detectCarouselLinks(tweet: Tweet): string[] {
   if (!tweet.card?.binding_values) return [];
   const bindings = normalizeCardBindings(tweet.card.binding_values);
@@ -568,6 +732,15 @@ function getTweetText(tweet: Tweet): string {
   return tweet.full_text || tweet.text || '';
 }
 
+function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+}
+
 function normalizeContextText(text: string): string {
   return text.replace(/\s+/g, ' ').trim();
 }
@@ -617,7 +790,15 @@ function buildAltTextContext(tweet: Tweet, tweetText: string, tweetMap: Map<stri
   return currentText;
 }
 
-async function fetchSyndicationMedia(tweetUrl: string): Promise<{ images: string[] }> {
+async function fetchSyndicationTweet(tweetId: string): Promise<Record<string, unknown> | null> {
+  const syndicationUrl = `https://cdn.syndication.twimg.com/tweet-result?id=${tweetId}`;
+  const syndication = await axios.get(syndicationUrl, {
+    headers: { 'User-Agent': 'Mozilla/5.0', Accept: 'application/json' },
+  });
+  return (syndication.data as Record<string, unknown> | undefined) ?? null;
+}
+
+async function fetchSyndicationMedia(tweetUrl: string): Promise<{ images: string[]; card?: TweetCard }> {
   try {
     const normalized = tweetUrl.replace('twitter.com', 'x.com');
     const res = await axios.get('https://publish.twitter.com/oembed', {
@@ -631,23 +812,25 @@ async function fetchSyndicationMedia(tweetUrl: string): Promise<{ images: string
     const tweetId = match?.[1];
     if (!tweetId) return { images: [] };
 
-    const syndicationUrl = `https://cdn.syndication.twimg.com/tweet-result?id=${tweetId}`;
-    const syndication = await axios.get(syndicationUrl, {
-      headers: { 'User-Agent': 'Mozilla/5.0', Accept: 'application/json' },
-    });
-    const data = syndication.data as Record<string, unknown>;
+    const data = await fetchSyndicationTweet(tweetId);
     const images = (data?.photos as { url?: string }[] | undefined)
       ?.map((photo) => photo.url)
       .filter(Boolean) as string[];
-    return { images: images || [] };
+    return { images: images || [], card: data?.card as TweetCard | undefined };
   } catch (err) {
     return { images: [] };
   }
 }
 
+// Polls can only be read back from the syndication payload; it carries the live counts and the final flag.
+async function fetchTweetPoll(tweetId: string): Promise<TweetPoll | null> {
+  const data = await fetchSyndicationTweet(tweetId);
+  return detectTweetPoll(data?.card as TweetCard | undefined);
+}
+
 function injectSyndicationMedia(tweet: Tweet, syndication: { images: string[] }) {
   if (syndication.images.length === 0) return;
-  const media = syndication.images.slice(0, 4).map((url) => ({
+  const media = syndication.images.slice(0, MAX_TWEET_MEDIA).map((url) => ({
     media_url_https: url,
     type: 'photo' as const,
     ext_alt_text: 'Image from Twitter',
@@ -675,6 +858,27 @@ function detectLanguage(text: string): string[] {
   }
 }
 
+function buildContentFilterSubject(tweet: Tweet, text: string): ContentFilterSubject {
+  const entityHashtags = (tweet.entities?.hashtags || [])
+    .map((hashtag) => hashtag.text?.toLowerCase())
+    .filter(Boolean) as string[];
+  const quoteId = tweet.quoted_status_id_str;
+  const links = (tweet.entities?.urls || []).filter(
+    (urlEntity) => !(quoteId && urlEntity.expanded_url?.includes(quoteId)),
+  );
+  const media = tweet.extended_entities?.media || tweet.entities?.media || [];
+  const tweetLang = tweet.lang?.toLowerCase();
+  const hasTweetLang = !!tweetLang && tweetLang !== 'und' && tweetLang !== 'zxx';
+
+  return {
+    text,
+    hashtags: [...new Set([...entityHashtags, ...extractHashtags(text)])],
+    hasMedia: media.length > 0,
+    hasLink: links.length > 0,
+    languages: hasTweetLang ? [tweetLang] : detectLanguage(text),
+  };
+}
+
 async function expandUrl(shortUrl: string): Promise<string> {
   try {
     const response = await axios.head(shortUrl, {
@@ -890,6 +1094,94 @@ async function captureTweetScreenshot(tweetUrl: string): Promise<ScreenshotResul
   return null;
 }
 
+// Chromium only covers tweets the scraper returned no data for; TWEET_CARD_BROWSER_FALLBACK=false turns it off.
+function isBrowserScreenshotFallbackEnabled(): boolean {
+  return !/^(0|false|no|off)$/i.test(process.env.TWEET_CARD_BROWSER_FALLBACK?.trim() || '');
+}
+
+async function buildTweetCardContent(tweet: Tweet): Promise<TweetCardContent | null> {
+  const username = tweet.user?.screen_name;
+  if (!username) return null;
+
+  let text = decodeHtmlEntities(getTweetText(tweet));
+  for (const url of tweet.entities?.urls || []) {
+    if (url.url && url.expanded_url) text = text.split(url.url).join(url.expanded_url);
+  }
+  const media = tweet.extended_entities?.media || tweet.entities?.media || [];
+  for (const item of media) {
+    if (item.url) text = text.split(item.url).join('');
+  }
+
+  // Video and GIF entities carry their poster frame here as well.
+  let thumbnail: Buffer | undefined;
+  const thumbnailUrl = media[0]?.media_url_https;
+  if (thumbnailUrl) {
+    try {
+      thumbnail = (await downloadMedia(thumbnailUrl)).buffer;
+    } catch (err) {
+      console.warn('[TWEET CARD] ⚠️ Could not download media thumbnail, rendering text only:', (err as Error).message);
+    }
+  }
+
+  const createdAt = tweet.created_at ? new Date(tweet.created_at) : undefined;
+  return {
+    username,
+    authorName: tweet.user?.name,
+    text: text.trim(),
+    createdAt: createdAt && !Number.isNaN(createdAt.getTime()) ? createdAt : undefined,
+    thumbnail,
+  };
+}
+
+async function renderTweetCardImage(tweet: Tweet): Promise<ScreenshotResult | null> {
+  try {
+    const content = await buildTweetCardContent(tweet);
+    if (!content) return null;
+    const rendered = await renderTweetCard(content);
+    console.log(`[TWEET CARD] 🖼️ Rendered @${content.username} locally (${(rendered.buffer.length / 1024).toFixed(2)} KB)`);
+    return rendered;
+  } catch (err) {
+    console.warn('[TWEET CARD] ⚠️ Failed to render tweet card:', (err as Error).message);
+    return null;
+  }
+}
+
+async function uploadTweetScreenshot(
+  agent: BskyAgent,
+  tweetUrl: string,
+  alt: string,
+  dryRun: boolean,
+  twitterUsername: string,
+  purpose: string,
+  sourceTweet?: Tweet,
+): Promise<ImageEmbed | null> {
+  let ssResult = sourceTweet ? await renderTweetCardImage(sourceTweet) : null;
+  if (!ssResult && isBrowserScreenshotFallbackEnabled()) {
+    ssResult = await captureTweetScreenshot(tweetUrl);
+  }
+  if (!ssResult) return null;
+
+  try {
+    let blob: BlobRef;
+    if (dryRun) {
+      console.log(
+        `[${twitterUsername}] 🧪 [DRY RUN] Would upload screenshot for ${purpose} (${(ssResult.buffer.length / 1024).toFixed(2)} KB)`,
+      );
+      blob = {
+        ref: { toString: () => 'mock-ss-blob' },
+        mimeType: 'image/png',
+        size: ssResult.buffer.length,
+      } as any;
+    } else {
+      blob = await uploadToBluesky(agent, ssResult.buffer, 'image/png');
+    }
+    return { alt, image: blob, aspectRatio: { width: ssResult.width, height: ssResult.height } };
+  } catch (e) {
+    console.warn(`[${twitterUsername}] ⚠️ Failed to upload screenshot blob.`);
+    return null;
+  }
+}
+
 async function pollForVideoProcessing(agent: BskyAgent, jobId: string): Promise<BlobRef> {
   console.log(`[VIDEO] ⏳ Polling for processing completion (this can take a minute)...`);
   let attempts = 0;
@@ -931,63 +1223,69 @@ async function pollForVideoProcessing(agent: BskyAgent, jobId: string): Promise<
   return blob!;
 }
 
-async function fetchEmbedUrlCard(agent: BskyAgent, url: string): Promise<any> {
-  try {
-    const response = await axios.get(url, {
-      headers: {
-        'User-Agent':
-          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.9',
-      },
-      timeout: 10000,
-      maxRedirects: 5,
-    });
-
-    const $ = cheerio.load(response.data);
-    const title = $('meta[property="og:title"]').attr('content') || $('title').text() || '';
-    const description =
-      $('meta[property="og:description"]').attr('content') || $('meta[name="description"]').attr('content') || '';
-    let thumbBlob: BlobRef | undefined;
-
-    let imageUrl = $('meta[property="og:image"]').attr('content');
-    if (imageUrl) {
-      if (!imageUrl.startsWith('http')) {
-        const baseUrl = new URL(url);
-        imageUrl = new URL(imageUrl, baseUrl.origin).toString();
-      }
-      try {
-        const { buffer, mimeType } = await downloadMedia(imageUrl);
-        thumbBlob = await uploadToBluesky(agent, buffer, mimeType);
-      } catch (e) {
-        // SIlently fail thumbnail upload
-      }
-    }
+interface LinkCardEmbed {
+  embed: { $type: 'app.bsky.embed.external'; external: Record<string, unknown> };
+  // A thumbnail uploaded for this post; it is cached for reuse once the post referencing it exists.
+  uploadedThumb?: { imageUrl: string; blob: BlobRef };
+}
 
-    if (!title && !description) return null;
+// Twitter's own summary card for the link, used where the page itself gives nothing usable.
+function detectLinkPreviewFallback(tweet: Tweet, link: string): LinkPreviewFallback | undefined {
+  const card = tweet.card;
+  if (!card?.binding_values) return undefined;
+  const cardLink = tweet.entities?.urls?.find((entity) => entity.url === card.url)?.expanded_url;
+  if (card.url && cardLink !== link) return undefined;
 
-    const external: any = {
-      uri: url,
-      title: title || url,
-      description: description,
-    };
+  const bindings = normalizeCardBindings(card.binding_values);
+  const title = bindings.title?.string_value;
+  if (!title) return undefined;
+  return {
+    title,
+    description: bindings.description?.string_value,
+    imageUrl: extractCardImageUrl(card.binding_values, [
+      'summary_photo_image_large',
+      'thumbnail_image_large',
+      'player_image_large',
+      'summary_photo_image',
+      'thumbnail_image',
+      'player_image',
+    ]),
+  };
+}
 
-    if (thumbBlob) {
-      external.thumb = thumbBlob;
-    }
+async function fetchEmbedUrlCard(
+  agent: BskyAgent,
+  url: string,
+  fallback?: LinkPreviewFallback,
+): Promise<LinkCardEmbed | null> {
+  const preview = await fetchLinkPreview(url, fallback);
+  if (!preview) return null;
+
+  const external: Record<string, unknown> = {
+    uri: preview.url,
+    title: preview.title,
+    description: preview.description,
+  };
+  let uploadedThumb: LinkCardEmbed['uploadedThumb'];
 
-    return {
-      $type: 'app.bsky.embed.external',
-      external,
-    };
-  } catch (err: any) {
-    if (err.code === 'ERR_FR_TOO_MANY_REDIRECTS') {
-      // Ignore redirect loops
-      return null;
+  if (preview.imageUrl) {
+    const repoDid = agent.session?.did;
+    const cachedThumb = repoDid ? getCachedLinkThumb(repoDid, preview.imageUrl) : undefined;
+    if (cachedThumb) {
+      external.thumb = cachedThumb;
+    } else {
+      try {
+        const { buffer, mimeType } = await downloadMedia(preview.imageUrl);
+        const blob = await uploadToBluesky(agent, buffer, mimeType);
+        external.thumb = blob;
+        uploadedThumb = { imageUrl: preview.imageUrl, blob };
+      } catch (err) {
+        console.warn(`⚠️ Failed to upload link card thumbnail for ${url}:`, (err as Error).message || err);
+      }
     }
-    console.warn(`Failed to fetch embed card for ${url}:`, err.message || err);
-    return null;
   }
+
+  return { embed: { $type: 'app.bsky.embed.external', external }, uploadedThumb };
 }
 
 async function uploadVideoToBluesky(agent: BskyAgent, buffer: Buffer, filename: string): Promise<BlobRef> {
@@ -1089,62 +1387,163 @@ async function uploadVideoToBluesky(agent: BskyAgent, buffer: Buffer, filename:
   }
 }
 
-function splitText(text: string, limit = 300): string[] {
-  if (text.length <= limit) return [text];
-
-  const chunks: string[] = [];
-  let remaining = text;
-
-  // Reserve space for numbering like " (1/3)" -> approx 7 chars
-  // We apply this reservation to the limit check
-  const effectiveLimit = limit - 8;
+interface TweetVideoUpload {
+  blob: BlobRef;
+  // The file that was actually uploaded, for frame sampling.
+  buffer: Buffer;
+  trimmed: boolean;
+}
 
-  while (remaining.length > 0) {
-    if (remaining.length <= limit) {
-      chunks.push(remaining);
-      break;
+// Tries the best MP4 as-is, then an ffmpeg re-encode of it (trimmed when allowed), then smaller Twitter variants.
+async function uploadTweetVideo(
+  agent: BskyAgent,
+  variants: VideoVariant[],
+  options: { durationMs: number; trimToLimit: boolean; dryRun: boolean; twitterUsername: string },
+): Promise<TweetVideoUpload | null> {
+  const { durationMs, trimToLimit, dryRun, twitterUsername } = options;
+  const [best, ...smallerVariants] = variants
+    .filter((v) => v.content_type === 'video/mp4')
+    .sort((a, b) => (b.bitrate || 0) - (a.bitrate || 0));
+  if (!best) return null;
+
+  const tooLong = durationMs > MAX_VIDEO_DURATION_MS;
+  const upload = async (buffer: Buffer, videoUrl: string): Promise<BlobRef> => {
+    const filename = videoUrl.split('/').pop() || 'video.mp4';
+    if (dryRun) {
+      console.log(
+        `[${twitterUsername}] 🧪 [DRY RUN] Would upload video: ${filename} (${(buffer.length / 1024 / 1024).toFixed(2)} MB)`,
+      );
+      return { ref: { toString: () => 'mock-video-blob' }, mimeType: 'video/mp4', size: buffer.length } as any;
     }
+    updateAppStatus({ message: `Uploading video to Bluesky...` });
+    return uploadVideoToBluesky(agent, buffer, filename);
+  };
+  const download = async (videoUrl: string): Promise<Buffer> => {
+    console.log(`[${twitterUsername}] 📥 Downloading video: ${videoUrl}`);
+    updateAppStatus({ message: `Downloading video: ${path.basename(videoUrl)}` });
+    return (await downloadMedia(videoUrl)).buffer;
+  };
+  const logFailure = (step: string, err: unknown) => {
+    const errMsg = (err as Error).message;
+    if (errMsg !== 'VIDEO_FALLBACK_503') {
+      console.error(`[${twitterUsername}] ❌ ${step} failed:`, errMsg);
+    }
+  };
 
-    // Smart splitting priority:
-    // 1. Double newline (paragraph)
-    // 2. Sentence end (.!?)
-    // 3. Space
-    // 4. Force split
-
-    let splitIndex = -1;
-
-    // Check paragraphs
-    let checkIndex = remaining.lastIndexOf('\n\n', effectiveLimit);
-    if (checkIndex !== -1) splitIndex = checkIndex;
+  let bestBuffer: Buffer | null = null;
+  try {
+    bestBuffer = await download(best.url);
+  } catch (err) {
+    logFailure('Video download', err);
+  }
 
-    // Check sentences
-    if (splitIndex === -1) {
-      // Look for punctuation followed by space
-      const sentenceMatches = Array.from(remaining.substring(0, effectiveLimit).matchAll(/[.!?]\s/g));
-      if (sentenceMatches.length > 0) {
-        const lastMatch = sentenceMatches[sentenceMatches.length - 1];
-        if (lastMatch && lastMatch.index !== undefined) {
-          splitIndex = lastMatch.index + 1; // Include punctuation
-        }
+  if (bestBuffer && !tooLong) {
+    if (bestBuffer.length <= MAX_VIDEO_BYTES) {
+      try {
+        return { blob: await upload(bestBuffer, best.url), buffer: bestBuffer, trimmed: false };
+      } catch (err) {
+        logFailure('Video upload', err);
       }
+    } else {
+      console.warn(`[${twitterUsername}] ⚠️ Video too large (${(bestBuffer.length / 1024 / 1024).toFixed(2)}MB).`);
     }
+  }
 
-    // Check spaces
-    if (splitIndex === -1) {
-      checkIndex = remaining.lastIndexOf(' ', effectiveLimit);
-      if (checkIndex !== -1) splitIndex = checkIndex;
+  // Re-encoding also covers 503s: a smaller file is more likely to be accepted by a busy video service.
+  if (bestBuffer && (!tooLong || trimToLimit)) {
+    if (await isFfmpegAvailable()) {
+      try {
+        const trimNote = tooLong ? ' (trimmed to 3 minutes)' : '';
+        console.log(`[${twitterUsername}] 🎞️ Transcoding video with ffmpeg${trimNote}...`);
+        updateAppStatus({ message: 'Transcoding video...' });
+        const transcoded = await transcodeVideo(bestBuffer, { durationMs, trimToLimit });
+        const blob = await upload(transcoded.buffer, best.url);
+        return { blob, buffer: transcoded.buffer, trimmed: transcoded.trimmed };
+      } catch (err) {
+        logFailure('Video transcode', err);
+      }
+    } else {
+      console.warn(`[${twitterUsername}] ⚠️ ffmpeg not found (set FFMPEG_PATH); skipping video transcode.`);
     }
+  }
 
-    // Force split if no good break point found
-    if (splitIndex === -1) {
-      splitIndex = effectiveLimit;
+  // Lower-bitrate variants cannot fix the length, only the size.
+  if (tooLong) return null;
+  for (const variant of smallerVariants) {
+    try {
+      const buffer = await download(variant.url);
+      if (buffer.length > MAX_VIDEO_BYTES) continue;
+      console.log(`[${twitterUsername}] 🔄 Retrying with a lower-bitrate variant (${variant.bitrate || 0} bps).`);
+      return { blob: await upload(buffer, variant.url), buffer, trimmed: false };
+    } catch (err) {
+      logFailure('Lower-bitrate video upload', err);
     }
+  }
+
+  return null;
+}
+
+// Twitter's own alt text wins; otherwise describe a strip of sampled frames, like the image path does.
+async function describeTweetVideo(
+  buffer: Buffer,
+  options: { durationMs: number; existingAlt?: string; context: string; twitterUsername: string },
+): Promise<string | undefined> {
+  const { durationMs, existingAlt, context, twitterUsername } = options;
+  if (existingAlt) return existingAlt;
+  if (!(await isFfmpegAvailable())) return undefined;
 
-    chunks.push(remaining.substring(0, splitIndex).trim());
-    remaining = remaining.substring(splitIndex).trim();
+  try {
+    console.log(`[${twitterUsername}] 🤖 Generating video alt text from sampled frames...`);
+    const frameStrip = await renderVideoFrameStrip(buffer, durationMs);
+    const altText = await generateAltText(frameStrip, 'image/jpeg', context, 'video');
+    if (altText) console.log(`[${twitterUsername}] ✅ Video alt text generated: ${altText.substring(0, 50)}...`);
+    return altText;
+  } catch (err) {
+    console.warn(`[${twitterUsername}] ⚠️ Failed to sample video frames for alt text:`, (err as Error).message);
+    return undefined;
+  }
+}
+
+// Subtitle tracks only ship inside the HLS variant's playlist; MP4 variants never carry them.
+async function uploadTweetVideoCaptions(
+  agent: BskyAgent,
+  variants: VideoVariant[],
+  dryRun: boolean,
+  twitterUsername: string,
+): Promise<VideoCaption[]> {
+  const playlist = variants.find((variant) => variant.content_type === 'application/x-mpegURL');
+  if (!playlist) return [];
+
+  let tracks: CaptionTrack[];
+  try {
+    tracks = await fetchHlsCaptionTracks(playlist.url);
+  } catch (err) {
+    console.warn(`[${twitterUsername}] ⚠️ Failed to fetch video captions:`, (err as Error).message);
+    return [];
   }
 
-  return chunks;
+  const captions: VideoCaption[] = [];
+  for (const track of tracks) {
+    const file = Buffer.from(track.vtt, 'utf8');
+    if (file.length > MAX_CAPTION_BYTES) {
+      console.warn(`[${twitterUsername}] ⚠️ Skipping ${track.lang} captions (${file.length} bytes is over the limit).`);
+      continue;
+    }
+    if (dryRun) {
+      console.log(`[${twitterUsername}] 🧪 [DRY RUN] Would upload ${track.lang} captions (${file.length} bytes)`);
+      continue;
+    }
+    try {
+      const { data } = await agent.uploadBlob(file, { encoding: 'text/vtt' });
+      captions.push({ lang: track.lang, file: data.blob });
+    } catch (err) {
+      console.warn(`[${twitterUsername}] ⚠️ Failed to upload ${track.lang} captions:`, (err as Error).message);
+    }
+  }
+  if (captions.length > 0) {
+    console.log(`[${twitterUsername}] 💬 Attached ${captions.length} caption track(s) to the video.`);
+  }
+  return captions;
 }
 
 function utf16IndexToUtf8Index(text: string, index: number): number {
@@ -1155,9 +1554,8 @@ function rangesOverlap(startA: number, endA: number, startB: number, endB: numbe
   return startA < endB && startB < endA;
 }
 
-function addTwitterHandleLinkFacets(text: string, facets?: any[]): any[] | undefined {
-  const existingFacets = facets ?? [];
-  const newFacets: any[] = [];
+function findTwitterHandleMentions(text: string): Array<{ handle: string; atIndex: number; endIndex: number }> {
+  const mentions: Array<{ handle: string; atIndex: number; endIndex: number }> = [];
   const regex = /@([A-Za-z0-9_]{1,15})/g;
   let match: RegExpExecArray | null;
 
@@ -1176,6 +1574,18 @@ function addTwitterHandleLinkFacets(text: string, facets?: any[]): any[] | undef
     const nextChar = endIndex < text.length ? text[endIndex] : '';
     if (nextChar && /[A-Za-z0-9_]/.test(nextChar)) continue;
 
+    mentions.push({ handle, atIndex, endIndex });
+  }
+
+  return mentions;
+}
+
+// Handles of mirrored accounts become real mentions of the mirror; everything else links to Twitter.
+function addTwitterHandleFacets(text: string, facets?: any[], mentionDids?: Map<string, string>): any[] | undefined {
+  const existingFacets = facets ?? [];
+  const newFacets: any[] = [];
+
+  for (const { handle, atIndex, endIndex } of findTwitterHandleMentions(text)) {
     const byteStart = utf16IndexToUtf8Index(text, atIndex);
     const byteEnd = utf16IndexToUtf8Index(text, endIndex);
 
@@ -1184,13 +1594,13 @@ function addTwitterHandleLinkFacets(text: string, facets?: any[]): any[] | undef
     );
     if (overlaps) continue;
 
+    const mentionDid = mentionDids?.get(handle.toLowerCase());
     newFacets.push({
       index: { byteStart, byteEnd },
       features: [
-        {
-          $type: 'app.bsky.richtext.facet#link',
-          uri: `https://twitter.com/${handle}`,
-        },
+        mentionDid
+          ? { $type: 'app.bsky.richtext.facet#mention', did: mentionDid }
+          : { $type: 'app.bsky.richtext.facet#link', uri: `https://twitter.com/${handle}` },
       ],
     });
   }
@@ -1199,6 +1609,44 @@ function addTwitterHandleLinkFacets(text: string, facets?: any[]): any[] | undef
   return [...existingFacets, ...newFacets].sort((a, b) => a.index.byteStart - b.index.byteStart);
 }
 
+const ATTRIBUTION_LABEL = '🐦 source';
+// Bluesky caps each record tag at 64 graphemes; twitter.com status URLs stay under it.
+const MAX_RECORD_TAG_GRAPHEMES = 64;
+
+function formatAttributionSuffix(style: AttributionStyle): string {
+  return style === 'compact' || style === 'last-chunk' ? `\n\n${ATTRIBUTION_LABEL}` : '';
+}
+
+// Only the labelled post gives up room for the label, so attribution never forces an extra chunk.
+function reserveAttribution(style: AttributionStyle): ChunkReserve {
+  const length = countGraphemes(formatAttributionSuffix(style));
+  return style === 'last-chunk' ? { last: length } : { first: length };
+}
+
+function appendAttribution(chunks: string[], style: AttributionStyle): string[] {
+  const suffix = formatAttributionSuffix(style);
+  if (!suffix) return chunks;
+  const labelledIndex = style === 'last-chunk' ? chunks.length - 1 : 0;
+  return chunks.map((chunk, index) => {
+    if (index !== labelledIndex) return chunk;
+    return chunk.trim() ? `${chunk}${suffix}` : ATTRIBUTION_LABEL;
+  });
+}
+
+// The label sits at the end of the chunk, so the facet always covers the last bytes of the text.
+function addAttributionFacet(text: string, facets: any[] | undefined, sourceUrl: string): any[] | undefined {
+  if (!text.endsWith(ATTRIBUTION_LABEL)) return facets;
+  const byteStart = utf16IndexToUtf8Index(text, text.length - ATTRIBUTION_LABEL.length);
+  const byteEnd = Buffer.byteLength(text, 'utf8');
+  const existingFacets = (facets ?? []).filter(
+    (facet) => !rangesOverlap(byteStart, byteEnd, facet.index.byteStart, facet.index.byteEnd),
+  );
+  return [
+    ...existingFacets,
+    { index: { byteStart, byteEnd }, features: [{ $type: 'app.bsky.richtext.facet#link', uri: sourceUrl }] },
+  ];
+}
+
 // Replaced safeSearch with fetchUserTweets to use UserTweets endpoint instead of Search
 // Added processedIds for early stopping optimization
 async function fetchUserTweets(
@@ -1288,6 +1736,222 @@ async function fetchUserTweets(
 // Main Processing Logic
 // ============================================================================
 
+async function resolveRetweetedTweet(tweet: Tweet, sessionKey: string): Promise<Tweet | undefined> {
+  if (tweet.retweeted_status && (tweet.retweeted_status.id_str || tweet.retweeted_status.id)) {
+    return tweet.retweeted_status;
+  }
+
+  const originalId = tweet.retweeted_status_id_str;
+  if (!originalId) return undefined;
+
+  try {
+    const scraper = await getTwitterScraper(sessionKey);
+    const originalRaw = scraper ? await scraper.getTweet(originalId) : null;
+    return originalRaw ? mapScraperTweetToLocalTweet(originalRaw) : undefined;
+  } catch (err) {
+    console.warn(`⚠️ Failed to fetch retweeted tweet ${originalId}:`, (err as Error).message);
+    return undefined;
+  }
+}
+
+function buildAttributedRetweet(retweet: Tweet, original: Tweet): Tweet {
+  const originalId = original.id_str || original.id;
+  const originalAuthor = original.user?.screen_name || 'i';
+  const sourceUrl = `https://twitter.com/${originalAuthor}/status/${originalId}`;
+  const retweetId = retweet.id_str || retweet.id;
+
+  return {
+    ...original,
+    id: retweetId,
+    id_str: retweetId,
+    text: `RT @${originalAuthor}: ${getTweetText(original)}\n\n${sourceUrl}`,
+    full_text: `RT @${originalAuthor}: ${getTweetText(original)}\n\n${sourceUrl}`,
+    created_at: retweet.created_at || original.created_at,
+    isRetweet: false,
+    retweeted_status_id_str: undefined,
+    retweeted_status: undefined,
+    in_reply_to_status_id_str: undefined,
+    in_reply_to_status_id: undefined,
+    in_reply_to_user_id_str: undefined,
+    in_reply_to_user_id: undefined,
+    user: retweet.user,
+  };
+}
+
+// Replies to a tweet another mapping mirrored become real replies under that account's post. Rows for our own
+// username are left alone: those are self-threads, which are backfilled into this account instead.
+function findCrossAccountReplyParent(parentId: string, twitterUsername: string): ProcessedTweetEntry | null {
+  const row = dbService.getMirroredPostByTwitterId(parentId);
+  if (!row?.bsky_uri || !row.bsky_cid || row.twitter_username === twitterUsername.toLowerCase()) {
+    return null;
+  }
+  return {
+    uri: row.bsky_uri,
+    cid: row.bsky_cid,
+    root: row.bsky_root_uri && row.bsky_root_cid ? { uri: row.bsky_root_uri, cid: row.bsky_root_cid } : undefined,
+    tail: row.bsky_tail_uri && row.bsky_tail_cid ? { uri: row.bsky_tail_uri, cid: row.bsky_tail_cid } : undefined,
+    migrated: true,
+    text: row.tweet_text,
+  };
+}
+
+// Quotes can point at a tweet mirrored by any mapping; reposts are records that cannot be quoted.
+function findMirroredQuote(
+  quoteId: string,
+  localProcessedMap: ProcessedTweetsMap,
+): { uri: string; cid: string } | null {
+  const local = localProcessedMap[quoteId];
+  if (local?.uri && local.cid && !local.skipped && !local.reposted) {
+    return { uri: local.uri, cid: local.cid };
+  }
+  const mirrored = dbService.getMirroredPostByTwitterId(quoteId);
+  return mirrored?.bsky_uri && mirrored.bsky_cid ? { uri: mirrored.bsky_uri, cid: mirrored.bsky_cid } : null;
+}
+
+function findQuotedAuthor(tweet: Tweet, quoteId: string): string | null {
+  for (const url of tweet.entities?.urls || []) {
+    const match = url.expanded_url?.match(/(?:twitter|x)\.com\/([A-Za-z0-9_]{1,15})\/status\/(\d+)/i);
+    if (match?.[1] && match[2] === quoteId) {
+      return match[1].toLowerCase();
+    }
+  }
+  return null;
+}
+
+// Worth waiting only while the quoting tweet is fresh and a mapping that mirrors the quoted author
+// has not settled the quoted tweet yet (no row, or a failure that is still being retried).
+function shouldWaitForQuotedTweet(tweet: Tweet, quoteId: string, quoteWaitMinutes: number | undefined): boolean {
+  if (!quoteWaitMinutes) return false;
+  const createdAtMs = tweet.created_at ? Date.parse(tweet.created_at) : Number.NaN;
+  if (!Number.isFinite(createdAtMs) || Date.now() - createdAtMs > quoteWaitMinutes * 60 * 1000) return false;
+
+  const author = findQuotedAuthor(tweet, quoteId);
+  if (!author) return false;
+  return getConfig().mappings.some((mapping) => {
+    if (!mapping.enabled || !mapping.twitterUsernames.some((username) => username.toLowerCase() === author)) {
+      return false;
+    }
+    const row = dbService.getTweet(quoteId, mapping.bskyIdentifier.toLowerCase());
+    return !row || row.status === 'failed';
+  });
+}
+
+// Edited tweets arrive with a new ID; the edit history lists every earlier version, oldest first.
+function findMirroredPreviousVersion(
+  tweet: Tweet,
+  tweetId: string,
+  processedMap: ProcessedTweetsMap,
+  bskyIdentifier: string,
+): { twitterId: string; entry: ProcessedTweetEntry } | null {
+  const previousIds = (tweet.edit_history_ids || []).filter((id) => id !== tweetId).reverse();
+
+  for (const previousId of previousIds) {
+    let entry = processedMap[previousId];
+    if (!entry) {
+      const dbRecord = dbService.getTweet(previousId, bskyIdentifier);
+      if (dbRecord && dbRecord.status !== 'deleted') {
+        entry = {
+          uri: dbRecord.bsky_uri,
+          cid: dbRecord.bsky_cid,
+          root:
+            dbRecord.bsky_root_uri && dbRecord.bsky_root_cid
+              ? { uri: dbRecord.bsky_root_uri, cid: dbRecord.bsky_root_cid }
+              : undefined,
+          tail:
+            dbRecord.bsky_tail_uri && dbRecord.bsky_tail_cid
+              ? { uri: dbRecord.bsky_tail_uri, cid: dbRecord.bsky_tail_cid }
+              : undefined,
+          migrated: dbRecord.status === 'migrated',
+          text: dbRecord.tweet_text,
+        };
+      }
+    }
+
+    if (entry?.uri && entry.cid) {
+      return { twitterId: previousId, entry };
+    }
+  }
+
+  return null;
+}
+
+function findMappingForAccount(twitterUsername: string, bskyIdentifier: string): AccountMapping | undefined {
+  const normalizedUsername = twitterUsername.toLowerCase();
+  const normalizedIdentifier = bskyIdentifier.toLowerCase();
+  return getConfig().mappings.find(
+    (mapping) =>
+      mapping.bskyIdentifier.toLowerCase() === normalizedIdentifier &&
+      mapping.twitterUsernames.some((username) => username.toLowerCase() === normalizedUsername),
+  );
+}
+
+// Recent posts of each Bluesky account, listed at most once per task and dropped when the task ends.
+const recentPostRecordsByBsky = new Map<string, Promise<FeedPostRecord[]>>();
+
+function loadRecentPostRecords(agent: BskyAgent, bskyIdentifier: string, twitterUsername: string) {
+  const key = bskyIdentifier.toLowerCase();
+  let records = recentPostRecordsByBsky.get(key);
+  if (!records) {
+    records = listRecentPostRecords(agent, DUPLICATE_CHECK_RECORD_LIMIT).catch((err) => {
+      console.warn(`[${twitterUsername}] ⚠️ Could not load recent Bluesky posts for duplicate check:`, err);
+      return [];
+    });
+    recentPostRecordsByBsky.set(key, records);
+  }
+  return records;
+}
+
+function clearRecentPostRecords(bskyIdentifier: string): void {
+  recentPostRecordsByBsky.delete(bskyIdentifier.toLowerCase());
+}
+
+// Per-mapping rules see the text as the tweet reads; link rewriting runs after so {url} follows the front-end.
+function applyMappingTextTransform(
+  text: string,
+  tweet: Tweet,
+  tweetId: string,
+  twitterUsername: string,
+  mapping: AccountMapping | undefined,
+): string {
+  if (!mapping?.textRewrites && !mapping?.textPrefix && !mapping?.textSuffix) {
+    return text;
+  }
+  return transformTweetText(text, {
+    rules: mapping.textRewrites,
+    prefix: mapping.textPrefix,
+    suffix: mapping.textSuffix,
+    variables: {
+      author: tweet.user?.name?.trim() || twitterUsername,
+      username: twitterUsername,
+      date: formatTemplateDate(tweet.created_at),
+      url: `https://twitter.com/${twitterUsername}/status/${tweetId}`,
+    },
+  });
+}
+
+function addExternalReplyHeader(text: string, parentAuthor: string): string {
+  const body = text.replace(/^(?:@\w{1,15}\s+)+/, '').trim();
+  return `Replying to @${parentAuthor}\n\n${body}`.trim();
+}
+
+// The opening text a mirror of this tweet would carry; links are ignored by the duplicate check, so they stay as-is.
+function buildExpectedPostText(
+  tweet: Tweet,
+  tweetId: string,
+  twitterUsername: string,
+  mapping: AccountMapping | undefined,
+  externalReplyAuthor?: string,
+): string {
+  const text = applyMappingTextTransform(
+    addTextFallbacks(decodeHtmlEntities(getTweetText(tweet))),
+    tweet,
+    tweetId,
+    twitterUsername,
+    mapping,
+  );
+  return externalReplyAuthor ? addExternalReplyHeader(text, externalReplyAuthor) : text;
+}
+
 async function processTweets(
   agent: BskyAgent,
   twitterUsername: string,
@@ -1313,6 +1977,8 @@ async function processTweets(
   const tweetMap = sharedTweetMap ?? new Map<string, Tweet>();
   addTweetsToMap(tweetMap, filteredTweets);
 
+  const mapping = findMappingForAccount(twitterUsername, bskyIdentifier);
+
   // Maintain a local map that updates in real-time for intra-batch replies
   const localProcessedMap: ProcessedTweetsMap =
     sharedProcessedMap ?? { ...loadProcessedTweets(bskyIdentifier) };
@@ -1328,8 +1994,9 @@ async function processTweets(
 
   filteredTweets.reverse();
   let count = 0;
-  for (const tweet of filteredTweets) {
+  for (const candidateTweet of filteredTweets) {
     count++;
+    let tweet = candidateTweet;
     const tweetId = tweet.id_str || tweet.id;
     if (!tweetId) continue;
 
@@ -1337,6 +2004,10 @@ async function processTweets(
 
     // Fallback to DB in case a nested backfill already saved this tweet.
     const dbRecord = dbService.getTweet(tweetId, bskyIdentifier);
+    if (dbRecord?.status === 'deleted') {
+      localProcessedMap[tweetId] = { deleted: true };
+      continue;
+    }
     if (dbRecord) {
       localProcessedMap[tweetId] = {
         uri: dbRecord.bsky_uri,
@@ -1350,23 +2021,152 @@ async function processTweets(
             ? { uri: dbRecord.bsky_tail_uri, cid: dbRecord.bsky_tail_cid }
             : undefined,
         migrated: dbRecord.status === 'migrated',
+        reposted: dbRecord.status === 'reposted',
         skipped: dbRecord.status === 'skipped',
+        failed: dbRecord.status === 'failed',
       };
       continue;
     }
 
-    const isRetweet = tweet.isRetweet || tweet.retweeted_status_id_str || tweet.text?.startsWith('RT @');
+    // Keep the tweet as fetched so a retry starts from the same input.
+    const tweetSnapshot = JSON.stringify(candidateTweet);
+    const recordFailure = (stage: string, error: unknown, text?: string) => {
+      if (dryRun) {
+        console.warn(`[${twitterUsername}] 🧪 [DRY RUN] Would record failure for ${tweetId} at ${stage}.`);
+        return;
+      }
+      saveProcessedTweet(twitterUsername, bskyIdentifier, tweetId, { text });
+      localProcessedMap[tweetId] = { failed: true, text };
+      const failure = recordPostFailure({
+        twitterId: tweetId,
+        twitterUsername,
+        bskyIdentifier,
+        stage,
+        error: describeError(error),
+        tweetJson: tweetSnapshot,
+      });
+      console.warn(
+        failure.state === 'gave_up'
+          ? `[${twitterUsername}] ⚠️ Giving up on ${tweetId} after ${failure.attempts} attempt(s) (${stage}).`
+          : `[${twitterUsername}] ⚠️ Recorded failure for ${tweetId} at ${stage} (attempt ${failure.attempts}); retrying in ${Math.round(getPostRetryDelayMs(failure.attempts) / 60000)} min.`,
+      );
+    };
+
+    // Waiting on another tweet is not a failure; it is rechecked later without counting an attempt.
+    const deferUntilLater = (stage: string, reason: string, text?: string) => {
+      if (dryRun) {
+        console.log(`[${twitterUsername}] 🧪 [DRY RUN] Would defer ${tweetId} (${stage}).`);
+        return;
+      }
+      saveProcessedTweet(twitterUsername, bskyIdentifier, tweetId, { text });
+      localProcessedMap[tweetId] = { failed: true, text };
+      recordPostDeferral({
+        twitterId: tweetId,
+        twitterUsername,
+        bskyIdentifier,
+        stage,
+        reason,
+        tweetJson: tweetSnapshot,
+      });
+    };
+
+    const editSyncMode = mapping?.editSyncMode ?? 'off';
+    const editedFrom =
+      editSyncMode === 'off' ? null : findMirroredPreviousVersion(tweet, tweetId, localProcessedMap, bskyIdentifier);
+    if (editedFrom) {
+      console.log(
+        `[${twitterUsername}] ✏️ Tweet ${tweetId} is an edit of mirrored tweet ${editedFrom.twitterId} (mode: ${editSyncMode}).`,
+      );
+    }
+
+    const isRetweet = tweet.isRetweet || tweet.retweeted_status_id_str || tweet.text?.startsWith('RT @');
+
+    const retweetPolicy = mapping?.retweetPolicy ?? 'skip';
+    let retweetOriginal: Tweet | undefined;
 
     if (isRetweet) {
-      console.log(`[${twitterUsername}] ⏩ Skipping retweet ${tweetId}.`);
-      if (!dryRun) {
-        // Save as skipped so we don't check it again
-        saveProcessedTweet(twitterUsername, bskyIdentifier, tweetId, { skipped: true, text: tweet.text });
-        localProcessedMap[tweetId] = { skipped: true, text: tweet.text };
+      retweetOriginal = retweetPolicy === 'skip' ? undefined : await resolveRetweetedTweet(tweet, sessionKey);
+      if (!retweetOriginal) {
+        console.log(`[${twitterUsername}] ⏩ Skipping retweet ${tweetId}.`);
+        if (!dryRun) {
+          // Save as skipped so we don't check it again
+          saveProcessedTweet(twitterUsername, bskyIdentifier, tweetId, { skipped: true, text: tweet.text });
+          localProcessedMap[tweetId] = { skipped: true, text: tweet.text };
+        }
+        continue;
+      }
+    }
+
+    if (mapping?.contentFilters && mapping.contentFilters.length > 0) {
+      const filterSource = retweetOriginal ?? tweet;
+      const rawText = filterSource.full_text || filterSource.text || '';
+      const filterText = decodeHtmlEntities(rawText);
+      const decision = evaluateContentFilters(
+        buildContentFilterSubject(filterSource, filterText),
+        mapping.contentFilters,
+      );
+      if (!decision.allowed) {
+        const skipReason = `filter: ${decision.reason}`;
+        console.log(`[${twitterUsername}] ⏩ Skipping tweet ${tweetId} (${skipReason}).`);
+        if (!dryRun) {
+          saveProcessedTweet(twitterUsername, bskyIdentifier, tweetId, { skipped: true, text: rawText, skipReason });
+          localProcessedMap[tweetId] = { skipped: true, text: rawText, skipReason };
+        }
+        continue;
+      }
+    }
+
+    if (retweetOriginal && retweetPolicy === 'repost') {
+      const originalId = retweetOriginal.id_str || retweetOriginal.id || '';
+      const retweetText = tweet.full_text || tweet.text;
+      const mirroredOriginal = originalId ? dbService.getMirroredPostByTwitterId(originalId) : null;
+
+      if (!mirroredOriginal?.bsky_uri || !mirroredOriginal.bsky_cid) {
+        const skipReason = 'retweet: original is not mirrored';
+        console.log(`[${twitterUsername}] ⏩ Skipping retweet ${tweetId} (${skipReason}).`);
+        if (!dryRun) {
+          saveProcessedTweet(twitterUsername, bskyIdentifier, tweetId, {
+            skipped: true,
+            text: retweetText,
+            skipReason,
+          });
+          localProcessedMap[tweetId] = { skipped: true, text: retweetText, skipReason };
+        }
+        continue;
+      }
+
+      if (dryRun) {
+        console.log(
+          `[${twitterUsername}] 🧪 [DRY RUN] Would repost ${mirroredOriginal.bsky_uri} for retweet ${tweetId}`,
+        );
+        continue;
+      }
+
+      try {
+        console.log(`[${twitterUsername}] 🔁 Reposting mirrored original of retweet ${tweetId}...`);
+        const repost = await agent.repost(mirroredOriginal.bsky_uri, mirroredOriginal.bsky_cid);
+        const entry: ProcessedTweetEntry = {
+          uri: repost.uri,
+          cid: repost.cid,
+          text: retweetText,
+          reposted: true,
+          retweet: true,
+        };
+        saveProcessedTweet(twitterUsername, bskyIdentifier, tweetId, entry);
+        localProcessedMap[tweetId] = entry;
+        console.log(`[${twitterUsername}] ✅ Retweet ${tweetId} reposted natively.`);
+      } catch (err) {
+        console.error(`[${twitterUsername}] ❌ Failed to repost retweet ${tweetId}:`, err);
+        recordFailure('repost', err, retweetText);
       }
       continue;
     }
 
+    if (retweetOriginal) {
+      console.log(`[${twitterUsername}] 🔁 Crossposting retweet ${tweetId} as an attributed copy.`);
+      tweet = buildAttributedRetweet(tweet, retweetOriginal);
+    }
+
     console.log(`\n[${twitterUsername}] 🔍 Inspecting tweet: ${tweetId}`);
     updateAppStatus({
       state: 'processing',
@@ -1382,11 +2182,28 @@ async function processTweets(
     const isReply = !!replyStatusId || !!replyUserId || tweetText.trim().startsWith('@');
 
     let replyParentInfo: ProcessedTweetEntry | null = null;
+    let externalReplyParent: { author: string; url: string; tweet?: Tweet } | null = null;
+
+    if (isReply && replyStatusId && localProcessedMap[replyStatusId]?.failed) {
+      console.log(`[${twitterUsername}] ⏳ Parent ${replyStatusId} failed to post. Deferring reply ${tweetId}.`);
+      deferUntilLater('waiting for parent', `Parent tweet ${replyStatusId} has not been posted yet`, tweetText);
+      continue;
+    }
+
+    const crossAccountParent =
+      isReply && replyStatusId && !localProcessedMap[replyStatusId]
+        ? findCrossAccountReplyParent(replyStatusId, twitterUsername)
+        : null;
 
     if (isReply) {
       if (replyStatusId && localProcessedMap[replyStatusId]) {
         console.log(`[${twitterUsername}] 🧵 Threading reply to post in ${bskyIdentifier}: ${replyStatusId}`);
         replyParentInfo = localProcessedMap[replyStatusId] ?? null;
+      } else if (crossAccountParent) {
+        console.log(
+          `[${twitterUsername}] 🧵 Parent ${replyStatusId} is mirrored by another account. Replying to ${crossAccountParent.uri}`,
+        );
+        replyParentInfo = crossAccountParent;
       } else if (replyStatusId) {
         // Parent missing from local batch/DB. Attempt to fetch it if it's a self-thread.
         // We assume it's a self-thread if we don't have it, but we'll verify author after fetch.
@@ -1437,6 +2254,13 @@ async function processTweets(
                   parentBackfilled = true;
                   console.log(`[${twitterUsername}] ✅ Parent backfilled. Resuming thread.`);
                 }
+              } else if (mapping?.postExternalReplies && parentAuthor) {
+                console.log(`[${twitterUsername}] 💬 Parent is by @${parentAuthor}. Posting as standalone reply.`);
+                externalReplyParent = {
+                  author: parentAuthor,
+                  url: `https://twitter.com/${parentAuthor}/status/${replyStatusId}`,
+                  tweet: parentTweet,
+                };
               } else {
                 console.log(`[${twitterUsername}] ⏩ Parent is by @${parentAuthor}. Skipping external reply.`);
               }
@@ -1446,7 +2270,7 @@ async function processTweets(
           console.warn(`[${twitterUsername}] ⚠️ Failed to fetch/backfill parent ${replyStatusId}:`, e);
         }
 
-        if (!parentBackfilled) {
+        if (!parentBackfilled && !externalReplyParent) {
           console.log(`[${twitterUsername}] ⏩ Skipping external/unknown reply (Parent not found or external).`);
           if (!dryRun) {
             saveProcessedTweet(twitterUsername, bskyIdentifier, tweetId, { skipped: true, text: tweetText });
@@ -1464,14 +2288,50 @@ async function processTweets(
       }
     }
 
+    const quoteId = tweet.is_quote_status ? tweet.quoted_status_id_str : undefined;
+    if (
+      quoteId &&
+      !findMirroredQuote(quoteId, localProcessedMap) &&
+      shouldWaitForQuotedTweet(tweet, quoteId, mapping?.quoteWaitMinutes)
+    ) {
+      console.log(`[${twitterUsername}] ⏳ Quoted tweet ${quoteId} is not mirrored yet. Deferring quote ${tweetId}.`);
+      deferUntilLater('waiting for quoted tweet', `Quoted tweet ${quoteId} has not been mirrored yet`, tweetText);
+      continue;
+    }
+
+    // Only tweets that passed every gate get this far; catch mirrors the local DB no longer knows about.
+    const tweetCreatedAtMs = tweet.created_at ? Date.parse(tweet.created_at) : Number.NaN;
+    if (!editedFrom && Number.isFinite(tweetCreatedAtMs) && !dbService.getPostIntent(tweetId, bskyIdentifier)) {
+      const existingThread = findMirroredThread(await loadRecentPostRecords(agent, bskyIdentifier, twitterUsername), {
+        createdAtMs: tweetCreatedAtMs,
+        text: buildExpectedPostText(tweet, tweetId, twitterUsername, mapping, externalReplyParent?.author),
+      });
+      if (existingThread) {
+        const entry: ProcessedTweetEntry = {
+          uri: existingThread.uri,
+          cid: existingThread.cid,
+          root: existingThread.root,
+          tail: existingThread.tail,
+          text: tweetText,
+        };
+        if (dryRun) {
+          console.log(
+            `[${twitterUsername}] 🧪 [DRY RUN] Would adopt existing post ${existingThread.uri} for ${tweetId}`,
+          );
+        } else {
+          saveProcessedTweet(twitterUsername, bskyIdentifier, tweetId, entry);
+          console.log(
+            `[${twitterUsername}] 🔗 Tweet ${tweetId} is already on Bluesky (${existingThread.uri}); adopted instead of reposting.`,
+          );
+        }
+        localProcessedMap[tweetId] = entry;
+        continue;
+      }
+    }
+
     // Removed early dryRun continue to allow verifying logic
 
-    let text = tweetText
-      .replace(/&amp;/g, '&')
-      .replace(/&lt;/g, '<')
-      .replace(/&gt;/g, '>')
-      .replace(/&quot;/g, '"')
-      .replace(/&#39;/g, "'");
+    let text = decodeHtmlEntities(tweetText);
 
     // 1. Link Expansion
     console.log(`[${twitterUsername}] 🔗 Expanding links...`);
@@ -1508,17 +2368,24 @@ async function processTweets(
         console.log(`[${twitterUsername}] 🧩 Syndication carousel detected. Extracting media...`);
         injectSyndicationMedia(tweet, syndication);
       }
+      // Timeline payloads often leave the poll card out; the syndication copy has it.
+      if (!detectTweetPoll(tweet.card) && detectTweetPoll(syndication.card)) {
+        tweet.card = syndication.card;
+      }
     }
 
     // 2. Media Handling
     const images: ImageEmbed[] = [];
     let videoBlob: BlobRef | null = null;
-    let videoAspectRatio: AspectRatio | undefined;
+    let videoDetails: Omit<VideoAttachment, 'video'> = {};
+    const extraVideos: VideoAttachment[] = [];
+    const postMediaFollowUps = mapping?.postMediaFollowUps !== false;
     const mediaEntities = tweet.extended_entities?.media || tweet.entities?.media || [];
     const mediaLinksToRemove: string[] = [];
 
     console.log(`[${twitterUsername}] 🖼️ Found ${mediaEntities.length} media entities.`);
 
+    let mediaFailure: { stage: string; error: unknown } | null = null;
     for (const media of mediaEntities) {
       if (media.url) {
         mediaLinksToRemove.push(media.url);
@@ -1538,6 +2405,8 @@ async function processTweets(
       if (media.type === 'photo') {
         const url = media.media_url_https;
         if (!url) continue;
+        if (!postMediaFollowUps && images.length >= MAX_IMAGES_PER_POST) continue;
+        let mediaStage = 'media download';
         try {
           const highQualityUrl = url.includes('?') ? url.replace('?', ':orig?') : url + ':orig';
           console.log(`[${twitterUsername}] 📥 Downloading image (high quality): ${path.basename(highQualityUrl)}`);
@@ -1553,6 +2422,7 @@ async function processTweets(
           } else {
             console.log(`[${twitterUsername}] 📤 Uploading image to Bluesky...`);
             updateAppStatus({ message: `Uploading image to Bluesky...` });
+            mediaStage = 'media upload';
             blob = await uploadToBluesky(agent, buffer, mimeType);
           }
 
@@ -1572,77 +2442,70 @@ async function processTweets(
           try {
             console.log(`[${twitterUsername}] 🔄 Retrying with standard quality...`);
             updateAppStatus({ message: `Retrying with standard quality...` });
+            mediaStage = 'media download';
             const { buffer, mimeType } = await downloadMedia(url);
+            mediaStage = 'media upload';
             const blob = await uploadToBluesky(agent, buffer, mimeType);
             images.push({ alt: media.ext_alt_text || 'Image from Twitter', image: blob, aspectRatio });
             console.log(`[${twitterUsername}] ✅ Image uploaded on retry.`);
           } catch (retryErr) {
             console.error(`[${twitterUsername}] ❌ Retry also failed:`, (retryErr as Error).message);
+            mediaFailure = { stage: mediaStage, error: retryErr };
+            break;
           }
         }
       } else if (media.type === 'video' || media.type === 'animated_gif') {
         const variants = media.video_info?.variants || [];
         const duration = media.video_info?.duration_millis || 0;
+        const tweetUrl = `https://twitter.com/${twitterUsername}/status/${tweetId}`;
+        const trimLongVideos = mapping?.trimLongVideos === true;
 
-        if (duration > 180000) {
-          // 3 minutes
+        if (duration > MAX_VIDEO_DURATION_MS && !trimLongVideos) {
           console.warn(`[${twitterUsername}] ⚠️ Video too long (${(duration / 1000).toFixed(1)}s). Fallback to link.`);
-          const tweetUrl = `https://twitter.com/${twitterUsername}/status/${tweetId}`;
           if (!text.includes(tweetUrl)) text += `\n\nVideo: ${tweetUrl}`;
           continue;
         }
 
-        const mp4s = variants
-          .filter((v) => v.content_type === 'video/mp4')
-          .sort((a, b) => (b.bitrate || 0) - (a.bitrate || 0));
+        const uploaded = await uploadTweetVideo(agent, variants, {
+          durationMs: duration,
+          trimToLimit: trimLongVideos,
+          dryRun,
+          twitterUsername,
+        });
+        if (!uploaded) {
+          console.warn(`[${twitterUsername}] ⚠️ Could not upload any version of the video. Fallback to link.`);
+          if (!text.includes(tweetUrl)) text += `\n\nVideo: ${tweetUrl}`;
+          continue;
+        }
 
-        if (mp4s.length > 0) {
-          const firstVariant = mp4s[0];
-          if (firstVariant) {
-            const videoUrl = firstVariant.url;
-            try {
-              console.log(`[${twitterUsername}] 📥 Downloading video: ${videoUrl}`);
-              updateAppStatus({ message: `Downloading video: ${path.basename(videoUrl)}` });
-              const { buffer, mimeType } = await downloadMedia(videoUrl);
-
-              if (buffer.length <= 90 * 1024 * 1024) {
-                const filename = videoUrl.split('/').pop() || 'video.mp4';
-                if (dryRun) {
-                  console.log(
-                    `[${twitterUsername}] 🧪 [DRY RUN] Would upload video: ${filename} (${(buffer.length / 1024 / 1024).toFixed(2)} MB)`,
-                  );
-                  videoBlob = {
-                    ref: { toString: () => 'mock-video-blob' },
-                    mimeType: 'video/mp4',
-                    size: buffer.length,
-                  } as any;
-                } else {
-                  updateAppStatus({ message: `Uploading video to Bluesky...` });
-                  videoBlob = await uploadVideoToBluesky(agent, buffer, filename);
-                }
-                videoAspectRatio = aspectRatio;
-                console.log(`[${twitterUsername}] ✅ Video upload process complete.`);
-                break; // Prioritize first video
-              }
+        if (uploaded.trimmed && !text.includes(tweetUrl)) {
+          text += `\n\nFull video: ${tweetUrl}`;
+        }
 
-              console.warn(
-                `[${twitterUsername}] ⚠️ Video too large (${(buffer.length / 1024 / 1024).toFixed(2)}MB). Fallback to link.`,
-              );
-              const tweetUrl = `https://twitter.com/${twitterUsername}/status/${tweetId}`;
-              if (!text.includes(tweetUrl)) text += `\n\nVideo: ${tweetUrl}`;
-            } catch (err) {
-              const errMsg = (err as Error).message;
-              if (errMsg !== 'VIDEO_FALLBACK_503') {
-                console.error(`[${twitterUsername}] ❌ Failed video upload flow:`, errMsg);
-              }
-              const tweetUrl = `https://twitter.com/${twitterUsername}/status/${tweetId}`;
-              if (!text.includes(tweetUrl)) text += `\n\nVideo: ${tweetUrl}`;
-            }
-          }
+        const alt = await describeTweetVideo(uploaded.buffer, {
+          durationMs: duration,
+          existingAlt: media.ext_alt_text,
+          context: buildAltTextContext(tweet, tweetText, tweetMap),
+          twitterUsername,
+        });
+        const captions = await uploadTweetVideoCaptions(agent, variants, dryRun, twitterUsername);
+        const details = { aspectRatio, alt, captions };
+        if (videoBlob) {
+          extraVideos.push({ video: uploaded.blob, ...details });
+        } else {
+          videoBlob = uploaded.blob;
+          videoDetails = details;
         }
+        console.log(`[${twitterUsername}] ✅ Video upload process complete.`);
+        if (!postMediaFollowUps) break; // Prioritize first video
       }
     }
 
+    if (mediaFailure) {
+      recordFailure(mediaFailure.stage, mediaFailure.error, tweetText);
+      continue;
+    }
+
     // Cleanup text
     for (const link of mediaLinksToRemove) text = text.split(link).join('').trim();
     if (isSponsoredCard) {
@@ -1657,18 +2520,75 @@ async function processTweets(
     }
     text = text.replace(/\n\s*\n/g, '\n\n').trim();
     text = addTextFallbacks(text);
+    text = applyMappingTextTransform(text, tweet, tweetId, twitterUsername, mapping);
+    text = rewriteTwitterLinks(text, mapping?.twitterLinkFrontend);
+
+    // Bluesky has no polls; show the choices and current counts so the post is more than the question.
+    const poll = detectTweetPoll(tweet.card);
+    if (poll) {
+      const pollText = formatPollText(poll);
+      let renderedPollImage = false;
+      const pollStyle = mapping?.pollStyle ?? DEFAULT_POLL_STYLE;
+      if (pollStyle === 'image' && !videoBlob && images.length < MAX_IMAGES_PER_POST) {
+        if (dryRun) {
+          console.log(`[${twitterUsername}] 🧪 [DRY RUN] Would render the poll as an image`);
+          renderedPollImage = true;
+        } else {
+          try {
+            const rendered = await renderPollImage(poll);
+            const blob = await uploadToBluesky(agent, rendered.buffer, 'image/jpeg');
+            images.push({
+              alt: pollText,
+              image: blob,
+              aspectRatio: { width: rendered.width, height: rendered.height },
+            });
+            renderedPollImage = true;
+          } catch (err) {
+            console.warn(`[${twitterUsername}] ⚠️ Failed to render poll image, adding it as text instead:`, err);
+          }
+        }
+      }
+      if (!renderedPollImage) {
+        text = `${text}\n\n${pollText}`.trim();
+      }
+      console.log(
+        `[${twitterUsername}] 📊 Poll with ${poll.choices.length} choices added as ${renderedPollImage ? 'an image' : 'text'}.`,
+      );
+    }
+
+    // External replies are posted standalone, with the parent tweet attached as context.
+    if (externalReplyParent) {
+      text = addExternalReplyHeader(text, externalReplyParent.author);
+
+      let parentScreenshot: ImageEmbed | null = null;
+      if (images.length < 4 && !videoBlob) {
+        parentScreenshot = await uploadTweetScreenshot(
+          agent,
+          externalReplyParent.url,
+          `Replying to @${externalReplyParent.author}: ${externalReplyParent.url}`,
+          dryRun,
+          twitterUsername,
+          'reply parent',
+          externalReplyParent.tweet,
+        );
+      }
+      if (parentScreenshot) {
+        images.push(parentScreenshot);
+      } else {
+        text += `\n\nRe: ${rewriteTwitterLinks(externalReplyParent.url, mapping?.twitterLinkFrontend)}`;
+      }
+    }
 
     // 3. Quoting Logic
     let quoteEmbed: { $type: string; record: { uri: string; cid: string } } | null = null;
     let externalQuoteUrl: string | null = null;
-    let linkCard: any = null;
-
-    if (tweet.is_quote_status && tweet.quoted_status_id_str) {
-      const quoteId = tweet.quoted_status_id_str;
-      const quoteRef = localProcessedMap[quoteId];
-      if (quoteRef && !quoteRef.migrated && quoteRef.uri && quoteRef.cid) {
-        console.log(`[${twitterUsername}] 🔄 Found quoted tweet in local history. Natively embedding.`);
-        quoteEmbed = { $type: 'app.bsky.embed.record', record: { uri: quoteRef.uri, cid: quoteRef.cid } };
+    let linkCard: LinkCardEmbed | null = null;
+
+    if (quoteId) {
+      const quoteRef = findMirroredQuote(quoteId, localProcessedMap);
+      if (quoteRef) {
+        console.log(`[${twitterUsername}] 🔄 Found quoted tweet in mirrored history. Natively embedding.`);
+        quoteEmbed = { $type: 'app.bsky.embed.record', record: quoteRef };
       } else {
         const quoteUrlEntity = urls.find((u) => u.expanded_url?.includes(quoteId));
         const qUrl = quoteUrlEntity?.expanded_url || `https://twitter.com/i/status/${quoteId}`;
@@ -1684,31 +2604,16 @@ async function processTweets(
 
           // Try to capture screenshot for external QTs if we have space for images
           if (images.length < 4 && !videoBlob) {
-            const ssResult = await captureTweetScreenshot(externalQuoteUrl);
-            if (ssResult) {
-              try {
-                let blob: BlobRef;
-                if (dryRun) {
-                  console.log(
-                    `[${twitterUsername}] 🧪 [DRY RUN] Would upload screenshot for quote (${(ssResult.buffer.length / 1024).toFixed(2)} KB)`,
-                  );
-                  blob = {
-                    ref: { toString: () => 'mock-ss-blob' },
-                    mimeType: 'image/png',
-                    size: ssResult.buffer.length,
-                  } as any;
-                } else {
-                  blob = await uploadToBluesky(agent, ssResult.buffer, 'image/png');
-                }
-                images.push({
-                  alt: `Quote Tweet: ${externalQuoteUrl}`,
-                  image: blob,
-                  aspectRatio: { width: ssResult.width, height: ssResult.height },
-                });
-              } catch (e) {
-                console.warn(`[${twitterUsername}] ⚠️ Failed to upload screenshot blob.`);
-              }
-            }
+            const screenshot = await uploadTweetScreenshot(
+              agent,
+              externalQuoteUrl,
+              `Quote Tweet: ${externalQuoteUrl}`,
+              dryRun,
+              twitterUsername,
+              'quote',
+              tweet.quoted_status?.id_str === quoteId ? tweet.quoted_status : undefined,
+            );
+            if (screenshot) images.push(screenshot);
           }
         } else {
           console.log(`[${twitterUsername}] 🔁 Quoted tweet is a self-quote, skipping link.`);
@@ -1726,10 +2631,10 @@ async function processTweets(
         if (linkToEmbed) {
           // Optimization: If text is too long, but removing the link makes it fit, do it!
           // The link will be present in the embed card anyway.
-          if (text.length > 300 && text.includes(linkToEmbed)) {
-            const lengthWithoutLink = text.length - linkToEmbed.length;
+          if (countGraphemes(text) > POST_GRAPHEME_LIMIT && text.includes(linkToEmbed)) {
+            const lengthWithoutLink = countGraphemes(text) - countGraphemes(linkToEmbed);
             // Allow some buffer (e.g. whitespace cleanup might save 1-2 chars)
-            if (lengthWithoutLink <= 300) {
+            if (lengthWithoutLink <= POST_GRAPHEME_LIMIT) {
               console.log(
                 `[${twitterUsername}] 📏 Optimizing: Removing link ${linkToEmbed} from text to avoid threading (Card will embed it).`,
               );
@@ -1740,15 +2645,23 @@ async function processTweets(
           }
 
           console.log(`[${twitterUsername}] 🃏 Fetching link card for: ${linkToEmbed}`);
-          linkCard = await fetchEmbedUrlCard(agent, linkToEmbed);
+          linkCard = await fetchEmbedUrlCard(agent, linkToEmbed, detectLinkPreviewFallback(tweet, linkToEmbed));
         }
       }
     }
 
     // Only append link for external quotes IF we couldn't natively embed it OR screenshot it
     const hasScreenshot = images.some((img) => img.alt.startsWith('Quote Tweet:'));
-    if (externalQuoteUrl && !quoteEmbed && !hasScreenshot && !text.includes(externalQuoteUrl)) {
-      text += `\n\nQT: ${externalQuoteUrl}`;
+    const displayQuoteUrl = externalQuoteUrl && rewriteTwitterLinks(externalQuoteUrl, mapping?.twitterLinkFrontend);
+    if (
+      externalQuoteUrl &&
+      displayQuoteUrl &&
+      !quoteEmbed &&
+      !hasScreenshot &&
+      !text.includes(externalQuoteUrl) &&
+      !text.includes(displayQuoteUrl)
+    ) {
+      text += `\n\nQT: ${displayQuoteUrl}`;
     }
 
     if (isSponsoredCard) {
@@ -1758,30 +2671,150 @@ async function processTweets(
       }
     }
 
+    const canonicalTweetUrl = `https://twitter.com/${twitterUsername}/status/${tweetId}`;
+    const tweetUrl = rewriteTwitterLinks(canonicalTweetUrl, mapping?.twitterLinkFrontend);
+    // The attribution is appended after splitting; postLimit is the budget of a post that carries it.
+    const attributionStyle = mapping?.attributionStyle ?? DEFAULT_ATTRIBUTION_STYLE;
+    const postLimit = POST_GRAPHEME_LIMIT - countGraphemes(formatAttributionSuffix(attributionStyle));
+    const attributionTags =
+      attributionStyle === 'tags' && countGraphemes(canonicalTweetUrl) <= MAX_RECORD_TAG_GRAPHEMES
+        ? [canonicalTweetUrl]
+        : [];
+
+    // Long tweets follow the mapping's overflow strategy; 'thread' leaves them to splitText below.
+    const overflowStrategy = mapping?.overflowStrategy ?? DEFAULT_OVERFLOW_STRATEGY;
+    if (overflowStrategy !== 'thread' && countGraphemes(text) > postLimit) {
+      let renderedAsImage = false;
+      if (overflowStrategy === 'image' && !videoBlob && images.length < 4) {
+        if (dryRun) {
+          console.log(`[${twitterUsername}] 🧪 [DRY RUN] Would render the full text as an image`);
+          renderedAsImage = true;
+        } else {
+          try {
+            const rendered = await renderTextImage(text);
+            const blob = await uploadToBluesky(agent, rendered.buffer, 'image/jpeg');
+            images.unshift({
+              alt: truncateText(text, '', MAX_ALT_TEXT_GRAPHEMES),
+              image: blob,
+              aspectRatio: { width: rendered.width, height: rendered.height },
+            });
+            renderedAsImage = true;
+          } catch (err) {
+            console.warn(`[${twitterUsername}] ⚠️ Failed to render text image, truncating instead:`, err);
+          }
+        }
+      }
+
+      text = renderedAsImage ? truncateText(text, '', postLimit) : truncateText(text, `\n\n${tweetUrl}`, postLimit);
+      const outcome = renderedAsImage ? 'posted as a text image' : 'truncated with a link';
+      console.log(`[${twitterUsername}] ✂️ Long tweet ${outcome}.`);
+    }
+
+    // Media that does not fit on the first post is posted as replies after the text chunks.
+    const mediaFollowUps = postMediaFollowUps
+      ? buildMediaFollowUps(images, videoBlob ? [{ video: videoBlob, ...videoDetails }, ...extraVideos] : [])
+      : [];
+    const firstPostImages = images.slice(0, MAX_IMAGES_PER_POST);
+    const contentLabels = detectContentLabels(
+      tweet.extended_entities?.media || tweet.entities?.media || [],
+      tweet.possibly_sensitive,
+      mapping?.forceContentLabel,
+    );
+    if (contentLabels.length > 0) {
+      console.log(`[${twitterUsername}] 🔞 Labeling posts as: ${contentLabels.join(', ')}`);
+    }
+    if (mediaFollowUps.length > 0) {
+      console.log(`[${twitterUsername}] 🧩 ${mediaFollowUps.length} media follow-up post(s) will follow the text.`);
+    }
+
     // 4. Threading and Posting
-    const chunks = splitText(text);
+    // An open intent means an earlier run stopped midway through this tweet; continue that thread.
+    let intent = dryRun ? null : dbService.getPostIntent(tweetId, bskyIdentifier);
+    if (intent) {
+      try {
+        intent = await reconcilePostIntent(agent, intent);
+      } catch (err) {
+        console.error(`[${twitterUsername}] ❌ Failed to reconcile partially posted thread for ${tweetId}:`, err);
+        recordFailure('reconcile thread', err, tweetText);
+        continue;
+      }
+    }
+    const resumedChunks = intent ? getPostedChunks(intent) : [];
+    const storedChunks = intent ? getIntentChunks(intent) : [];
+    // Resumed threads keep the original split so numbering and chunk boundaries stay consistent.
+    const chunks =
+      resumedChunks.length > 0 && storedChunks.length > 0
+        ? storedChunks
+        : appendAttribution(
+            splitText(
+              text,
+              mapping?.threadNumbering ?? DEFAULT_THREAD_NUMBERING,
+              POST_GRAPHEME_LIMIT,
+              reserveAttribution(attributionStyle),
+            ),
+            attributionStyle,
+          );
     console.log(`[${twitterUsername}] 📝 Splitting text into ${chunks.length} chunks.`);
+    const totalPosts = chunks.length + mediaFollowUps.length;
 
     let lastPostInfo: ProcessedTweetEntry | null = replyParentInfo;
 
+    // Single posts can be rewritten in place; anything that changes the thread shape is reposted instead.
+    const previousPostUri = editedFrom?.entry.uri;
+    const updateInPlace =
+      !!previousPostUri &&
+      editSyncMode === 'update' &&
+      chunks.length === 1 &&
+      mediaFollowUps.length === 0 &&
+      (!editedFrom?.entry.tail || editedFrom.entry.tail.uri === previousPostUri);
+
     // We will save the first chunk as the "Root" of this tweet, and the last chunk as the "Tail".
     let firstChunkInfo: { uri: string; cid: string; root?: { uri: string; cid: string } } | null = null;
     let lastChunkInfo: { uri: string; cid: string; root?: { uri: string; cid: string } } | null = null;
+    let postFailure: { stage: string; error: unknown } | null = null;
+
+    const resumedFirst = resumedChunks[0];
+    const resumedLast = resumedChunks[resumedChunks.length - 1];
+    if (intent && resumedFirst && resumedLast) {
+      const threadRoot = getIntentRoot(intent);
+      firstChunkInfo = { ...resumedFirst, root: threadRoot };
+      lastChunkInfo = { ...resumedLast, root: threadRoot };
+      lastPostInfo = lastChunkInfo;
+      console.log(
+        `[${twitterUsername}] ♻️ Resuming ${tweetId}: ${resumedChunks.length}/${totalPosts} post(s) already on Bluesky.`,
+      );
+    } else if (!dryRun && !updateInPlace) {
+      intent = beginPostIntent({
+        twitterId: tweetId,
+        twitterUsername,
+        bskyIdentifier,
+        chunks,
+        tweetJson: tweetSnapshot,
+      });
+    }
 
-    for (let i = 0; i < chunks.length; i++) {
-      let chunk = chunks[i] as string;
-
-      // Add (i/n) if split
-      if (chunks.length > 1) {
-        chunk += ` (${i + 1}/${chunks.length})`;
-      }
+    for (let i = resumedChunks.length; i < totalPosts; i++) {
+      // Chunks already carry their thread label from splitText; media follow-ups carry no text.
+      const followUpEmbed = i >= chunks.length ? mediaFollowUps[i - chunks.length] : undefined;
+      const chunk = followUpEmbed ? '' : (chunks[i] as string);
+      const postLabel = followUpEmbed
+        ? `media follow-up ${i - chunks.length + 1}/${mediaFollowUps.length}`
+        : `chunk ${i + 1}/${chunks.length}`;
 
-      console.log(`[${twitterUsername}] 📤 Posting chunk ${i + 1}/${chunks.length}...`);
-      updateAppStatus({ message: `Posting chunk ${i + 1}/${chunks.length}...` });
+      console.log(`[${twitterUsername}] 📤 Posting ${postLabel}...`);
+      updateAppStatus({ message: `Posting ${postLabel}...` });
 
       const rt = new RichText({ text: chunk });
       await rt.detectFacets(agent);
-      rt.facets = addTwitterHandleLinkFacets(rt.text, rt.facets);
+      const mentionDids = await resolveMentionDids(
+        agent,
+        getConfig(),
+        findTwitterHandleMentions(rt.text).map((mention) => mention.handle),
+      );
+      rt.facets = addTwitterHandleFacets(rt.text, rt.facets, mentionDids);
+      if (attributionStyle === 'compact' || attributionStyle === 'last-chunk') {
+        rt.facets = addAttributionFacet(rt.text, rt.facets, tweetUrl);
+      }
       const detectedLangs = detectLanguage(chunk);
 
       // Preserve original timing when available, but enforce monotonic per-account
@@ -1799,17 +2832,24 @@ async function processTweets(
         // near-simultaneous self-thread posts from colliding on identical payloads.
         createdAt: getUniqueCreatedAtIso(bskyIdentifier, chunkCreatedAtMs),
       };
+      if (contentLabels.length > 0) {
+        postRecord.labels = {
+          $type: 'com.atproto.label.defs#selfLabels',
+          values: contentLabels.map((val) => ({ val })),
+        };
+      }
+      if (attributionTags.length > 0) {
+        postRecord.tags = attributionTags;
+      }
 
       if (i === 0) {
         if (videoBlob) {
-          const videoEmbed: any = {
-            $type: 'app.bsky.embed.video',
-            video: videoBlob,
-          };
-          if (videoAspectRatio) videoEmbed.aspectRatio = videoAspectRatio;
-          postRecord.embed = videoEmbed;
-        } else if (images.length > 0) {
-          const imagesEmbed = { $type: 'app.bsky.embed.images', images };
+          const videoEmbed = buildVideoEmbed({ video: videoBlob, ...videoDetails });
+          postRecord.embed = quoteEmbed
+            ? { $type: 'app.bsky.embed.recordWithMedia', media: videoEmbed, record: quoteEmbed }
+            : videoEmbed;
+        } else if (firstPostImages.length > 0) {
+          const imagesEmbed = { $type: 'app.bsky.embed.images', images: firstPostImages };
           if (quoteEmbed) {
             postRecord.embed = { $type: 'app.bsky.embed.recordWithMedia', media: imagesEmbed, record: quoteEmbed };
           } else {
@@ -1818,8 +2858,10 @@ async function processTweets(
         } else if (quoteEmbed) {
           postRecord.embed = quoteEmbed;
         } else if (linkCard) {
-          postRecord.embed = linkCard;
+          postRecord.embed = linkCard.embed;
         }
+      } else if (followUpEmbed) {
+        postRecord.embed = followUpEmbed;
       }
 
       // Threading logic
@@ -1852,14 +2894,23 @@ async function processTweets(
         let retries = 3;
 
         if (dryRun) {
-          console.log(`[${twitterUsername}] 🧪 [DRY RUN] Would post chunk ${i + 1}/${chunks.length}`);
+          if (updateInPlace && i === 0) {
+            console.log(`[${twitterUsername}] 🧪 [DRY RUN] Would update ${previousPostUri} in place`);
+          }
+          console.log(`[${twitterUsername}] 🧪 [DRY RUN] Would post ${postLabel}`);
           if (postRecord.embed) console.log(`   - With embed: ${postRecord.embed.$type}`);
           if (postRecord.reply) console.log(`   - As reply to: ${postRecord.reply.parent.uri}`);
           response = { uri: 'at://did:plc:mock/app.bsky.feed.post/mock', cid: 'mock-cid' };
         } else {
+          if (intent) {
+            intent = markChunkPending(intent, postRecord.createdAt, rt.text);
+          }
           while (retries > 0) {
             try {
-              response = await agent.post(postRecord);
+              response =
+                updateInPlace && previousPostUri && i === 0
+                  ? await updatePostRecord(agent, previousPostUri, postRecord)
+                  : await agent.post(postRecord);
               break;
             } catch (err: any) {
               retries--;
@@ -1883,18 +2934,28 @@ async function processTweets(
         if (i === 0) firstChunkInfo = currentPostInfo;
         lastChunkInfo = currentPostInfo;
         lastPostInfo = currentPostInfo; // Update for next iteration
+        if (intent && !dryRun) {
+          intent = markChunkPosted(intent, { uri: response.uri, cid: response.cid }, currentPostInfo.root);
+        }
 
-        console.log(`[${twitterUsername}] ✅ Chunk ${i + 1} posted successfully.`);
+        console.log(`[${twitterUsername}] ✅ Posted ${postLabel}.`);
 
-        if (chunks.length > 1) {
+        if (totalPosts > 1) {
           await new Promise((r) => setTimeout(r, 3000));
         }
       } catch (err) {
-        console.error(`[${twitterUsername}] ❌ Failed to post ${tweetId} (chunk ${i + 1}):`, err);
+        console.error(`[${twitterUsername}] ❌ Failed to post ${tweetId} (${postLabel}):`, err);
+        postFailure = { stage: `post ${postLabel}`, error: err };
         break;
       }
     }
 
+    if (postFailure) {
+      // Chunks already on Bluesky stay in the post intent; the retry continues the thread from there.
+      recordFailure(postFailure.stage, postFailure.error, tweetText);
+      continue;
+    }
+
     // Save to DB and Map
     if (firstChunkInfo && lastChunkInfo) {
       const entry: ProcessedTweetEntry = {
@@ -1903,11 +2964,73 @@ async function processTweets(
         root: firstChunkInfo.root,
         tail: { uri: lastChunkInfo.uri, cid: lastChunkInfo.cid }, // Save tail!
         text: tweetText,
+        retweet: Boolean(retweetOriginal),
       };
 
       if (!dryRun) {
         saveProcessedTweet(twitterUsername, bskyIdentifier, tweetId, entry);
         localProcessedMap[tweetId] = entry; // Update local map for subsequent replies in this batch
+        dbService.deletePostIntent(tweetId, bskyIdentifier);
+        if (linkCard?.uploadedThumb && agent.session?.did) {
+          cacheLinkThumb(agent.session.did, linkCard.uploadedThumb.imageUrl, linkCard.uploadedThumb.blob);
+        }
+
+        if (mapping?.interactionGate) {
+          const isThreadRoot = !firstChunkInfo.root || firstChunkInfo.root.uri === firstChunkInfo.uri;
+          try {
+            await applyInteractionGate(agent, firstChunkInfo.uri, mapping.interactionGate, {
+              isThreadRoot,
+              isNewPost: !updateInPlace,
+            });
+          } catch (err) {
+            console.warn(`[${twitterUsername}] ⚠️ Failed to apply reply/quote settings to ${firstChunkInfo.uri}:`, err);
+          }
+        }
+
+        if (poll?.endsAt !== undefined && mapping?.pollResultsFollowUp && !isPollClosed(poll)) {
+          dbService.savePollFollowUp({
+            twitter_id: tweetId,
+            bsky_identifier: bskyIdentifier,
+            twitter_username: twitterUsername,
+            ends_at: poll.endsAt,
+            attempts: 0,
+            next_attempt_at: poll.endsAt + POLL_RESULTS_GRACE_MS,
+            created_at: Date.now(),
+          });
+          console.log(`[${twitterUsername}] 📊 Final poll results will be posted after the poll closes.`);
+        }
+
+        if (editedFrom?.entry.uri) {
+          if (!updateInPlace) {
+            try {
+              const deletedCount = await deleteMirroredThread(agent, editedFrom.entry.uri, editedFrom.entry.tail?.uri);
+              console.log(`[${twitterUsername}] 🗑️ Removed ${deletedCount} post(s) of the previous version.`);
+            } catch (err) {
+              console.warn(`[${twitterUsername}] ⚠️ Failed to delete previous version of ${tweetId}:`, err);
+            }
+          }
+
+          // Point earlier versions at the new post so replies and quotes to any version keep resolving.
+          for (const previousId of tweet.edit_history_ids || []) {
+            if (previousId === tweetId) continue;
+            if (previousId !== editedFrom.twitterId && !dbService.getTweet(previousId, bskyIdentifier)) continue;
+            saveProcessedTweet(twitterUsername, bskyIdentifier, previousId, entry);
+            localProcessedMap[previousId] = entry;
+          }
+          dbService.saveTweetRevision({
+            original_twitter_id: tweet.edit_history_ids?.[0] || editedFrom.twitterId,
+            previous_twitter_id: editedFrom.twitterId,
+            revision_twitter_id: tweetId,
+            bsky_identifier: bskyIdentifier,
+            previous_text: editedFrom.entry.text,
+            revision_text: tweetText,
+            action: updateInPlace ? 'update' : 'repost',
+            previous_bsky_uri: editedFrom.entry.uri,
+            bsky_uri: entry.uri,
+            bsky_cid: entry.cid,
+          });
+          console.log(`[${twitterUsername}] ✅ Edit propagated (${updateInPlace ? 'updated in place' : 'reposted'}).`);
+        }
       }
     }
 
@@ -1919,7 +3042,7 @@ async function processTweets(
   }
 }
 
-import { getAgent } from './bsky.js';
+import { applyInteractionGate, deleteMirroredThread, getAgent, updatePostRecord } from './bsky.js';
 
 async function importHistory(
   twitterUsername: string,
@@ -2004,7 +3127,20 @@ async function importHistory(
 
   console.log(`Fetch complete. Found ${allFoundTweets.length} new tweets to import.`);
   if (allFoundTweets.length > 0) {
-    await processTweets(agent as BskyAgent, twitterUsername, bskyIdentifier, allFoundTweets, dryRun, undefined, undefined, sessionKey);
+    try {
+      await processTweets(
+        agent as BskyAgent,
+        twitterUsername,
+        bskyIdentifier,
+        allFoundTweets,
+        dryRun,
+        undefined,
+        undefined,
+        sessionKey,
+      );
+    } finally {
+      clearRecentPostRecords(bskyIdentifier);
+    }
     console.log('History import complete.');
   }
 }
@@ -2014,6 +3150,8 @@ const activeTasks = new Map<string, Promise<void>>();
 const DEFAULT_BACKFILL_ACCOUNT_TIMEOUT_MS = 2 * 60 * 1000;
 const DEFAULT_SCHEDULED_ACCOUNT_TIMEOUT_MS = 8 * 60 * 1000;
 const PROFILE_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DELETION_SYNC_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const lastDeletionSyncAtByMapping = new Map<string, number>();
 let profileSyncStateWriteQueue: Promise<void> = Promise.resolve();
 
 const describeError = (error: unknown): string => {
@@ -2052,6 +3190,14 @@ const resolveScheduledAccountTimeoutMs = (): number => {
   return DEFAULT_SCHEDULED_ACCOUNT_TIMEOUT_MS;
 };
 
+const resolveDeletionSyncIntervalMs = (): number => {
+  const raw = Number(process.env.DELETION_SYNC_INTERVAL_MS);
+  if (Number.isFinite(raw) && raw >= 15 * 60 * 1000) {
+    return raw;
+  }
+  return DEFAULT_DELETION_SYNC_INTERVAL_MS;
+};
+
 const normalizeMappingHandle = (value: string): string => value.trim().replace(/^@/, '').toLowerCase();
 
 const parseIsoTimestampMs = (value?: string): number | null => {
@@ -2165,6 +3311,368 @@ async function maybeSyncMappingProfileInBackground(mapping: AccountMapping, dryR
   }
 }
 
+async function lookupTweetPresence(tweetId: string, sessionKey: string): Promise<TweetPresence> {
+  const client = await getTwitterScraper(sessionKey);
+  if (!client) {
+    return 'unknown';
+  }
+
+  try {
+    const tweet = await client.getTweet(tweetId);
+    return tweet ? 'present' : 'missing';
+  } catch (error) {
+    // Rate limits and auth failures must never be mistaken for a deleted tweet.
+    console.warn(`⚠️ Could not verify tweet ${tweetId}: ${describeError(error)}`);
+    return 'unknown';
+  }
+}
+
+const describeDeletionSyncReport = (report: DeletionSyncReport): string => {
+  const parts = [`checked=${report.checked}`, `missing=${report.missing.length}`, `unverified=${report.unknown}`];
+  if (!report.reportOnly) {
+    parts.push(`deleted=${report.deleted.length}`, `posts removed=${report.deletedPosts}`);
+  }
+  if (report.deferred.length > 0) {
+    parts.push(`deferred=${report.deferred.length}`);
+  }
+  if (report.errors.length > 0) {
+    parts.push(`errors=${report.errors.length}`);
+  }
+  return parts.join(', ');
+};
+
+async function runMappingDeletionSync(
+  mapping: AccountMapping,
+  agent: BskyAgent,
+  reportOnly: boolean,
+  sessionKey: string,
+  logPrefix: string,
+): Promise<DeletionSyncReport> {
+  const settings = mapping.deletionSync;
+  console.log(`${logPrefix} 🔎 Running deletion sync${reportOnly ? ' (report only)' : ''}.`);
+  const report = await runDeletionSync({
+    agent,
+    bskyIdentifier: mapping.bskyIdentifier,
+    windowSize: settings?.windowSize ?? DEFAULT_DELETION_SYNC_WINDOW,
+    maxDeletesPerPass: settings?.maxDeletesPerPass ?? DEFAULT_DELETION_SYNC_MAX_DELETES,
+    reportOnly,
+    lookupTweet: (tweetId) => lookupTweetPresence(tweetId, sessionKey),
+    logPrefix,
+  });
+  lastDeletionSyncAtByMapping.set(mapping.id, Date.now());
+  console.log(`${logPrefix} 🔎 Deletion sync finished: ${describeDeletionSyncReport(report)}.`);
+  return report;
+}
+
+async function maybeRunDeletionSync(
+  mapping: AccountMapping,
+  agent: BskyAgent,
+  dryRun: boolean,
+  sessionKey: string,
+  logPrefix: string,
+): Promise<void> {
+  if (!mapping.deletionSync?.enabled) {
+    return;
+  }
+
+  const lastRunMs = lastDeletionSyncAtByMapping.get(mapping.id);
+  if (lastRunMs && Date.now() - lastRunMs < resolveDeletionSyncIntervalMs()) {
+    return;
+  }
+
+  try {
+    await runMappingDeletionSync(mapping, agent, dryRun || mapping.deletionSync.reportOnly, sessionKey, logPrefix);
+  } catch (error) {
+    lastDeletionSyncAtByMapping.set(mapping.id, Date.now());
+    console.error(`${logPrefix} ❌ Deletion sync failed: ${describeError(error)}`);
+  }
+}
+
+async function retryFailedPosts(
+  mapping: AccountMapping,
+  agent: BskyAgent,
+  dryRun: boolean,
+  sessionKey: string,
+  logPrefix: string,
+): Promise<void> {
+  if (dryRun) {
+    return;
+  }
+
+  const dueFailures = dbService.getDuePostFailures(mapping.bskyIdentifier, Date.now(), MAX_POST_RETRIES_PER_PASS);
+  for (const failure of dueFailures) {
+    let tweet: Tweet | null = null;
+    try {
+      tweet = failure.tweet_json ? (JSON.parse(failure.tweet_json) as Tweet) : null;
+    } catch {
+      tweet = null;
+    }
+
+    if (!tweet) {
+      giveUpPostFailure(failure.twitter_id, failure.bsky_identifier);
+      console.warn(`${logPrefix} ⚠️ No stored payload for failed tweet ${failure.twitter_id}. Giving up.`);
+      continue;
+    }
+
+    console.log(
+      failure.state === 'deferred'
+        ? `${logPrefix} 🔁 Rechecking deferred tweet ${failure.twitter_id} (${failure.stage}).`
+        : `${logPrefix} 🔁 Retrying tweet ${failure.twitter_id} (attempt ${failure.attempts + 1}, last failed at ${failure.stage}).`,
+    );
+    updateAppStatus({ state: 'processing', message: `Retrying failed tweet ${failure.twitter_id}...` });
+
+    // Drop the failed marker so processTweets treats the tweet as new; a new failure writes it back.
+    dbService.deleteTweet(failure.twitter_id, failure.bsky_identifier);
+    try {
+      await processTweets(
+        agent,
+        failure.twitter_username,
+        mapping.bskyIdentifier,
+        [tweet],
+        dryRun,
+        undefined,
+        undefined,
+        sessionKey,
+      );
+    } catch (error) {
+      console.error(`${logPrefix} ❌ Retry of tweet ${failure.twitter_id} crashed: ${describeError(error)}`);
+    }
+
+    const row = dbService.getTweet(failure.twitter_id, failure.bsky_identifier);
+    if (row && row.status !== 'failed') {
+      dbService.deletePostFailure(failure.twitter_id, failure.bsky_identifier);
+      console.log(`${logPrefix} ✅ Failed tweet ${failure.twitter_id} resolved (${row.status}).`);
+    } else if (!row) {
+      saveProcessedTweet(failure.twitter_username, failure.bsky_identifier, failure.twitter_id, {
+        text: tweet.full_text || tweet.text,
+      });
+      recordPostFailure({
+        twitterId: failure.twitter_id,
+        twitterUsername: failure.twitter_username,
+        bskyIdentifier: failure.bsky_identifier,
+        stage: 'retry',
+        error: 'Tweet was not processed during retry',
+      });
+    }
+  }
+}
+
+// Results are checked a little after the end time, then every half hour until Twitter marks the counts final.
+const POLL_RESULTS_GRACE_MS = 5 * 60 * 1000;
+const POLL_RESULTS_RETRY_MS = 30 * 60 * 1000;
+const MAX_POLL_RESULTS_ATTEMPTS = 12;
+const MAX_POLL_RESULTS_PER_PASS = 5;
+
+async function postPollResults(
+  mapping: AccountMapping,
+  agent: BskyAgent,
+  dryRun: boolean,
+  logPrefix: string,
+): Promise<void> {
+  if (dryRun) {
+    return;
+  }
+
+  const dueFollowUps = dbService.getDuePollFollowUps(mapping.bskyIdentifier, Date.now(), MAX_POLL_RESULTS_PER_PASS);
+  for (const followUp of dueFollowUps) {
+    const row = dbService.getTweet(followUp.twitter_id, followUp.bsky_identifier);
+    const reply = row?.status === 'migrated' ? buildPollResultsReply(row) : null;
+    if (!reply) {
+      dbService.deletePollFollowUp(followUp.twitter_id, followUp.bsky_identifier);
+      continue;
+    }
+
+    let poll: TweetPoll | null = null;
+    try {
+      poll = await fetchTweetPoll(followUp.twitter_id);
+    } catch (error) {
+      console.warn(`${logPrefix} ⚠️ Failed to fetch poll results for tweet ${followUp.twitter_id}: ${describeError(error)}`);
+    }
+
+    // The last attempt posts whatever counts are available once the end time has passed.
+    const attempts = followUp.attempts + 1;
+    const lastAttempt = attempts >= MAX_POLL_RESULTS_ATTEMPTS;
+    if (!poll || (!poll.countsAreFinal && !lastAttempt)) {
+      if (lastAttempt) {
+        dbService.deletePollFollowUp(followUp.twitter_id, followUp.bsky_identifier);
+        console.warn(`${logPrefix} ⚠️ No results found for poll ${followUp.twitter_id}. Giving up.`);
+      } else {
+        dbService.savePollFollowUp({ ...followUp, attempts, next_attempt_at: Date.now() + POLL_RESULTS_RETRY_MS });
+      }
+      continue;
+    }
+
+    updateAppStatus({ state: 'processing', message: `Posting poll results for ${followUp.twitter_id}...` });
+    const resultsText = formatPollText(poll);
+    // biome-ignore lint/suspicious/noExplicitAny: dynamic record construction
+    const postRecord: Record<string, any> = {
+      text: resultsText,
+      createdAt: new Date().toISOString(),
+      reply,
+    };
+
+    try {
+      if ((mapping.pollStyle ?? DEFAULT_POLL_STYLE) === 'image') {
+        try {
+          const rendered = await renderPollImage(poll);
+          const blob = await uploadToBluesky(agent, rendered.buffer, 'image/jpeg');
+          const aspectRatio = { width: rendered.width, height: rendered.height };
+          postRecord.text = resultsText.split('\n')[0];
+          postRecord.embed = {
+            $type: 'app.bsky.embed.images',
+            images: [{ alt: resultsText, image: blob, aspectRatio }],
+          };
+        } catch (error) {
+          console.warn(`${logPrefix} ⚠️ Failed to render poll results image, posting text: ${describeError(error)}`);
+        }
+      }
+
+      await agent.post(postRecord);
+      dbService.deletePollFollowUp(followUp.twitter_id, followUp.bsky_identifier);
+      console.log(`${logPrefix} 📊 Posted final results for poll ${followUp.twitter_id}.`);
+    } catch (error) {
+      console.error(`${logPrefix} ❌ Failed to post results for poll ${followUp.twitter_id}: ${describeError(error)}`);
+      if (lastAttempt) {
+        dbService.deletePollFollowUp(followUp.twitter_id, followUp.bsky_identifier);
+      } else {
+        dbService.savePollFollowUp({ ...followUp, attempts, next_attempt_at: Date.now() + POLL_RESULTS_RETRY_MS });
+      }
+    }
+  }
+}
+
+const DEFAULT_REBUILD_CACHE_TWEET_LIMIT = 200;
+const MAX_REBUILD_CACHE_RECORDS = 5000;
+
+async function rebuildCacheFromBluesky(
+  mapping: AccountMapping,
+  agent: BskyAgent,
+  tweetLimit: number,
+  dryRun: boolean,
+  sessionKey: string,
+  logPrefix: string,
+): Promise<{ checked: number; adopted: number }> {
+  const recordLimit = Math.min(MAX_REBUILD_CACHE_RECORDS, Math.max(DUPLICATE_CHECK_RECORD_LIMIT, tweetLimit * 4));
+  const records = await listRecentPostRecords(agent, recordLimit);
+  console.log(`${logPrefix} 📚 Loaded ${records.length} Bluesky post(s) to match against.`);
+
+  const client = await getTwitterScraper(sessionKey);
+  if (!client) {
+    throw new Error('Twitter credentials are not configured.');
+  }
+
+  let checked = 0;
+  let adopted = 0;
+  for (const twitterUsername of mapping.twitterUsernames) {
+    updateAppStatus({ state: 'processing', message: `Rebuilding cache for @${twitterUsername}...` });
+    for await (const scraperTweet of client.getTweets(twitterUsername, tweetLimit)) {
+      const tweet = mapScraperTweetToLocalTweet(scraperTweet);
+      const tweetId = tweet.id_str || tweet.id;
+      if (!tweetId || dbService.getTweet(tweetId, mapping.bskyIdentifier)) continue;
+
+      checked++;
+      const createdAtMs = tweet.created_at ? Date.parse(tweet.created_at) : Number.NaN;
+      if (!Number.isFinite(createdAtMs)) continue;
+
+      const match = findMirroredThread(records, {
+        createdAtMs,
+        text: buildExpectedPostText(tweet, tweetId, twitterUsername, mapping),
+      });
+      if (!match) continue;
+
+      adopted++;
+      if (dryRun) {
+        console.log(`${logPrefix} 🧪 [DRY RUN] Would adopt ${match.uri} for @${twitterUsername}/status/${tweetId}`);
+        continue;
+      }
+      saveProcessedTweet(twitterUsername, mapping.bskyIdentifier, tweetId, {
+        uri: match.uri,
+        cid: match.cid,
+        root: match.root,
+        tail: match.tail,
+        text: tweet.full_text || tweet.text,
+      });
+      console.log(
+        `${logPrefix} 🔗 Adopted ${match.uri} (${match.chunkCount} post(s)) for @${twitterUsername}/status/${tweetId}`,
+      );
+    }
+  }
+
+  return { checked, adopted };
+}
+
+// Intents last touched before this process started were orphaned by a crash or restart.
+const PROCESS_STARTED_AT_MS = Date.now();
+
+async function resumePostIntents(
+  mapping: AccountMapping,
+  agent: BskyAgent,
+  dryRun: boolean,
+  sessionKey: string,
+  logPrefix: string,
+): Promise<void> {
+  if (dryRun) {
+    return;
+  }
+
+  for (const intent of dbService.getPostIntents(mapping.bskyIdentifier)) {
+    const failure = dbService.getPostFailure(intent.twitter_id, intent.bsky_identifier);
+    const row = dbService.getTweet(intent.twitter_id, intent.bsky_identifier);
+
+    if (row?.status === 'migrated') {
+      dbService.deletePostIntent(intent.twitter_id, intent.bsky_identifier);
+      continue;
+    }
+
+    let tweet: Tweet | null = null;
+    try {
+      tweet = intent.tweet_json ? (JSON.parse(intent.tweet_json) as Tweet) : null;
+    } catch {
+      tweet = null;
+    }
+
+    // A thread that will never be finished is removed rather than left half-posted.
+    if (failure?.state === 'gave_up' || row?.status === 'skipped' || row?.status === 'deleted' || !tweet) {
+      try {
+        const deletedCount = await rollBackPostIntent(agent, intent);
+        console.log(
+          `${logPrefix} 🧹 Removed ${deletedCount} post(s) of the unfinished thread for tweet ${intent.twitter_id}.`,
+        );
+      } catch (error) {
+        console.warn(
+          `${logPrefix} ⚠️ Failed to remove unfinished thread for tweet ${intent.twitter_id}: ${describeError(error)}`,
+        );
+      }
+      continue;
+    }
+
+    // Pending failures resume through the retry queue; newer intents may belong to a post still in flight.
+    if (failure || intent.updated_at >= PROCESS_STARTED_AT_MS) {
+      continue;
+    }
+
+    console.log(`${logPrefix} ♻️ Resuming interrupted thread for tweet ${intent.twitter_id}.`);
+    updateAppStatus({ state: 'processing', message: `Resuming interrupted thread ${intent.twitter_id}...` });
+    if (row) {
+      dbService.deleteTweet(intent.twitter_id, intent.bsky_identifier);
+    }
+    try {
+      await processTweets(
+        agent,
+        intent.twitter_username,
+        mapping.bskyIdentifier,
+        [tweet],
+        dryRun,
+        undefined,
+        undefined,
+        sessionKey,
+      );
+    } catch (error) {
+      console.error(`${logPrefix} ❌ Resuming tweet ${intent.twitter_id} crashed: ${describeError(error)}`);
+    }
+  }
+}
+
 async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, timeoutMessage: string): Promise<T> {
   let timeoutHandle: NodeJS.Timeout | undefined;
   const timeoutPromise = new Promise<never>((_, reject) => {
@@ -2209,7 +3717,7 @@ async function runAccountTask(
       if (mapping.twitterUsernames.length === 0) {
         console.warn(`${logPrefix} ⚠️ No Twitter usernames configured. Skipping mapping.`);
         if (backfillReq) {
-          clearBackfill(mapping.id, backfillReq.requestId);
+          clearBackfill(mapping.id, backfillReq.requestId, { state: 'failed', error: 'No source accounts configured' });
           updateAppStatus({
             state: 'idle',
             currentAccount: undefined,
@@ -2227,7 +3735,7 @@ async function runAccountTask(
       if (!agent) {
         console.warn(`${logPrefix} ⚠️ Unable to authenticate Bluesky account. Skipping task.`);
         if (backfillReq) {
-          clearBackfill(mapping.id, backfillReq.requestId);
+          clearBackfill(mapping.id, backfillReq.requestId, { state: 'failed', error: 'Bluesky login failed' });
           updateAppStatus({
             state: 'idle',
             currentAccount: undefined,
@@ -2260,6 +3768,8 @@ async function runAccountTask(
           backfillMappingId: mapping.id,
           backfillRequestId: backfillReq.requestId,
         });
+        startBackfill(backfillReq.requestId, accountCount);
+        let lastBackfillError: string | undefined;
 
         for (let i = 0; i < mapping.twitterUsernames.length; i += 1) {
           const twitterUsername = mapping.twitterUsernames[i];
@@ -2301,12 +3811,18 @@ async function runAccountTask(
             });
           } catch (err) {
             sourceErrors += 1;
+            lastBackfillError = `@${twitterUsername}: ${describeError(err)}`;
             console.error(
               `${logPrefix} ❌ Error backfilling @${twitterUsername}: ${describeError(err)}`,
             );
           }
+          updateBackfillProgress(backfillReq.requestId, i + 1, accountCount);
         }
-        clearBackfill(mapping.id, backfillReq.requestId);
+        // A job only fails outright when no source account could be backfilled.
+        clearBackfill(mapping.id, backfillReq.requestId, {
+          state: checkedSources > 0 && sourceErrors >= checkedSources ? 'failed' : 'done',
+          error: lastBackfillError,
+        });
         updateAppStatus({
           state: 'idle',
           processedCount: accountCount,
@@ -2361,13 +3877,45 @@ async function runAccountTask(
           }
         }
 
+        await withTimeout(
+          resumePostIntents(mapping, agent, dryRun, sessionKey, logPrefix),
+          scheduledAccountTimeoutMs,
+          `${logPrefix} Resuming interrupted threads timed out after ${Math.round(scheduledAccountTimeoutMs / 1000)}s`,
+        ).catch((error) => {
+          console.error(`${logPrefix} ❌ ${describeError(error)}`);
+        });
+
+        await withTimeout(
+          retryFailedPosts(mapping, agent, dryRun, sessionKey, logPrefix),
+          scheduledAccountTimeoutMs,
+          `${logPrefix} Failed-post retries timed out after ${Math.round(scheduledAccountTimeoutMs / 1000)}s`,
+        ).catch((error) => {
+          console.error(`${logPrefix} ❌ ${describeError(error)}`);
+        });
+
+        await withTimeout(
+          postPollResults(mapping, agent, dryRun, logPrefix),
+          scheduledAccountTimeoutMs,
+          `${logPrefix} Poll results timed out after ${Math.round(scheduledAccountTimeoutMs / 1000)}s`,
+        ).catch((error) => {
+          console.error(`${logPrefix} ❌ ${describeError(error)}`);
+        });
+
         await maybeSyncMappingProfileInBackground(mapping, dryRun, logPrefix);
+        await withTimeout(
+          maybeRunDeletionSync(mapping, agent, dryRun, sessionKey, logPrefix),
+          scheduledAccountTimeoutMs,
+          `${logPrefix} Deletion sync timed out after ${Math.round(scheduledAccountTimeoutMs / 1000)}s`,
+        ).catch((error) => {
+          console.error(`${logPrefix} ❌ ${describeError(error)}`);
+        });
       }
     } catch (err) {
       sourceErrors += 1;
       console.error(`${logPrefix} ❌ Mapping task failed: ${describeError(err)}`);
     } finally {
       activeTasks.delete(mapping.id);
+      clearRecentPostRecords(mapping.bskyIdentifier);
       console.log(
         `${logPrefix} ✅ Task finished. Sources checked=${checkedSources}, source errors=${sourceErrors}.`,
       );
@@ -2378,14 +3926,17 @@ async function runAccountTask(
   return task; // Return task promise for await in main loop
 }
 
-import type { AccountMapping } from './config-manager.js';
+import type { AccountMapping, AttributionStyle } from './config-manager.js';
 import {
   clearBackfill,
   getNextCheckTime,
   getPendingBackfills,
   getSchedulerWakeSignal,
+  restoreBackfillQueue,
+  startBackfill,
   startServer,
   updateAppStatus,
+  updateBackfillProgress,
   updateLastCheckTime,
 } from './server.js';
 import type { PendingBackfill } from './server.js';
@@ -2404,6 +3955,8 @@ async function main(): Promise<void> {
     .option('--import-history', 'Run in history import mode')
     .option('--username <username>', 'Twitter username for history import')
     .option('--limit <number>', 'Limit the number of tweets to import', (val) => Number.parseInt(val, 10))
+    .option('--deletion-sync <mapping>', 'Check recent tweets of a mapping for deletions and remove their mirrors')
+    .option('--rebuild-cache <mapping>', 'Rebuild the tweet cache of a mapping from its existing Bluesky posts')
     .parse(process.argv);
 
   const options = program.opts();
@@ -2490,6 +4043,61 @@ async function main(): Promise<void> {
     await Promise.all(tasks);
   };
 
+  if (options.deletionSync) {
+    const mapping = findMappingByRef(config.mappings, options.deletionSync);
+    if (!mapping) {
+      console.error(`No mapping found for '${options.deletionSync}'.`);
+      process.exit(1);
+    }
+
+    const agent = await getAgent(mapping);
+    if (!agent) {
+      console.error(`Unable to authenticate Bluesky account ${mapping.bskyIdentifier}.`);
+      process.exit(1);
+    }
+
+    const reportOnly = Boolean(options.dryRun || mapping.deletionSync?.reportOnly);
+    const logPrefix = getMappingLogPrefix(mapping);
+    const report = await runMappingDeletionSync(mapping, agent, reportOnly, 'subbranch-1', logPrefix);
+    for (const candidate of report.missing) {
+      console.log(`  - @${candidate.twitterUsername}/status/${candidate.twitterId} -> ${candidate.bskyUri}`);
+    }
+    process.exit(report.errors.length > 0 ? 1 : 0);
+  }
+
+  if (options.rebuildCache) {
+    const mapping = findMappingByRef(config.mappings, options.rebuildCache);
+    if (!mapping) {
+      console.error(`No mapping found for '${options.rebuildCache}'.`);
+      process.exit(1);
+    }
+
+    const agent = await getAgent(mapping);
+    if (!agent) {
+      console.error(`Unable to authenticate Bluesky account ${mapping.bskyIdentifier}.`);
+      process.exit(1);
+    }
+
+    const logPrefix = getMappingLogPrefix(mapping);
+    try {
+      const { checked, adopted } = await rebuildCacheFromBluesky(
+        mapping,
+        agent,
+        options.limit || DEFAULT_REBUILD_CACHE_TWEET_LIMIT,
+        Boolean(options.dryRun),
+        'subbranch-1',
+        logPrefix,
+      );
+      console.log(
+        `${logPrefix} 📚 Cache rebuild finished: ${adopted} of ${checked} uncached tweet(s) matched existing Bluesky posts${options.dryRun ? ' (dry run)' : ''}.`,
+      );
+      process.exit(0);
+    } catch (error) {
+      console.error(`${logPrefix} ❌ Cache rebuild failed: ${describeError(error)}`);
+      process.exit(1);
+    }
+  }
+
   const runSingleCycle = async (cycleConfig: ReturnType<typeof getConfig>) => {
 
     if (options.backfillMapping) {
@@ -2529,6 +4137,10 @@ async function main(): Promise<void> {
   }
 
   console.log(`Scheduler started. Base interval: ${config.checkIntervalMinutes} minutes.`);
+  const restoredBackfills = restoreBackfillQueue();
+  if (restoredBackfills > 0) {
+    console.log(`[Scheduler] ♻️ Re-queued ${restoredBackfills} backfill job(s) interrupted by the last shutdown.`);
+  }
   updateLastCheckTime(); // Initialize next time
 
   let deferredScheduledRun = false;
@@ -2604,7 +4216,10 @@ async function main(): Promise<void> {
           );
           await runAccountTask(mapping, backfill, options.dryRun, `subbranch-${branchIndex + 1}`);
         } else {
-          clearBackfill(backfill.id, backfill.requestId);
+          clearBackfill(backfill.id, backfill.requestId, {
+            state: 'failed',
+            error: mapping ? 'Mapping is disabled' : 'Mapping no longer exists',
+          });
         }
       });
       await Promise.all(backfillTasks);
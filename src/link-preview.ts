@@ -0,0 +1,251 @@
+import { BlobRef, jsonStringToLex, stringifyLex } from '@atproto/api';
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import { dbService } from './db.js';
+
+export interface LinkPreview {
+  // Canonical address of the page; the card links here instead of the tracking or short URL that was shared.
+  url: string;
+  title: string;
+  description: string;
+  imageUrl?: string;
+}
+
+// What Twitter already resolved for the link in tweet.card; used where the page gives nothing better.
+export interface LinkPreviewFallback {
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+}
+
+interface PageMetadata {
+  canonicalUrl?: string;
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+  oembedUrl?: string;
+}
+
+interface OEmbedResponse {
+  title?: string;
+  author_name?: string;
+  provider_name?: string;
+  thumbnail_url?: string;
+}
+
+const PREVIEW_TTL_MS = 12 * 60 * 60 * 1000;
+const MISSING_PREVIEW_TTL_MS = 30 * 60 * 1000;
+const THUMB_TTL_MS = 12 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+
+const PAGE_HEADERS = {
+  'User-Agent':
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9',
+};
+
+// Sites that serve consent walls or script-only pages to scrapers but answer oEmbed reliably.
+const OEMBED_PROVIDERS: Array<{ pattern: RegExp; endpoint: string }> = [
+  {
+    pattern: /^https?:\/\/(?:(?:www|m|music)\.youtube\.com\/(?:watch|shorts\/|live\/)|youtu\.be\/)/i,
+    endpoint: 'https://www.youtube.com/oembed',
+  },
+  { pattern: /^https?:\/\/(?:www\.)?vimeo\.com\/\d+/i, endpoint: 'https://vimeo.com/api/oembed.json' },
+  { pattern: /^https?:\/\/open\.spotify\.com\//i, endpoint: 'https://open.spotify.com/oembed' },
+  { pattern: /^https?:\/\/(?:www\.|m\.)?soundcloud\.com\//i, endpoint: 'https://soundcloud.com/oembed' },
+];
+
+let lastPrunedAt = 0;
+
+const toAbsoluteUrl = (value: string | undefined, baseUrl: string): string | undefined => {
+  if (!value?.trim()) return undefined;
+  try {
+    const resolved = new URL(value.trim(), baseUrl);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const cleanText = (value: string | undefined): string | undefined => {
+  const text = value?.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+};
+
+// Open Graph first, then Twitter card tags, then plain HTML.
+const parsePageMetadata = (html: string, pageUrl: string): PageMetadata => {
+  const $ = cheerio.load(html);
+  const meta = (...keys: string[]): string | undefined => {
+    for (const key of keys) {
+      const content = cleanText($(`meta[property="${key}"], meta[name="${key}"]`).first().attr('content'));
+      if (content) return content;
+    }
+    return undefined;
+  };
+
+  return {
+    canonicalUrl: toAbsoluteUrl($('link[rel="canonical"]').attr('href') || meta('og:url'), pageUrl),
+    title: meta('og:title', 'twitter:title') || cleanText($('title').first().text()),
+    description: meta('og:description', 'twitter:description', 'description'),
+    imageUrl: toAbsoluteUrl(
+      meta('og:image:secure_url', 'og:image', 'og:image:url', 'twitter:image', 'twitter:image:src'),
+      pageUrl,
+    ),
+    oembedUrl: toAbsoluteUrl($('link[type="application/json+oembed"]').attr('href'), pageUrl),
+  };
+};
+
+const fetchPage = async (url: string): Promise<{ finalUrl: string; metadata: PageMetadata }> => {
+  const response = await axios.get<string>(url, {
+    headers: PAGE_HEADERS,
+    responseType: 'text',
+    timeout: FETCH_TIMEOUT_MS,
+    maxRedirects: 5,
+    maxContentLength: MAX_PAGE_BYTES,
+  });
+  const finalUrl: string = response.request?.res?.responseUrl || url;
+  return { finalUrl, metadata: parsePageMetadata(String(response.data), finalUrl) };
+};
+
+const fetchOEmbed = async (endpointUrl: string, params?: Record<string, string>): Promise<PageMetadata | null> => {
+  const response = await axios.get<OEmbedResponse>(endpointUrl, {
+    params,
+    headers: { 'User-Agent': PAGE_HEADERS['User-Agent'] },
+    timeout: FETCH_TIMEOUT_MS,
+  });
+  const data = response.data;
+  const title = cleanText(data?.title);
+  if (!title) return null;
+  const byline = [cleanText(data.author_name), cleanText(data.provider_name)].filter(Boolean).join(' · ');
+  return { title, description: byline || undefined, imageUrl: toAbsoluteUrl(data.thumbnail_url, endpointUrl) };
+};
+
+const mergeMetadata = (primary: PageMetadata, secondary: PageMetadata | null): PageMetadata => ({
+  canonicalUrl: primary.canonicalUrl || secondary?.canonicalUrl,
+  title: primary.title || secondary?.title,
+  description: primary.description || secondary?.description,
+  imageUrl: primary.imageUrl || secondary?.imageUrl,
+});
+
+// Some sites point every page's canonical link at their homepage; a card for an article should not do that.
+const isPlausibleCanonical = (canonicalUrl: string | undefined, pageUrl: string): canonicalUrl is string => {
+  if (!canonicalUrl) return false;
+  return new URL(canonicalUrl).pathname !== '/' || new URL(pageUrl).pathname === '/';
+};
+
+const resolveMetadata = async (url: string): Promise<PageMetadata> => {
+  const provider = OEMBED_PROVIDERS.find((candidate) => candidate.pattern.test(url));
+  if (provider) {
+    try {
+      const oembed = await fetchOEmbed(provider.endpoint, { url, format: 'json' });
+      if (oembed) return { ...oembed, canonicalUrl: url };
+    } catch (err) {
+      console.warn(`[LINK] ⚠️ oEmbed lookup failed for ${url}, reading the page instead:`, (err as Error).message);
+    }
+  }
+
+  const page = await fetchPage(url);
+  const canonicalUrl = isPlausibleCanonical(page.metadata.canonicalUrl, page.finalUrl)
+    ? page.metadata.canonicalUrl
+    : page.finalUrl;
+  let metadata: PageMetadata = { ...page.metadata, canonicalUrl };
+
+  // AMP copies and consent interstitials often carry only a canonical link; the real page has the tags.
+  if (!metadata.title && canonicalUrl !== page.finalUrl) {
+    try {
+      const canonical = await fetchPage(canonicalUrl);
+      metadata = { ...mergeMetadata(canonical.metadata, metadata), canonicalUrl };
+    } catch {
+      // Keep what the first page had.
+    }
+  }
+
+  if ((!metadata.title || !metadata.imageUrl) && page.metadata.oembedUrl) {
+    try {
+      metadata = mergeMetadata(metadata, await fetchOEmbed(page.metadata.oembedUrl));
+    } catch {
+      // The page metadata alone is still usable.
+    }
+  }
+
+  return metadata;
+};
+
+const pruneExpired = (now: number) => {
+  if (now - lastPrunedAt < PRUNE_INTERVAL_MS) return;
+  lastPrunedAt = now;
+  dbService.pruneLinkPreviews(now - PREVIEW_TTL_MS, now - THUMB_TTL_MS);
+};
+
+const readCachedMetadata = (url: string, now: number): PageMetadata | null => {
+  const cached = dbService.getLinkPreview(url);
+  if (!cached) return null;
+  const hasPreview = Boolean(cached.title || cached.description);
+  const ttl = hasPreview ? PREVIEW_TTL_MS : MISSING_PREVIEW_TTL_MS;
+  if (now - cached.fetched_at > ttl) return null;
+  return {
+    canonicalUrl: cached.canonical_url || undefined,
+    title: cached.title || undefined,
+    description: cached.description || undefined,
+    imageUrl: cached.image_url || undefined,
+  };
+};
+
+// Previews are shared by every mapping that posts the same link, so an article is fetched once per TTL.
+// Pages without usable metadata are remembered for a shorter time so a temporary failure does not stick.
+export const fetchLinkPreview = async (url: string, fallback?: LinkPreviewFallback): Promise<LinkPreview | null> => {
+  const now = Date.now();
+  pruneExpired(now);
+
+  let metadata = readCachedMetadata(url, now);
+  if (!metadata) {
+    try {
+      metadata = await resolveMetadata(url);
+    } catch (err) {
+      // Redirect loops are common on paywalled sites and not worth a warning.
+      if ((err as { code?: string })?.code !== 'ERR_FR_TOO_MANY_REDIRECTS') {
+        console.warn(`[LINK] ⚠️ Failed to fetch link preview for ${url}:`, (err as Error)?.message || err);
+      }
+      metadata = {};
+    }
+    dbService.saveLinkPreview({
+      url,
+      canonical_url: metadata.canonicalUrl,
+      title: metadata.title,
+      description: metadata.description,
+      image_url: metadata.imageUrl,
+      fetched_at: now,
+    });
+  }
+
+  const title = metadata.title || cleanText(fallback?.title);
+  const description = metadata.description || cleanText(fallback?.description) || '';
+  if (!title && !description) return null;
+
+  return {
+    url: metadata.canonicalUrl || url,
+    title: title || url,
+    description,
+    imageUrl: metadata.imageUrl || fallback?.imageUrl,
+  };
+};
+
+// Blobs belong to the repo that uploaded them, so thumbnails are cached per account DID rather than per host.
+export const getCachedLinkThumb = (repoDid: string, imageUrl: string): BlobRef | undefined => {
+  const json = dbService.getLinkPreviewThumb(imageUrl, repoDid, Date.now() - THUMB_TTL_MS);
+  if (!json) return undefined;
+  try {
+    const blob = jsonStringToLex(json);
+    return blob instanceof BlobRef ? blob : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Only call this once a post referencing the blob exists; the PDS drops unreferenced uploads.
+export const cacheLinkThumb = (repoDid: string, imageUrl: string, blob: BlobRef) => {
+  dbService.saveLinkPreviewThumb(imageUrl, repoDid, stringifyLex(blob), Date.now());
+};
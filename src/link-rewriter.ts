@@ -0,0 +1,32 @@
+import { dbService } from './db.js';
+
+export function buildPostUrl(identifier: string, uri?: string): string | undefined {
+  if (!uri) return undefined;
+  const rkey = uri.split('/').filter(Boolean).pop();
+  if (!rkey) return undefined;
+  return `https://bsky.app/profile/${identifier}/post/${rkey}`;
+}
+
+const TWITTER_URL_PATTERN = /https?:\/\/(?:www\.|mobile\.)?(?:twitter|x)\.com(\/[^\s]*)?/gi;
+const STATUS_PATH_PATTERN = /^\/(?:[A-Za-z0-9_]{1,15}|i(?:\/web)?)\/status(?:es)?\/(\d+)/i;
+const TRAILING_PUNCTUATION_PATTERN = /[.,!?;:)\]]+$/;
+
+// Login emails are valid mapping identifiers but not profile handles; the DID in the post URI always is.
+const findMirroredPostUrl = (twitterId: string): string | undefined => {
+  const mirrored = dbService.getMirroredPostByTwitterId(twitterId);
+  if (!mirrored?.bsky_uri) return undefined;
+  const profile = mirrored.bsky_identifier.includes('@') ? mirrored.bsky_uri.split('/')[2] : mirrored.bsky_identifier;
+  return profile ? buildPostUrl(profile, mirrored.bsky_uri) : undefined;
+};
+
+// Links to tweets we mirrored point at the Bluesky copy; other Twitter links optionally move to a front-end domain.
+export const rewriteTwitterLinks = (text: string, frontendDomain?: string): string =>
+  text.replace(TWITTER_URL_PATTERN, (url: string, urlPath = '') => {
+    const trailing = urlPath.match(TRAILING_PUNCTUATION_PATTERN)?.[0] ?? '';
+    const statusId = urlPath.match(STATUS_PATH_PATTERN)?.[1];
+    const postUrl = statusId ? findMirroredPostUrl(statusId) : undefined;
+    if (postUrl) {
+      return `${postUrl}${trailing}`;
+    }
+    return frontendDomain ? `https://${frontendDomain}${urlPath}` : url;
+  });
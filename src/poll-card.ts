@@ -0,0 +1,131 @@
+import sharp from 'sharp';
+import type { ProcessedTweet } from './db.js';
+import { escapeXml } from './text-image.js';
+import type { RenderedTextImage } from './text-image.js';
+
+export interface PollChoice {
+  label: string;
+  votes: number;
+}
+
+export interface TweetPoll {
+  choices: PollChoice[];
+  endsAt?: number;
+  countsAreFinal: boolean;
+  totalVotes: number;
+}
+
+export interface PollReplyRef {
+  uri: string;
+  cid: string;
+}
+
+export interface PollBindingValue {
+  string_value?: string;
+  boolean_value?: boolean;
+}
+
+// Card names look like poll2choice_text_only, poll4choice_image or poll3choice_video.
+const POLL_CARD_NAME = /^poll(\d+)choice/i;
+const BAR_SEGMENTS = 8;
+
+const IMAGE_WIDTH = 1080;
+const PADDING = 72;
+const HEADER_FONT_SIZE = 32;
+const CHOICE_FONT_SIZE = 36;
+const ROW_HEIGHT = 92;
+const BAR_HEIGHT = 68;
+const FONT_FAMILY = "Inter, 'Noto Sans', 'Noto Sans CJK JP', 'Helvetica Neue', Arial, sans-serif";
+
+const voteFormat = new Intl.NumberFormat('en-US');
+const endFormat = new Intl.DateTimeFormat('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' });
+
+export const parsePollCard = (
+  cardName: string | undefined,
+  bindings: Record<string, PollBindingValue>,
+): TweetPoll | null => {
+  const choiceCount = Number(cardName?.match(POLL_CARD_NAME)?.[1]);
+  if (!choiceCount) return null;
+
+  const choices: PollChoice[] = [];
+  for (let index = 1; index <= choiceCount; index++) {
+    const label = bindings[`choice${index}_label`]?.string_value?.trim();
+    if (!label) continue;
+    const votes = Number(bindings[`choice${index}_count`]?.string_value);
+    choices.push({ label, votes: Number.isFinite(votes) ? votes : 0 });
+  }
+  if (choices.length < 2) return null;
+
+  const endsAt = Date.parse(bindings.end_datetime_utc?.string_value ?? '');
+  return {
+    choices,
+    ...(Number.isFinite(endsAt) ? { endsAt } : {}),
+    countsAreFinal: bindings.counts_are_final?.boolean_value === true,
+    totalVotes: choices.reduce((total, choice) => total + choice.votes, 0),
+  };
+};
+
+// Twitter only flips counts_are_final some time after the end date, so a past end date counts as closed too.
+export const isPollClosed = (poll: TweetPoll, now = Date.now()): boolean =>
+  poll.countsAreFinal || (poll.endsAt !== undefined && poll.endsAt <= now);
+
+// Results continue the mirrored thread from its last post (text chunks and media follow-ups included).
+export const buildPollResultsReply = (row: ProcessedTweet): { root: PollReplyRef; parent: PollReplyRef } | null => {
+  if (!row.bsky_uri || !row.bsky_cid) return null;
+  const first = { uri: row.bsky_uri, cid: row.bsky_cid };
+  const parent = row.bsky_tail_uri && row.bsky_tail_cid ? { uri: row.bsky_tail_uri, cid: row.bsky_tail_cid } : first;
+  const root = row.bsky_root_uri && row.bsky_root_cid ? { uri: row.bsky_root_uri, cid: row.bsky_root_cid } : first;
+  return { root, parent };
+};
+
+const choicePercent = (poll: TweetPoll, choice: PollChoice): number =>
+  poll.totalVotes > 0 ? Math.round((choice.votes / poll.totalVotes) * 100) : 0;
+
+const describePollStatus = (poll: TweetPoll, now: number): string => {
+  const votes = `${voteFormat.format(poll.totalVotes)} vote${poll.totalVotes === 1 ? '' : 's'}`;
+  if (isPollClosed(poll, now)) {
+    return `Final results · ${votes}`;
+  }
+  const ends = poll.endsAt !== undefined ? ` · ends ${endFormat.format(poll.endsAt)} UTC` : '';
+  return `Poll · ${votes} so far${ends}`;
+};
+
+export const formatPollText = (poll: TweetPoll, now = Date.now()): string => {
+  const lines = poll.choices.map((choice) => {
+    const percent = choicePercent(poll, choice);
+    const filled = Math.round((percent / 100) * BAR_SEGMENTS);
+    return `${'▓'.repeat(filled)}${'░'.repeat(BAR_SEGMENTS - filled)} ${percent}% ${choice.label}`;
+  });
+  return [`📊 ${describePollStatus(poll, now)}`, ...lines].join('\n');
+};
+
+export const renderPollImage = async (poll: TweetPoll, now = Date.now()): Promise<RenderedTextImage> => {
+  const barWidth = IMAGE_WIDTH - PADDING * 2;
+  const leadingVotes = Math.max(...poll.choices.map((choice) => choice.votes));
+  const top = PADDING + HEADER_FONT_SIZE + 32;
+  const height = top + poll.choices.length * ROW_HEIGHT + PADDING - (ROW_HEIGHT - BAR_HEIGHT);
+
+  const rows = poll.choices
+    .map((choice, index) => {
+      const percent = choicePercent(poll, choice);
+      const y = top + index * ROW_HEIGHT;
+      const textY = y + BAR_HEIGHT / 2 + CHOICE_FONT_SIZE * 0.35;
+      const fill = choice.votes > 0 && choice.votes === leadingVotes ? '#8ecdf8' : '#cfd9de';
+      const fillWidth = Math.round((barWidth * percent) / 100);
+      return `<rect x="${PADDING}" y="${y}" width="${barWidth}" height="${BAR_HEIGHT}" rx="12" fill="#f7f9f9"/>
+<rect x="${PADDING}" y="${y}" width="${fillWidth}" height="${BAR_HEIGHT}" rx="12" fill="${fill}"/>
+<text x="${PADDING + 24}" y="${textY}" font-size="${CHOICE_FONT_SIZE}" fill="#0f1419">${escapeXml(choice.label)}</text>
+<text x="${IMAGE_WIDTH - PADDING - 24}" y="${textY}" font-size="${CHOICE_FONT_SIZE}" font-weight="bold" fill="#0f1419" text-anchor="end">${percent}%</text>`;
+    })
+    .join('\n');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${IMAGE_WIDTH}" height="${height}">
+<rect width="100%" height="100%" fill="#ffffff"/>
+<g font-family="${escapeXml(FONT_FAMILY)}">
+<text x="${PADDING}" y="${PADDING + HEADER_FONT_SIZE}" font-size="${HEADER_FONT_SIZE}" fill="#536471">${escapeXml(describePollStatus(poll, now))}</text>
+${rows}
+</g>
+</svg>`;
+
+  const buffer = await sharp(Buffer.from(svg)).jpeg({ quality: 90, mozjpeg: true }).toBuffer();
+  return { buffer, width: IMAGE_WIDTH, height };
+};
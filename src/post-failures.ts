@@ -0,0 +1,111 @@
+import { dbService } from './db.js';
+import type { PostFailure } from './db.js';
+
+export const MAX_POST_FAILURE_ATTEMPTS = 8;
+export const MAX_POST_RETRIES_PER_PASS = 5;
+const RETRY_BASE_DELAY_MS = 2 * 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+const DEFERRED_RECHECK_DELAY_MS = 5 * 60 * 1000;
+
+export const getPostRetryDelayMs = (attempts: number): number =>
+  Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+
+// Given-up tweets are stored as skipped so regular fetches keep ignoring them.
+const markProcessedTweetGivenUp = (failure: PostFailure) => {
+  const row = dbService.getTweet(failure.twitter_id, failure.bsky_identifier);
+  if (!row || row.status === 'migrated' || row.status === 'reposted') {
+    return;
+  }
+  dbService.saveTweet({
+    ...row,
+    status: 'skipped',
+    skip_reason: `gave up after ${failure.attempts} attempt(s) at ${failure.stage}`,
+  });
+};
+
+export const recordPostFailure = (args: {
+  twitterId: string;
+  twitterUsername: string;
+  bskyIdentifier: string;
+  stage: string;
+  error: string;
+  tweetJson?: string;
+}): PostFailure => {
+  const now = Date.now();
+  const existing = dbService.getPostFailure(args.twitterId, args.bskyIdentifier);
+  const attempts = (existing?.attempts ?? 0) + 1;
+  const exhausted = attempts >= MAX_POST_FAILURE_ATTEMPTS;
+
+  const failure: PostFailure = {
+    twitter_id: args.twitterId,
+    bsky_identifier: args.bskyIdentifier,
+    twitter_username: args.twitterUsername,
+    stage: args.stage,
+    error: args.error,
+    attempts,
+    state: exhausted ? 'gave_up' : 'pending',
+    tweet_json: args.tweetJson ?? existing?.tweet_json,
+    first_failed_at: existing?.first_failed_at ?? now,
+    last_failed_at: now,
+    next_attempt_at: exhausted ? undefined : now + getPostRetryDelayMs(attempts),
+  };
+
+  dbService.savePostFailure(failure);
+  if (exhausted) {
+    markProcessedTweetGivenUp(failure);
+  }
+  return failure;
+};
+
+// A tweet waiting on another one is rechecked on a fixed delay; waiting uses up no attempts and never gives up.
+export const recordPostDeferral = (args: {
+  twitterId: string;
+  twitterUsername: string;
+  bskyIdentifier: string;
+  stage: string;
+  reason: string;
+  tweetJson?: string;
+}): PostFailure => {
+  const now = Date.now();
+  const existing = dbService.getPostFailure(args.twitterId, args.bskyIdentifier);
+
+  const failure: PostFailure = {
+    twitter_id: args.twitterId,
+    bsky_identifier: args.bskyIdentifier,
+    twitter_username: args.twitterUsername,
+    stage: args.stage,
+    error: args.reason,
+    attempts: existing?.attempts ?? 0,
+    state: 'deferred',
+    tweet_json: args.tweetJson ?? existing?.tweet_json,
+    first_failed_at: existing?.first_failed_at ?? now,
+    last_failed_at: now,
+    next_attempt_at: now + DEFERRED_RECHECK_DELAY_MS,
+  };
+
+  dbService.savePostFailure(failure);
+  return failure;
+};
+
+export const retryPostFailureNow = (twitterId: string, bskyIdentifier: string): PostFailure | null => {
+  const existing = dbService.getPostFailure(twitterId, bskyIdentifier);
+  if (!existing) {
+    return null;
+  }
+
+  const failure: PostFailure = { ...existing, state: 'pending', next_attempt_at: Date.now() };
+  dbService.savePostFailure(failure);
+  return failure;
+};
+
+export const giveUpPostFailure = (twitterId: string, bskyIdentifier: string): PostFailure | null => {
+  const existing = dbService.getPostFailure(twitterId, bskyIdentifier);
+  if (!existing) {
+    return null;
+  }
+
+  const failure: PostFailure = { ...existing, state: 'gave_up', next_attempt_at: undefined };
+  dbService.savePostFailure(failure);
+  markProcessedTweetGivenUp(failure);
+  return failure;
+};
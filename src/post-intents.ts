@@ -0,0 +1,125 @@
+import type { BskyAgent } from '@atproto/api';
+import { deleteMirroredThread } from './bsky.js';
+import { dbService } from './db.js';
+import type { PostIntent } from './db.js';
+
+export interface PostedChunk {
+  uri: string;
+  cid: string;
+}
+
+// How far back in the account's own records to look for a chunk that landed right before a crash.
+const RECONCILE_RECORD_SCAN_LIMIT = 50;
+
+const parseJsonArray = <T>(value: string | undefined): T[] => {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const getIntentChunks = (intent: PostIntent): string[] => parseJsonArray<string>(intent.chunks_json);
+
+export const getPostedChunks = (intent: PostIntent): PostedChunk[] => parseJsonArray<PostedChunk>(intent.posted_json);
+
+export const getIntentRoot = (intent: PostIntent): PostedChunk | undefined =>
+  intent.root_uri && intent.root_cid ? { uri: intent.root_uri, cid: intent.root_cid } : undefined;
+
+export const beginPostIntent = (args: {
+  twitterId: string;
+  twitterUsername: string;
+  bskyIdentifier: string;
+  chunks: string[];
+  tweetJson?: string;
+}): PostIntent => {
+  const now = Date.now();
+  const intent: PostIntent = {
+    twitter_id: args.twitterId,
+    bsky_identifier: args.bskyIdentifier,
+    twitter_username: args.twitterUsername,
+    chunks_json: JSON.stringify(args.chunks),
+    posted_json: '[]',
+    tweet_json: args.tweetJson,
+    created_at: now,
+    updated_at: now,
+  };
+  dbService.savePostIntent(intent);
+  return intent;
+};
+
+export const markChunkPending = (intent: PostIntent, createdAt: string, text: string): PostIntent => {
+  const updated: PostIntent = { ...intent, pending_created_at: createdAt, pending_text: text, updated_at: Date.now() };
+  dbService.savePostIntent(updated);
+  return updated;
+};
+
+export const markChunkPosted = (intent: PostIntent, chunk: PostedChunk, root?: PostedChunk): PostIntent => {
+  const posted = getPostedChunks(intent);
+  // The first chunk fixes the thread root (its reply root, or itself when it starts a new thread).
+  const threadRoot = posted.length === 0 ? root || chunk : getIntentRoot(intent);
+  const updated: PostIntent = {
+    ...intent,
+    posted_json: JSON.stringify([...posted, { uri: chunk.uri, cid: chunk.cid }]),
+    root_uri: threadRoot?.uri,
+    root_cid: threadRoot?.cid,
+    pending_created_at: undefined,
+    pending_text: undefined,
+    updated_at: Date.now(),
+  };
+  dbService.savePostIntent(updated);
+  return updated;
+};
+
+// A crash between agent.post() and markChunkPosted() leaves the chunk on Bluesky but not in the intent.
+// Look it up by the createdAt we stamped on it so resuming never posts the same chunk twice.
+export const reconcilePostIntent = async (agent: BskyAgent, intent: PostIntent): Promise<PostIntent> => {
+  if (!intent.pending_created_at) {
+    return intent;
+  }
+
+  const repo = agent.session?.did;
+  if (!repo) {
+    throw new Error('Cannot reconcile a partially posted thread without a Bluesky session.');
+  }
+
+  const { data } = await agent.com.atproto.repo.listRecords({
+    repo,
+    collection: 'app.bsky.feed.post',
+    limit: RECONCILE_RECORD_SCAN_LIMIT,
+  });
+
+  const landed = data.records.find((record) => {
+    const value = record.value as { createdAt?: string; text?: string };
+    return value.createdAt === intent.pending_created_at && value.text === intent.pending_text;
+  });
+
+  if (landed) {
+    const reply = (landed.value as { reply?: { root?: PostedChunk } }).reply;
+    return markChunkPosted(intent, { uri: landed.uri, cid: landed.cid }, reply?.root);
+  }
+
+  const updated: PostIntent = {
+    ...intent,
+    pending_created_at: undefined,
+    pending_text: undefined,
+    updated_at: Date.now(),
+  };
+  dbService.savePostIntent(updated);
+  return updated;
+};
+
+export const rollBackPostIntent = async (agent: BskyAgent, intent: PostIntent): Promise<number> => {
+  const reconciled = await reconcilePostIntent(agent, intent);
+  const posted = getPostedChunks(reconciled);
+  const first = posted[0];
+  const last = posted[posted.length - 1];
+
+  let deletedCount = 0;
+  if (first && last) {
+    deletedCount = await deleteMirroredThread(agent, first.uri, last.uri);
+  }
+  dbService.deletePostIntent(intent.twitter_id, intent.bsky_identifier);
+  return deletedCount;
+};
@@ -3,12 +3,13 @@ import { randomBytes, randomUUID } from 'node:crypto';
 import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import type { BskyAgent } from '@atproto/api';
 import axios from 'axios';
 import bcrypt from 'bcryptjs';
 import cors from 'cors';
 import express from 'express';
 import jwt, { type SignOptions } from 'jsonwebtoken';
-import { deleteAllPosts } from './bsky.js';
+import { applyInteractionGate, deleteAllPosts, getAgent } from './bsky.js';
 import {
   ADMIN_USER_PERMISSIONS,
   type AccountMapping,
@@ -18,10 +19,30 @@ import {
   type WebUser,
   getConfig,
   getDefaultUserPermissions,
+  normalizeAttributionStyle,
+  normalizeContentFilterRules,
+  normalizeContentLabel,
+  normalizeDeletionSyncSettings,
+  normalizeEditSyncMode,
+  normalizeHandleDirectory,
+  normalizeInteractionGateSettings,
+  normalizeLinkFrontendDomain,
+  normalizeOverflowStrategy,
+  normalizePollStyle,
+  normalizeQuoteWaitMinutes,
+  normalizeReplyGate,
+  normalizeRetweetPolicy,
+  normalizeTextRewriteRules,
+  normalizeTextTemplate,
+  normalizeThreadNumberingStyle,
   saveConfig,
 } from './config-manager.js';
 import { dbService } from './db.js';
+import type { BackfillJob, PostFailure } from './db.js';
 import type { ProcessedTweet } from './db.js';
+import { listHandleDirectory } from './handle-directory.js';
+import { buildPostUrl } from './link-rewriter.js';
+import { giveUpPostFailure, retryPostFailureNow } from './post-failures.js';
 import {
   applyProfileMirrorSyncState,
   bridgeBlueskyAccountToFediverse,
@@ -32,6 +53,7 @@ import {
   validateBlueskyCredentials,
 } from './profile-mirror.js';
 import { JWT_SECRET_FILE_PATH, UPDATE_LOG_DIR } from './storage-paths.js';
+import { formatTemplateDate, transformTweetText } from './text-rewrite.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -307,13 +329,6 @@ const authRateLimiter = (req: any, res: any, next: any) => {
   next();
 };
 
-function buildPostUrl(identifier: string, uri?: string): string | undefined {
-  if (!uri) return undefined;
-  const rkey = uri.split('/').filter(Boolean).pop();
-  if (!rkey) return undefined;
-  return `https://bsky.app/profile/${identifier}/post/${rkey}`;
-}
-
 function buildTwitterPostUrl(username: string, twitterId: string): string | undefined {
   if (!username || !twitterId) return undefined;
   return `https://x.com/${normalizeActor(username)}/status/${twitterId}`;
@@ -844,8 +859,38 @@ export interface PendingBackfill {
   sequence: number;
   requestId: string;
 }
-let pendingBackfills: PendingBackfill[] = [];
-let backfillSequence = 0;
+export interface BackfillOutcome {
+  state: 'done' | 'failed';
+  error?: string;
+}
+
+const BACKFILL_HISTORY_LIMIT = 20;
+const BACKFILL_HISTORY_SCAN_LIMIT = 200;
+
+const toPendingBackfill = (job: BackfillJob): PendingBackfill => ({
+  id: job.mapping_id,
+  limit: job.tweet_limit ?? undefined,
+  queuedAt: job.queued_at,
+  sequence: job.sequence,
+  requestId: job.request_id,
+});
+
+const toBackfillJobView = (job: BackfillJob) => ({
+  requestId: job.request_id,
+  mappingId: job.mapping_id,
+  bskyIdentifier: job.bsky_identifier ?? undefined,
+  limit: job.tweet_limit ?? undefined,
+  state: job.state,
+  requestedBy: job.requested_by ?? undefined,
+  processedCount: job.processed_count,
+  totalCount: job.total_count,
+  lastError: job.last_error ?? undefined,
+  queuedAt: job.queued_at,
+  startedAt: job.started_at ?? undefined,
+  finishedAt: job.finished_at ?? undefined,
+  updatedAt: job.updated_at,
+});
+
 let schedulerWakeSignal = 0; // Monotonic counter to wake scheduler loop immediately.
 
 interface AppStatus {
@@ -1865,7 +1910,9 @@ app.delete('/api/admin/users/:id', authenticateToken, requireAdmin, (req: any, r
   );
 
   config.users.splice(userIndex, 1);
-  pendingBackfills = pendingBackfills.filter((backfill) => !ownedMappingIds.has(backfill.id));
+  for (const mappingId of ownedMappingIds) {
+    dbService.cancelBackfillJobs(mappingId);
+  }
   saveConfig(config);
 
   res.json({
@@ -2128,6 +2175,16 @@ app.post('/api/mappings', authenticateToken, async (req: any, res) => {
     twitterUsernames,
     requestedSource: req.body?.profileSyncSourceUsername,
   });
+  const contentFilters = normalizeContentFilterRules(req.body?.contentFilters);
+  if (Array.isArray(req.body?.contentFilters) && contentFilters.length !== req.body.contentFilters.length) {
+    res.status(400).json({ error: 'One or more content filter rules are invalid.' });
+    return;
+  }
+  const textRewrites = normalizeTextRewriteRules(req.body?.textRewrites);
+  if (Array.isArray(req.body?.textRewrites) && textRewrites.length !== req.body.textRewrites.length) {
+    res.status(400).json({ error: 'One or more text rewrite rules are invalid.' });
+    return;
+  }
 
   const newMapping: AccountMapping = {
     id: randomUUID(),
@@ -2142,6 +2199,25 @@ app.post('/api/mappings', authenticateToken, async (req: any, res) => {
     createdByUserId,
     profileSyncSourceUsername,
     hasBotLabel: false,
+    ...(contentFilters.length > 0 ? { contentFilters } : {}),
+    retweetPolicy: normalizeRetweetPolicy(req.body?.retweetPolicy),
+    postExternalReplies: normalizeBoolean(req.body?.postExternalReplies, false) || undefined,
+    editSyncMode: normalizeEditSyncMode(req.body?.editSyncMode),
+    deletionSync: normalizeDeletionSyncSettings(req.body?.deletionSync),
+    threadNumbering: normalizeThreadNumberingStyle(req.body?.threadNumbering),
+    overflowStrategy: normalizeOverflowStrategy(req.body?.overflowStrategy),
+    postMediaFollowUps: normalizeBoolean(req.body?.postMediaFollowUps, true) ? undefined : false,
+    trimLongVideos: normalizeBoolean(req.body?.trimLongVideos, false) || undefined,
+    quoteWaitMinutes: normalizeQuoteWaitMinutes(req.body?.quoteWaitMinutes),
+    twitterLinkFrontend: normalizeLinkFrontendDomain(req.body?.twitterLinkFrontend),
+    pollStyle: normalizePollStyle(req.body?.pollStyle),
+    pollResultsFollowUp: normalizeBoolean(req.body?.pollResultsFollowUp, false) || undefined,
+    forceContentLabel: normalizeContentLabel(req.body?.forceContentLabel),
+    interactionGate: normalizeInteractionGateSettings(req.body?.interactionGate),
+    attributionStyle: normalizeAttributionStyle(req.body?.attributionStyle),
+    ...(textRewrites.length > 0 ? { textRewrites } : {}),
+    textPrefix: normalizeTextTemplate(req.body?.textPrefix),
+    textSuffix: normalizeTextTemplate(req.body?.textSuffix),
   };
 
   ensureGroupExists(config, normalizedGroupName, normalizedGroupEmoji);
@@ -2253,6 +2329,121 @@ app.put('/api/mappings/:id', authenticateToken, (req: any, res) => {
     fallbackSource: existingMapping.profileSyncSourceUsername,
   });
 
+  let contentFilters = existingMapping.contentFilters;
+  if (req.body?.contentFilters !== undefined) {
+    const normalizedRules = normalizeContentFilterRules(req.body?.contentFilters);
+    if (!Array.isArray(req.body?.contentFilters) || normalizedRules.length !== req.body.contentFilters.length) {
+      res.status(400).json({ error: 'One or more content filter rules are invalid.' });
+      return;
+    }
+    contentFilters = normalizedRules.length > 0 ? normalizedRules : undefined;
+  }
+
+  let textRewrites = existingMapping.textRewrites;
+  if (req.body?.textRewrites !== undefined) {
+    const normalizedRules = normalizeTextRewriteRules(req.body?.textRewrites);
+    if (!Array.isArray(req.body?.textRewrites) || normalizedRules.length !== req.body.textRewrites.length) {
+      res.status(400).json({ error: 'One or more text rewrite rules are invalid.' });
+      return;
+    }
+    textRewrites = normalizedRules.length > 0 ? normalizedRules : undefined;
+  }
+  const textPrefix =
+    req.body?.textPrefix !== undefined ? normalizeTextTemplate(req.body?.textPrefix) : existingMapping.textPrefix;
+  const textSuffix =
+    req.body?.textSuffix !== undefined ? normalizeTextTemplate(req.body?.textSuffix) : existingMapping.textSuffix;
+
+  let retweetPolicy = existingMapping.retweetPolicy;
+  if (req.body?.retweetPolicy !== undefined) {
+    retweetPolicy = normalizeRetweetPolicy(req.body?.retweetPolicy);
+    if (!retweetPolicy) {
+      res.status(400).json({ error: 'Invalid retweet policy.' });
+      return;
+    }
+  }
+
+  let editSyncMode = existingMapping.editSyncMode;
+  if (req.body?.editSyncMode !== undefined) {
+    editSyncMode = normalizeEditSyncMode(req.body?.editSyncMode);
+    if (!editSyncMode) {
+      res.status(400).json({ error: 'Invalid edit sync mode.' });
+      return;
+    }
+  }
+
+  let threadNumbering = existingMapping.threadNumbering;
+  if (req.body?.threadNumbering !== undefined) {
+    threadNumbering = normalizeThreadNumberingStyle(req.body?.threadNumbering);
+    if (!threadNumbering) {
+      res.status(400).json({ error: 'Invalid thread numbering style.' });
+      return;
+    }
+  }
+
+  let overflowStrategy = existingMapping.overflowStrategy;
+  if (req.body?.overflowStrategy !== undefined) {
+    overflowStrategy = normalizeOverflowStrategy(req.body?.overflowStrategy);
+    if (!overflowStrategy) {
+      res.status(400).json({ error: 'Invalid overflow strategy.' });
+      return;
+    }
+  }
+
+  let pollStyle = existingMapping.pollStyle;
+  if (req.body?.pollStyle !== undefined) {
+    pollStyle = normalizePollStyle(req.body?.pollStyle);
+    if (!pollStyle) {
+      res.status(400).json({ error: 'Invalid poll style.' });
+      return;
+    }
+  }
+
+  let attributionStyle = existingMapping.attributionStyle;
+  if (req.body?.attributionStyle !== undefined) {
+    attributionStyle = normalizeAttributionStyle(req.body?.attributionStyle);
+    if (!attributionStyle) {
+      res.status(400).json({ error: 'Invalid attribution style.' });
+      return;
+    }
+  }
+
+  // An empty value removes the forced label; automatic labels from Twitter's flags still apply.
+  let forceContentLabel = existingMapping.forceContentLabel;
+  if (req.body?.forceContentLabel !== undefined) {
+    const requested = normalizeOptionalString(req.body?.forceContentLabel);
+    forceContentLabel = requested ? normalizeContentLabel(requested) : undefined;
+    if (requested && !forceContentLabel) {
+      res.status(400).json({ error: 'Invalid content label.' });
+      return;
+    }
+  }
+
+  let interactionGate = existingMapping.interactionGate;
+  if (req.body?.interactionGate !== undefined) {
+    const requested = req.body?.interactionGate;
+    const replies = requested?.replies === undefined ? 'everyone' : normalizeReplyGate(requested.replies);
+    if (!replies) {
+      res.status(400).json({ error: 'Invalid reply setting.' });
+      return;
+    }
+    interactionGate = normalizeInteractionGateSettings(requested);
+    if (replies === 'list' && interactionGate?.replies !== 'list') {
+      res.status(400).json({ error: 'Reply list must be an at:// URI of a Bluesky list.' });
+      return;
+    }
+  }
+
+  // An empty value turns the front-end rewrite off; anything else has to be a valid host.
+  let twitterLinkFrontend = existingMapping.twitterLinkFrontend;
+  if (req.body?.twitterLinkFrontend !== undefined) {
+    const requested = normalizeOptionalString(req.body?.twitterLinkFrontend);
+    twitterLinkFrontend = requested ? normalizeLinkFrontendDomain(requested) : undefined;
+    if (requested && !twitterLinkFrontend) {
+      res.status(400).json({ error: 'Invalid Twitter link front-end domain.' });
+      return;
+    }
+  }
+
   const updatedMapping: AccountMapping = {
     ...existingMapping,
     twitterUsernames,
@@ -2264,6 +2455,35 @@ app.put('/api/mappings/:id', authenticateToken, (req: any, res) => {
     groupEmoji: nextGroupEmoji,
     createdByUserId,
     profileSyncSourceUsername,
+    contentFilters,
+    retweetPolicy,
+    postExternalReplies:
+      normalizeBoolean(req.body?.postExternalReplies, existingMapping.postExternalReplies === true) || undefined,
+    editSyncMode,
+    deletionSync:
+      req.body?.deletionSync !== undefined
+        ? normalizeDeletionSyncSettings(req.body.deletionSync)
+        : existingMapping.deletionSync,
+    threadNumbering,
+    overflowStrategy,
+    postMediaFollowUps: normalizeBoolean(req.body?.postMediaFollowUps, existingMapping.postMediaFollowUps !== false)
+      ? undefined
+      : false,
+    trimLongVideos: normalizeBoolean(req.body?.trimLongVideos, existingMapping.trimLongVideos === true) || undefined,
+    quoteWaitMinutes:
+      req.body?.quoteWaitMinutes !== undefined
+        ? normalizeQuoteWaitMinutes(req.body.quoteWaitMinutes)
+        : existingMapping.quoteWaitMinutes,
+    twitterLinkFrontend,
+    pollStyle,
+    pollResultsFollowUp:
+      normalizeBoolean(req.body?.pollResultsFollowUp, existingMapping.pollResultsFollowUp === true) || undefined,
+    forceContentLabel,
+    interactionGate,
+    attributionStyle,
+    textRewrites,
+    textPrefix,
+    textSuffix,
   };
 
   ensureGroupExists(config, nextGroupName, nextGroupEmoji);
@@ -2398,6 +2618,35 @@ app.post('/api/mappings/:id/pull-twitter-bio', authenticateToken, async (req: an
   }
 });
 
+// Runs unsaved rules and templates over a sample tweet so the edit form can show the result before saving.
+app.post('/api/mappings/text-rewrite-preview', authenticateToken, (req: any, res) => {
+  if (!canManageOwnMappings(req.user) && !canManageAllMappings(req.user)) {
+    res.status(403).json({ error: 'You do not have permission to update mappings.' });
+    return;
+  }
+
+  const textRewrites = normalizeTextRewriteRules(req.body?.textRewrites);
+  if (!Array.isArray(req.body?.textRewrites) || textRewrites.length !== req.body.textRewrites.length) {
+    res.status(400).json({ error: 'One or more text rewrite rules are invalid.' });
+    return;
+  }
+
+  const sampleText = typeof req.body?.sampleText === 'string' ? req.body.sampleText : '';
+  const twitterUsername = normalizeActor(req.body?.twitterUsername || '') || 'example';
+  const text = transformTweetText(sampleText, {
+    rules: textRewrites,
+    prefix: normalizeTextTemplate(req.body?.textPrefix),
+    suffix: normalizeTextTemplate(req.body?.textSuffix),
+    variables: {
+      author: normalizeOptionalString(req.body?.authorName) || twitterUsername,
+      username: twitterUsername,
+      date: formatTemplateDate(),
+      url: `https://twitter.com/${twitterUsername}/status/1234567890123456789`,
+    },
+  });
+  res.json({ text });
+});
+
 app.post('/api/mappings/bot-label-all', authenticateToken, async (req: any, res) => {
   if (!canManageOwnMappings(req.user) && !canManageAllMappings(req.user)) {
     res.status(403).json({ error: 'You do not have permission to update mappings.' });
@@ -2576,6 +2825,166 @@ app.post('/api/mappings/append-bot-name-all', authenticateToken, async (req: any
   });
 });
 
+const MAX_INTERACTION_GATE_POSTS_PER_MAPPING = 500;
+// Each post can take two record writes; pacing keeps a bulk run well inside the PDS write budget.
+const INTERACTION_GATE_POST_DELAY_MS = 1000;
+const INTERACTION_GATE_RATE_LIMIT_FALLBACK_MS = 60 * 1000;
+const INTERACTION_GATE_RATE_LIMIT_MAX_WAIT_MS = 15 * 60 * 1000;
+const MAX_INTERACTION_GATE_RATE_LIMIT_RETRIES = 3;
+
+interface InteractionGateJob {
+  state: 'running' | 'done';
+  requestedById: string;
+  mappingIds: string[];
+  totalMappings: number;
+  processedMappings: number;
+  currentAccount?: string;
+  totalPosts: number;
+  processedPosts: number;
+  updatedPosts: number;
+  failedPosts: number;
+  failedMappings: Array<{ id: string; bskyIdentifier: string; error: string }>;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+let interactionGateJob: InteractionGateJob | null = null;
+
+const canViewInteractionGateJob = (user: AuthenticatedUser, job: InteractionGateJob): boolean =>
+  job.requestedById === user.id || canManageAllMappings(user);
+
+// The PDS sends the reset time in epoch seconds; wait for it within reason, or a minute when it is missing.
+const getRateLimitWaitMs = (error: unknown): number | null => {
+  const xrpcError = error as { status?: number; headers?: Record<string, string> };
+  if (xrpcError?.status !== 429) {
+    return null;
+  }
+  const resetSeconds = Number(xrpcError.headers?.['ratelimit-reset']);
+  if (!Number.isFinite(resetSeconds)) {
+    return INTERACTION_GATE_RATE_LIMIT_FALLBACK_MS;
+  }
+  return Math.min(INTERACTION_GATE_RATE_LIMIT_MAX_WAIT_MS, Math.max(1000, resetSeconds * 1000 - Date.now()));
+};
+
+const applyInteractionGateWithRetry = async (
+  agent: BskyAgent,
+  postUri: string,
+  mapping: AccountMapping,
+  isThreadRoot: boolean,
+) => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await applyInteractionGate(agent, postUri, mapping.interactionGate, { isThreadRoot, isNewPost: false });
+      return;
+    } catch (error) {
+      const waitMs = getRateLimitWaitMs(error);
+      if (waitMs === null || attempt >= MAX_INTERACTION_GATE_RATE_LIMIT_RETRIES) {
+        throw error;
+      }
+      console.warn(
+        `[${mapping.bskyIdentifier}] ⏳ Rate limited while applying reply/quote settings; waiting ${Math.ceil(waitMs / 1000)}s.`,
+      );
+      await sleep(waitMs);
+    }
+  }
+};
+
+const runInteractionGateJob = async (job: InteractionGateJob, targets: AccountMapping[]) => {
+  for (const mapping of targets) {
+    job.currentAccount = mapping.bskyIdentifier;
+    try {
+      const agent = await getAgent(mapping);
+      if (!agent) {
+        throw new Error('Failed to authenticate with Bluesky.');
+      }
+
+      // Edited tweets keep one row per version pointing at the same post.
+      const rows = dbService.getRecentMirroredTweets(mapping.bskyIdentifier, MAX_INTERACTION_GATE_POSTS_PER_MAPPING);
+      const posts = new Map<string, boolean>();
+      for (const row of rows) {
+        if (row.bsky_uri && !posts.has(row.bsky_uri)) {
+          posts.set(row.bsky_uri, !row.bsky_root_uri || row.bsky_root_uri === row.bsky_uri);
+        }
+      }
+      job.totalPosts += posts.size;
+
+      for (const [postUri, isThreadRoot] of posts) {
+        try {
+          await applyInteractionGateWithRetry(agent, postUri, mapping, isThreadRoot);
+          job.updatedPosts += 1;
+        } catch (error) {
+          job.failedPosts += 1;
+          console.warn(`[${mapping.bskyIdentifier}] ⚠️ Failed to apply reply/quote settings to ${postUri}:`, error);
+        }
+        job.processedPosts += 1;
+        await sleep(INTERACTION_GATE_POST_DELAY_MS);
+      }
+    } catch (error) {
+      job.failedMappings.push({
+        id: mapping.id,
+        bskyIdentifier: mapping.bskyIdentifier,
+        error: getErrorMessage(error, 'Failed to apply reply and quote settings.'),
+      });
+    }
+    job.processedMappings += 1;
+  }
+
+  job.currentAccount = undefined;
+  job.state = 'done';
+  job.finishedAt = Date.now();
+  console.log(
+    `[interaction-gate] ✅ Applied reply/quote settings to ${job.updatedPosts} post(s); ${job.failedPosts} post(s) and ${job.failedMappings.length} account(s) failed.`,
+  );
+};
+
+app.get('/api/mappings/interaction-gate-all', authenticateToken, (req: any, res) => {
+  const job = interactionGateJob && canViewInteractionGateJob(req.user, interactionGateJob) ? interactionGateJob : null;
+  res.json({ job });
+});
+
+app.post('/api/mappings/interaction-gate-all', authenticateToken, (req: any, res) => {
+  if (!canManageOwnMappings(req.user) && !canManageAllMappings(req.user)) {
+    res.status(403).json({ error: 'You do not have permission to update mappings.' });
+    return;
+  }
+
+  if (interactionGateJob?.state === 'running') {
+    res.status(409).json({ error: 'Reply and quote settings are already being applied. Please wait.' });
+    return;
+  }
+
+  const config = getConfig();
+  const manageableMappings = getVisibleMappings(config, req.user).filter((mapping) => canManageMapping(req.user, mapping));
+  const requestedIds = parseMappingIds(req.body?.mappingIds);
+  const requestedIdSet = requestedIds.length > 0 ? new Set(requestedIds) : null;
+  const targets = requestedIdSet
+    ? manageableMappings.filter((mapping) => requestedIdSet.has(mapping.id))
+    : manageableMappings;
+
+  if (targets.length === 0) {
+    res.status(400).json({ error: 'No manageable mappings available for reply and quote settings.' });
+    return;
+  }
+
+  const job: InteractionGateJob = {
+    state: 'running',
+    requestedById: req.user.id,
+    mappingIds: targets.map((mapping) => mapping.id),
+    totalMappings: targets.length,
+    processedMappings: 0,
+    totalPosts: 0,
+    processedPosts: 0,
+    updatedPosts: 0,
+    failedPosts: 0,
+    failedMappings: [],
+    startedAt: Date.now(),
+  };
+  interactionGateJob = job;
+  void runInteractionGateJob(job, targets);
+
+  res.status(202).json({ success: true, job });
+});
+
 app.post('/api/mappings/:id/bridge-to-fediverse', authenticateToken, async (req: any, res) => {
   const { id } = req.params;
   const config = getConfig();
@@ -2691,7 +3100,7 @@ app.delete('/api/mappings/:id', authenticateToken, (req: any, res) => {
   }
 
   config.mappings = config.mappings.filter((entry) => entry.id !== id);
-  pendingBackfills = pendingBackfills.filter((entry) => entry.id !== id);
+  dbService.cancelBackfillJobs(id);
   saveConfig(config);
   res.json({ success: true });
 });
@@ -2777,6 +3186,17 @@ app.post('/api/ai-config', authenticateToken, requireAdmin, (req, res) => {
   res.json({ success: true });
 });
 
+app.get('/api/handle-directory', authenticateToken, requireAdmin, (_req, res) => {
+  res.json(listHandleDirectory(getConfig()));
+});
+
+app.post('/api/handle-directory', authenticateToken, requireAdmin, (req, res) => {
+  const config = getConfig();
+  config.handleDirectory = normalizeHandleDirectory(req.body?.entries);
+  saveConfig(config);
+  res.json(listHandleDirectory(config));
+});
+
 // --- Status & Actions Routes ---
 
 app.get('/api/status', authenticateToken, (req: any, res) => {
@@ -2784,9 +3204,12 @@ app.get('/api/status', authenticateToken, (req: any, res) => {
   const now = Date.now();
   const nextRunMs = Math.max(0, nextCheckTime - now);
   const visibleMappingIds = getVisibleMappingIdSet(config, req.user);
-  const scopedPendingBackfills = pendingBackfills
-    .filter((backfill) => visibleMappingIds.has(backfill.id))
-    .sort((a, b) => a.sequence - b.sequence);
+  const scopedPendingBackfills = getPendingBackfills().filter((backfill) => visibleMappingIds.has(backfill.id));
+  const scopedBackfillHistory = dbService
+    .getRecentBackfillJobs(BACKFILL_HISTORY_SCAN_LIMIT)
+    .filter((job) => visibleMappingIds.has(job.mapping_id))
+    .slice(0, BACKFILL_HISTORY_LIMIT)
+    .map(toBackfillJobView);
 
   const scopedStatus =
     currentAppStatus.state === 'backfilling' &&
@@ -2808,6 +3231,7 @@ app.get('/api/status', authenticateToken, (req: any, res) => {
       ...backfill,
       position: index + 1,
     })),
+    backfillHistory: scopedBackfillHistory,
     currentStatus: scopedStatus,
   });
 });
@@ -2849,7 +3273,7 @@ app.post('/api/run-now', authenticateToken, (req: any, res) => {
 });
 
 app.post('/api/backfill/clear-all', authenticateToken, requireAdmin, (_req, res) => {
-  pendingBackfills = [];
+  dbService.cancelBackfillJobs();
   updateAppStatus({
     state: 'idle',
     message: 'All backfills cleared',
@@ -2888,18 +3312,16 @@ app.post('/api/backfill/:id', authenticateToken, (req: any, res) => {
 
   const parsedLimit = Number(limit);
   const safeLimit = Number.isFinite(parsedLimit) ? Math.max(1, Math.min(parsedLimit, 200)) : undefined;
-  const queuedAt = Date.now();
-  const sequence = backfillSequence++;
   const requestId = randomUUID();
-  pendingBackfills = pendingBackfills.filter((entry) => entry.id !== id);
-  pendingBackfills.push({
-    id,
-    limit: safeLimit,
-    queuedAt,
-    sequence,
-    requestId,
+  dbService.cancelBackfillJobs(id);
+  dbService.createBackfillJob({
+    request_id: requestId,
+    mapping_id: id,
+    bsky_identifier: mapping.bskyIdentifier,
+    tweet_limit: safeLimit,
+    requested_by: getActorLabel(req.user),
+    queued_at: Date.now(),
   });
-  pendingBackfills.sort((a, b) => a.sequence - b.sequence);
   signalSchedulerWake();
 
   res.json({
@@ -2924,7 +3346,7 @@ app.delete('/api/backfill/:id', authenticateToken, (req: any, res) => {
     return;
   }
 
-  pendingBackfills = pendingBackfills.filter((entry) => entry.id !== id);
+  dbService.cancelBackfillJobs(id);
   signalSchedulerWake();
   res.json({ success: true });
 });
@@ -2986,6 +3408,62 @@ app.get('/api/recent-activity', authenticateToken, (req: any, res) => {
   res.json(filtered.slice(0, limit));
 });
 
+const toPostFailureView = (failure: PostFailure, mapping?: AccountMapping) => ({
+  twitterId: failure.twitter_id,
+  twitterUsername: failure.twitter_username,
+  bskyIdentifier: failure.bsky_identifier,
+  mappingId: mapping?.id,
+  stage: failure.stage,
+  error: failure.error,
+  attempts: failure.attempts,
+  state: failure.state,
+  firstFailedAt: failure.first_failed_at,
+  lastFailedAt: failure.last_failed_at,
+  nextAttemptAt: failure.next_attempt_at ?? undefined,
+  tweetUrl: `https://x.com/${failure.twitter_username}/status/${failure.twitter_id}`,
+});
+
+const findMappingByBskyIdentifier = (config: AppConfig, bskyIdentifier: string): AccountMapping | undefined =>
+  config.mappings.find((mapping) => normalizeActor(mapping.bskyIdentifier) === normalizeActor(bskyIdentifier));
+
+app.get('/api/failures', authenticateToken, (req: any, res) => {
+  const config = getConfig();
+  const visibleSets = getVisibleMappingIdentitySets(config, req.user);
+  const failures = dbService
+    .getPostFailures()
+    .filter((failure) => visibleSets.bskyIdentifiers.has(normalizeActor(failure.bsky_identifier)))
+    .map((failure) => toPostFailureView(failure, findMappingByBskyIdentifier(config, failure.bsky_identifier)));
+
+  res.json(failures);
+});
+
+app.post('/api/failures/:bskyIdentifier/:twitterId/:action', authenticateToken, (req: any, res) => {
+  const { bskyIdentifier, twitterId, action } = req.params;
+  if (action !== 'retry' && action !== 'give-up') {
+    res.status(400).json({ error: 'Unknown failure action.' });
+    return;
+  }
+
+  const config = getConfig();
+  const mapping = findMappingByBskyIdentifier(config, bskyIdentifier);
+  if (!mapping || !canManageMapping(req.user, mapping)) {
+    res.status(403).json({ error: 'You do not have permission to manage failures for this account.' });
+    return;
+  }
+
+  const failure =
+    action === 'retry' ? retryPostFailureNow(twitterId, bskyIdentifier) : giveUpPostFailure(twitterId, bskyIdentifier);
+  if (!failure) {
+    res.status(404).json({ error: 'Failure not found.' });
+    return;
+  }
+
+  if (action === 'retry') {
+    requestImmediateSchedulerPass();
+  }
+  res.json(toPostFailureView(failure, mapping));
+});
+
 app.post('/api/bsky/profiles', authenticateToken, async (req, res) => {
   const actors = Array.isArray(req.body?.actors)
     ? req.body.actors.filter((actor: unknown) => typeof actor === 'string')
@@ -3088,7 +3566,19 @@ export function updateAppStatus(status: Partial<AppStatus>) {
 }
 
 export function getPendingBackfills(): PendingBackfill[] {
-  return [...pendingBackfills].sort((a, b) => a.sequence - b.sequence);
+  return dbService.getActiveBackfillJobs().map(toPendingBackfill);
+}
+
+export function restoreBackfillQueue(): number {
+  return dbService.requeueInterruptedBackfillJobs();
+}
+
+export function startBackfill(requestId: string, totalCount: number) {
+  dbService.markBackfillJobRunning(requestId, totalCount);
+}
+
+export function updateBackfillProgress(requestId: string, processedCount: number, totalCount: number) {
+  dbService.updateBackfillJobProgress(requestId, processedCount, totalCount);
 }
 
 export function getNextCheckTime(): number {
@@ -3103,12 +3593,13 @@ export function triggerImmediateRun(): void {
   requestImmediateSchedulerPass();
 }
 
-export function clearBackfill(id: string, requestId?: string) {
-  if (requestId) {
-    pendingBackfills = pendingBackfills.filter((bid) => !(bid.id === id && bid.requestId === requestId));
-    return;
+export function clearBackfill(id: string, requestId?: string, outcome: BackfillOutcome = { state: 'done' }) {
+  const jobs = dbService
+    .getActiveBackfillJobs()
+    .filter((job) => job.mapping_id === id && (!requestId || job.request_id === requestId));
+  for (const job of jobs) {
+    dbService.finishBackfillJob(job.request_id, outcome.state, outcome.error);
   }
-  pendingBackfills = pendingBackfills.filter((bid) => bid.id !== id);
 }
 
 // Serve the frontend for any other route (middleware approach for Express 5)
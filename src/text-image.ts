@@ -0,0 +1,108 @@
+import sharp from 'sharp';
+
+export interface RenderedTextImage {
+  buffer: Buffer;
+  width: number;
+  height: number;
+}
+
+const IMAGE_WIDTH = 1080;
+const PADDING = 72;
+const FONT_SIZE = 36;
+const LINE_HEIGHT = 54;
+const MAX_LINES = 80;
+// Bluesky rejects image blobs over 1,000,000 bytes; staying under the upload optimizer's threshold avoids a downscale.
+const MAX_IMAGE_BYTES = 950 * 1024;
+const JPEG_QUALITIES = [90, 80, 70, 60];
+const MAX_LINE_EM = (IMAGE_WIDTH - PADDING * 2) / FONT_SIZE;
+
+const graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+const WIDE_GRAPHEME =
+  /[\u1100-\u115F\u2E80-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]|\p{Extended_Pictographic}/u;
+
+// Rough advance widths for a sans-serif face; close enough to keep lines inside the padding.
+const graphemeWidthEm = (grapheme: string): number => {
+  if (WIDE_GRAPHEME.test(grapheme)) return 1;
+  if (/[MWmw@]/.test(grapheme)) return 0.85;
+  if (/[A-Z0-9]/.test(grapheme)) return 0.66;
+  if (/[il.,:;'|!\s]/.test(grapheme)) return 0.3;
+  return 0.54;
+};
+
+const textWidthEm = (text: string): number => {
+  let width = 0;
+  for (const { segment } of graphemeSegmenter.segment(text)) {
+    width += graphemeWidthEm(segment);
+  }
+  return width;
+};
+
+const wrapParagraph = (paragraph: string, maxLineEm: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  let lineWidth = 0;
+
+  const pushToken = (token: string) => {
+    const tokenWidth = textWidthEm(token);
+    if (lineWidth + tokenWidth <= maxLineEm) {
+      line += token;
+      lineWidth += tokenWidth;
+      return;
+    }
+    if (line.trim()) {
+      lines.push(line.trimEnd());
+    }
+    line = token.trimStart();
+    lineWidth = textWidthEm(line);
+  };
+
+  // Words wrap whole; CJK runs and overlong words wrap per grapheme.
+  for (const word of paragraph.split(/(?<=\s)/)) {
+    if (textWidthEm(word) <= maxLineEm && !WIDE_GRAPHEME.test(word)) {
+      pushToken(word);
+      continue;
+    }
+    for (const { segment } of graphemeSegmenter.segment(word)) {
+      pushToken(segment);
+    }
+  }
+  lines.push(line.trimEnd());
+  return lines;
+};
+
+export const wrapText = (text: string, maxLineEm: number): string[] =>
+  text.split('\n').flatMap((paragraph) => wrapParagraph(paragraph, maxLineEm));
+
+export const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const renderTextImage = async (text: string): Promise<RenderedTextImage> => {
+  const lines = wrapText(text, MAX_LINE_EM);
+  if (lines.length > MAX_LINES) {
+    throw new Error(`Text needs ${lines.length} lines; the image limit is ${MAX_LINES}.`);
+  }
+
+  const height = PADDING * 2 + Math.max(1, lines.length) * LINE_HEIGHT;
+  const tspans = lines
+    .map(
+      (line, index) =>
+        `<tspan x="${PADDING}" y="${PADDING + FONT_SIZE + index * LINE_HEIGHT}">${escapeXml(line) || ' '}</tspan>`,
+    )
+    .join('');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${IMAGE_WIDTH}" height="${height}">
+<rect width="100%" height="100%" fill="#ffffff"/>
+<text font-family="Inter, 'Noto Sans', 'Noto Sans CJK JP', 'Helvetica Neue', Arial, sans-serif" font-size="${FONT_SIZE}" fill="#0f1419" xml:space="preserve">${tspans}</text>
+</svg>`;
+
+  // Dense text compresses poorly, so step the quality down before giving up on the image.
+  const rendered = await sharp(Buffer.from(svg)).png().toBuffer();
+  let size = 0;
+  for (const quality of JPEG_QUALITIES) {
+    const buffer = await sharp(rendered).jpeg({ quality, mozjpeg: true }).toBuffer();
+    if (buffer.length <= MAX_IMAGE_BYTES) {
+      return { buffer, width: IMAGE_WIDTH, height };
+    }
+    size = buffer.length;
+  }
+  throw new Error(`Text image is ${size} bytes at the lowest quality; the limit is ${MAX_IMAGE_BYTES}.`);
+};
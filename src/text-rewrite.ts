@@ -0,0 +1,60 @@
+import type { TextRewriteRule } from './config-manager.js';
+
+export interface TextTemplateVariables {
+  author: string;
+  username: string;
+  date: string;
+  url: string;
+}
+
+export interface TextTransformOptions {
+  rules?: TextRewriteRule[];
+  prefix?: string;
+  suffix?: string;
+  variables: TextTemplateVariables;
+}
+
+const TEMPLATE_VARIABLE = /\{(author|username|date|url)\}/g;
+
+export const describeTextRewriteRule = (rule: TextRewriteRule): string => {
+  const replacement = rule.replace ? `"${rule.replace}"` : 'nothing';
+  return rule.type === 'regex' ? `regex /${rule.find}/ → ${replacement}` : `"${rule.find}" → ${replacement}`;
+};
+
+// Rules run top to bottom, each on the output of the previous one.
+export const applyTextRewriteRules = (text: string, rules: TextRewriteRule[] | undefined): string => {
+  let result = text;
+  for (const rule of rules ?? []) {
+    if (rule.type === 'replace') {
+      result = result.split(rule.find).join(rule.replace);
+      continue;
+    }
+    try {
+      result = result.replace(new RegExp(rule.find, 'giu'), rule.replace);
+    } catch {
+      // Rules are validated when saved; a pattern this runtime rejects is skipped rather than failing the post.
+    }
+  }
+  return result;
+};
+
+// Unknown placeholders stay as typed, and a literal "\n" becomes a line break since the UI edits single-line inputs.
+export const renderTextTemplate = (template: string, variables: TextTemplateVariables): string =>
+  template
+    .replace(/\\n/g, '\n')
+    .replace(TEMPLATE_VARIABLE, (_match, name: keyof TextTemplateVariables) => variables[name]);
+
+export const transformTweetText = (text: string, options: TextTransformOptions): string => {
+  const rewritten = applyTextRewriteRules(text, options.rules)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  const prefix = options.prefix ? renderTextTemplate(options.prefix, options.variables) : '';
+  const suffix = options.suffix ? renderTextTemplate(options.suffix, options.variables) : '';
+  return `${prefix}${rewritten}${suffix}`.trim();
+};
+
+// Tweet dates render as YYYY-MM-DD in UTC; a missing or unparseable date falls back to today.
+export const formatTemplateDate = (value?: string): string => {
+  const parsed = value ? Date.parse(value) : Number.NaN;
+  return new Date(Number.isFinite(parsed) ? parsed : Date.now()).toISOString().slice(0, 10);
+};
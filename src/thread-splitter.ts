@@ -0,0 +1,167 @@
+import type { ThreadNumberingStyle } from './config-manager.js';
+
+export const POST_GRAPHEME_LIMIT = 300;
+
+const graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+// Bluesky's 300 limit counts graphemes, so emoji sequences and combining marks count once.
+export const countGraphemes = (text: string): number => {
+  let count = 0;
+  for (const _segment of graphemeSegmenter.segment(text)) {
+    count++;
+  }
+  return count;
+};
+
+// UTF-16 index just past the first `graphemes` graphemes of `text`.
+const graphemeBoundaryIndex = (text: string, graphemes: number): number => {
+  let count = 0;
+  for (const segment of graphemeSegmenter.segment(text)) {
+    if (count === graphemes) {
+      return segment.index;
+    }
+    count++;
+  }
+  return text.length;
+};
+
+export const formatThreadLabel = (style: ThreadNumberingStyle, index: number, total: number): string => {
+  if (total <= 1) return '';
+  switch (style) {
+    case 'none':
+      return '';
+    case 'thread-emoji':
+      return ` 🧵 ${index}/${total}`;
+    case 'ellipsis':
+      return index < total ? ' …' : '';
+    default:
+      return ` (${index}/${total})`;
+  }
+};
+
+// Links, mentions and hashtags become facets later; splitting inside one would break it.
+const FACET_PATTERNS = [
+  /https?:\/\/[^\s]+/gi,
+  /(?<![\w@/.])(?:[a-z0-9-]+\.)+[a-z]{2,}(?:\/[^\s]*)?/gi,
+  /(?<![\w])@[a-z0-9_.-]+/gi,
+  /(?<![\w&])#[^\s#]+/gu,
+];
+
+const findFacetRanges = (text: string): Array<{ start: number; end: number }> => {
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const pattern of FACET_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      if (match.index === undefined) continue;
+      ranges.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+  return ranges;
+};
+
+// Sentence ends: Latin punctuation needs following whitespace, CJK punctuation does not.
+const SENTENCE_BREAK = /[.!?…](?=\s)|[。！？；](?=.)/gu;
+const CLAUSE_BREAK = /[，、：,;](?=.)/gu;
+
+const lastBreakBefore = (text: string, pattern: RegExp, maxIndex: number, isAllowed: (index: number) => boolean) => {
+  let best = -1;
+  for (const match of text.slice(0, maxIndex).matchAll(pattern)) {
+    if (match.index === undefined) continue;
+    const index = match.index + match[0].length;
+    if (index > 0 && index <= maxIndex && isAllowed(index)) {
+      best = index;
+    }
+  }
+  return best;
+};
+
+const findSplitIndex = (text: string, budget: number): number => {
+  const maxIndex = graphemeBoundaryIndex(text, budget);
+  const facets = findFacetRanges(text);
+  const isAllowed = (index: number) => !facets.some((range) => index > range.start && index < range.end);
+
+  // Priority: paragraph, line or sentence end, clause, space; then the latest grapheme boundary outside a facet.
+  const candidates = [
+    lastBreakBefore(text, /\n\n/g, maxIndex, isAllowed),
+    Math.max(
+      lastBreakBefore(text, /\n/g, maxIndex, isAllowed),
+      lastBreakBefore(text, SENTENCE_BREAK, maxIndex, isAllowed),
+    ),
+    lastBreakBefore(text, CLAUSE_BREAK, maxIndex, isAllowed),
+    lastBreakBefore(text, /\s/g, maxIndex, isAllowed),
+  ];
+  const natural = candidates.find((index) => index > 0);
+  if (natural !== undefined) {
+    return natural;
+  }
+
+  const blocking = facets.find((range) => maxIndex > range.start && maxIndex < range.end);
+  if (blocking && blocking.start > 0) {
+    return blocking.start;
+  }
+  // A single facet longer than a whole post cannot be kept intact.
+  return maxIndex > 0 ? maxIndex : graphemeBoundaryIndex(text, 1);
+};
+
+// Extra room kept free on the first or last chunk only, e.g. for a source link appended after splitting.
+export interface ChunkReserve {
+  first?: number;
+  last?: number;
+}
+
+const splitWithBudget = (text: string, budget: number, reserve: ChunkReserve): string[] => {
+  const chunks: string[] = [];
+  let remaining = text.trim();
+  while (remaining.length > 0) {
+    const chunkBudget = chunks.length === 0 ? budget - (reserve.first ?? 0) : budget;
+    const lastChunkBudget = chunkBudget - (reserve.last ?? 0);
+    const remainingGraphemes = countGraphemes(remaining);
+    if (remainingGraphemes <= lastChunkBudget) {
+      chunks.push(remaining);
+      break;
+    }
+    // Text that fits this chunk but not next to the last-chunk reserve is split there, leaving a short final chunk.
+    const splitIndex = findSplitIndex(remaining, remainingGraphemes <= chunkBudget ? lastChunkBudget : chunkBudget);
+    const chunk = remaining.slice(0, splitIndex).trim();
+    if (chunk) chunks.push(chunk);
+    remaining = remaining.slice(splitIndex).trim();
+  }
+  return chunks;
+};
+
+export const splitText = (
+  text: string,
+  numbering: ThreadNumberingStyle = 'fraction',
+  limit = POST_GRAPHEME_LIMIT,
+  reserve: ChunkReserve = {},
+): string[] => {
+  if (countGraphemes(text) <= limit - (reserve.first ?? 0) - (reserve.last ?? 0)) return [text];
+
+  // The label length depends on the chunk count, so re-split until the reserved space is enough.
+  // Styles like 'ellipsis' label every chunk but the last, so reserve the widest label at any position.
+  let expectedTotal = 2;
+  let chunks: string[] = [];
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const labelReserve = Math.max(
+      ...[1, expectedTotal].map((index) => countGraphemes(formatThreadLabel(numbering, index, expectedTotal))),
+    );
+    chunks = splitWithBudget(text, limit - labelReserve, reserve);
+    if (String(chunks.length).length <= String(expectedTotal).length) {
+      break;
+    }
+    expectedTotal = chunks.length;
+  }
+
+  return chunks.map((chunk, index) => `${chunk}${formatThreadLabel(numbering, index + 1, chunks.length)}`);
+};
+
+// Cuts text to fit one post at the best natural break, keeping room for `suffix` (e.g. a source link).
+export const truncateText = (text: string, suffix = '', limit = POST_GRAPHEME_LIMIT): string => {
+  if (countGraphemes(text) + countGraphemes(suffix) <= limit) {
+    return `${text}${suffix}`;
+  }
+
+  const budget = limit - countGraphemes(suffix) - 1;
+  const cut = text.slice(0, findSplitIndex(text, budget)).trim();
+  const endsSentence = /[.!?…。！？]$/u.test(cut);
+  return `${cut}${endsSentence ? '' : '…'}${suffix}`;
+};
@@ -0,0 +1,91 @@
+import sharp from 'sharp';
+import { escapeXml, wrapText } from './text-image.js';
+import type { RenderedTextImage } from './text-image.js';
+
+export interface TweetCardContent {
+  username: string;
+  authorName?: string;
+  text: string;
+  createdAt?: Date;
+  // Already downloaded; the renderer itself never touches the network.
+  thumbnail?: Buffer;
+}
+
+const CARD_WIDTH = 1100;
+const PADDING = 48;
+const CONTENT_WIDTH = CARD_WIDTH - PADDING * 2;
+const AVATAR_SIZE = 88;
+const NAME_FONT_SIZE = 32;
+const HANDLE_FONT_SIZE = 28;
+const TEXT_FONT_SIZE = 32;
+const TEXT_LINE_HEIGHT = 46;
+const MAX_TEXT_LINES = 24;
+const SECTION_GAP = 28;
+const THUMBNAIL_MAX_HEIGHT = 620;
+const CORNER_RADIUS = 24;
+const FONT_FAMILY = "Inter, 'Noto Sans', 'Noto Sans CJK JP', 'Helvetica Neue', Arial, sans-serif";
+
+const timestampFormat = new Intl.DateTimeFormat('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' });
+
+const fitTextLines = (text: string): string[] => {
+  const lines = wrapText(text.trim(), CONTENT_WIDTH / TEXT_FONT_SIZE);
+  if (lines.length <= MAX_TEXT_LINES) {
+    return lines.length === 1 && !lines[0] ? [] : lines;
+  }
+  const kept = lines.slice(0, MAX_TEXT_LINES);
+  kept[MAX_TEXT_LINES - 1] = `${kept[MAX_TEXT_LINES - 1]}…`;
+  return kept;
+};
+
+const renderThumbnail = async (input: Buffer): Promise<{ buffer: Buffer; height: number }> => {
+  const metadata = await sharp(input).metadata();
+  const aspect = metadata.width && metadata.height ? metadata.height / metadata.width : 9 / 16;
+  const height = Math.min(THUMBNAIL_MAX_HEIGHT, Math.round(CONTENT_WIDTH * aspect));
+  const mask = `<svg xmlns="http://www.w3.org/2000/svg" width="${CONTENT_WIDTH}" height="${height}"><rect width="100%" height="100%" rx="${CORNER_RADIUS}"/></svg>`;
+  const buffer = await sharp(input)
+    .resize(CONTENT_WIDTH, height, { fit: 'cover' })
+    .composite([{ input: Buffer.from(mask), blend: 'dest-in' }])
+    .png()
+    .toBuffer();
+  return { buffer, height };
+};
+
+// Draws the tweet the way a quote or reply-context card reads on Twitter: author, text, time and first media.
+export const renderTweetCard = async (content: TweetCardContent): Promise<RenderedTextImage> => {
+  const lines = fitTextLines(content.text);
+  const thumbnail = content.thumbnail ? await renderThumbnail(content.thumbnail) : null;
+
+  const textTop = PADDING + AVATAR_SIZE + SECTION_GAP;
+  const textBottom = lines.length > 0 ? textTop + lines.length * TEXT_LINE_HEIGHT : PADDING + AVATAR_SIZE;
+  const thumbnailTop = textBottom + SECTION_GAP;
+  const height = (thumbnail ? thumbnailTop + thumbnail.height : textBottom) + PADDING;
+
+  const displayName = content.authorName?.trim() || content.username;
+  const initial = (Array.from(displayName)[0] || '?').toUpperCase();
+  const timestamp = content.createdAt ? ` · ${timestampFormat.format(content.createdAt)} UTC` : '';
+  const handleLine = `@${content.username}${timestamp}`;
+  const nameLeft = PADDING + AVATAR_SIZE + 20;
+  const tspans = lines
+    .map(
+      (line, index) =>
+        `<tspan x="${PADDING}" y="${textTop + TEXT_FONT_SIZE + index * TEXT_LINE_HEIGHT}">${escapeXml(line) || ' '}</tspan>`,
+    )
+    .join('');
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${height}">
+<rect x="1" y="1" width="${CARD_WIDTH - 2}" height="${height - 2}" rx="${CORNER_RADIUS}" fill="#ffffff" stroke="#cfd9de" stroke-width="2"/>
+<g font-family="${escapeXml(FONT_FAMILY)}">
+<circle cx="${PADDING + AVATAR_SIZE / 2}" cy="${PADDING + AVATAR_SIZE / 2}" r="${AVATAR_SIZE / 2}" fill="#1d9bf0"/>
+<text x="${PADDING + AVATAR_SIZE / 2}" y="${PADDING + AVATAR_SIZE / 2 + 14}" font-size="40" font-weight="bold" fill="#ffffff" text-anchor="middle">${escapeXml(initial)}</text>
+<text x="${nameLeft}" y="${PADDING + 36}" font-size="${NAME_FONT_SIZE}" font-weight="bold" fill="#0f1419">${escapeXml(displayName)}</text>
+<text x="${nameLeft}" y="${PADDING + 78}" font-size="${HANDLE_FONT_SIZE}" fill="#536471">${escapeXml(handleLine)}</text>
+<text font-size="${TEXT_FONT_SIZE}" fill="#0f1419" xml:space="preserve">${tspans}</text>
+</g>
+</svg>`;
+
+  const buffer = await sharp(Buffer.from(svg))
+    .composite(thumbnail ? [{ input: thumbnail.buffer, left: PADDING, top: thumbnailTop }] : [])
+    .png()
+    .toBuffer();
+  return { buffer, width: CARD_WIDTH, height };
+};
@@ -0,0 +1,83 @@
+import axios from 'axios';
+
+export interface CaptionTrack {
+  lang: string;
+  vtt: string;
+}
+
+// Bluesky rejects caption files over 20 KB and embeds with more than 20 tracks.
+export const MAX_CAPTION_BYTES = 20_000;
+const MAX_CAPTION_TRACKS = 20;
+const MAX_CAPTION_SEGMENTS = 60;
+const FETCH_TIMEOUT_MS = 15_000;
+
+const fetchText = async (url: string): Promise<string> => {
+  const response = await axios.get<string>(url, { responseType: 'text', timeout: FETCH_TIMEOUT_MS });
+  return String(response.data);
+};
+
+const parseAttributes = (line: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of line.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g)) {
+    const [, key, value] = match;
+    if (key && value !== undefined) {
+      attributes[key] = value.replace(/^"|"$/g, '');
+    }
+  }
+  return attributes;
+};
+
+// Twitter ships subtitles as SRT on some older media; everything else is already WebVTT.
+export const toWebVtt = (text: string): string => {
+  const normalized = text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .trim();
+  if (normalized.startsWith('WEBVTT')) {
+    return `${normalized}\n`;
+  }
+  const cues = normalized.replace(/(\d{2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2');
+  return `WEBVTT\n\n${cues}\n`;
+};
+
+// HLS splits a subtitle track into WebVTT segments, each with its own header.
+const mergeVttSegments = (segments: string[]): string => {
+  const cues = segments
+    .map((segment) => {
+      const lines = toWebVtt(segment).split('\n');
+      const headerEnd = lines.indexOf('');
+      return (headerEnd === -1 ? [] : lines.slice(headerEnd + 1)).join('\n').trim();
+    })
+    .filter(Boolean);
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+};
+
+export const fetchHlsCaptionTracks = async (playlistUrl: string): Promise<CaptionTrack[]> => {
+  const master = await fetchText(playlistUrl);
+  const tracks: CaptionTrack[] = [];
+
+  for (const line of master.split(/\r?\n/)) {
+    if (!line.startsWith('#EXT-X-MEDIA:')) continue;
+    const attributes = parseAttributes(line.slice('#EXT-X-MEDIA:'.length));
+    if (attributes.TYPE !== 'SUBTITLES' || !attributes.URI) continue;
+
+    const trackUrl = new URL(attributes.URI, playlistUrl).href;
+    const trackPlaylist = await fetchText(trackUrl);
+    const segmentUrls = trackPlaylist
+      .split(/\r?\n/)
+      .map((entry) => entry.trim())
+      .filter((entry) => entry && !entry.startsWith('#'))
+      .slice(0, MAX_CAPTION_SEGMENTS)
+      .map((entry) => new URL(entry, trackUrl).href);
+    if (segmentUrls.length === 0) continue;
+
+    const segments: string[] = [];
+    for (const segmentUrl of segmentUrls) {
+      segments.push(await fetchText(segmentUrl));
+    }
+    tracks.push({ lang: attributes.LANGUAGE || 'und', vtt: mergeVttSegments(segments) });
+    if (tracks.length >= MAX_CAPTION_TRACKS) break;
+  }
+
+  return tracks;
+};
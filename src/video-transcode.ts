@@ -0,0 +1,191 @@
+import { spawn } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import sharp from 'sharp';
+
+// Bluesky accepts videos up to 100 MB and 3 minutes; stay a little under both.
+export const MAX_VIDEO_BYTES = 90 * 1024 * 1024;
+export const MAX_VIDEO_DURATION_MS = 180_000;
+
+const TRIM_DURATION_SECONDS = 179;
+const AUDIO_BITRATE_KBPS = 128;
+const MAX_VIDEO_BITRATE_KBPS = 6000;
+const MIN_VIDEO_BITRATE_KBPS = 250;
+// Muxing overhead and rate-control overshoot; leaves headroom below MAX_VIDEO_BYTES.
+const SIZE_SAFETY_FACTOR = 0.85;
+const FFMPEG_TIMEOUT_MS = 10 * 60 * 1000;
+const FRAME_TIMEOUT_MS = 30_000;
+const FRAME_WIDTH = 480;
+
+const getFfmpegPath = (): string => process.env.FFMPEG_PATH?.trim() || 'ffmpeg';
+
+const runFfmpeg = (args: string[], timeoutMs: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const child = spawn(getFfmpegPath(), args, { stdio: ['ignore', 'ignore', 'pipe'] });
+    let stderr = '';
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new Error(`ffmpeg timed out after ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+
+    child.stderr.on('data', (data: Buffer) => {
+      // Only the tail is useful for errors; ffmpeg logs progress continuously.
+      stderr = (stderr + data.toString()).slice(-2000);
+    });
+    child.on('error', (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim().split('\n').pop() || 'no output'}`));
+      }
+    });
+  });
+
+let ffmpegAvailable: Promise<boolean> | null = null;
+
+export const isFfmpegAvailable = (): Promise<boolean> => {
+  if (!ffmpegAvailable) {
+    ffmpegAvailable = runFfmpeg(['-hide_banner', '-version'], 10_000).then(
+      () => true,
+      () => false,
+    );
+  }
+  return ffmpegAvailable;
+};
+
+export interface TranscodeOptions {
+  durationMs: number;
+  // Cut the video to Bluesky's maximum length instead of failing on long sources.
+  trimToLimit?: boolean;
+}
+
+export interface TranscodedVideo {
+  buffer: Buffer;
+  trimmed: boolean;
+}
+
+// Picks a video bitrate that lands the whole file under MAX_VIDEO_BYTES for the given duration.
+const targetVideoBitrateKbps = (durationSeconds: number): number => {
+  const totalKbps = (MAX_VIDEO_BYTES * 8 * SIZE_SAFETY_FACTOR) / 1000 / Math.max(durationSeconds, 1);
+  const videoKbps = Math.floor(totalKbps - AUDIO_BITRATE_KBPS);
+  return Math.min(MAX_VIDEO_BITRATE_KBPS, Math.max(MIN_VIDEO_BITRATE_KBPS, videoKbps));
+};
+
+export const transcodeVideo = async (input: Buffer, options: TranscodeOptions): Promise<TranscodedVideo> => {
+  const trimmed = options.trimToLimit === true && options.durationMs > MAX_VIDEO_DURATION_MS;
+  const durationSeconds = trimmed ? TRIM_DURATION_SECONDS : Math.max(options.durationMs / 1000, 1);
+  const videoKbps = targetVideoBitrateKbps(durationSeconds);
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tweets-2-bsky-video-'));
+  const inputPath = path.join(workDir, 'input.mp4');
+  const outputPath = path.join(workDir, 'output.mp4');
+
+  try {
+    await fs.writeFile(inputPath, input);
+    await runFfmpeg(
+      [
+        '-hide_banner',
+        '-loglevel',
+        'error',
+        '-y',
+        '-i',
+        inputPath,
+        ...(trimmed ? ['-t', String(TRIM_DURATION_SECONDS)] : []),
+        '-c:v',
+        'libx264',
+        '-preset',
+        'veryfast',
+        '-b:v',
+        `${videoKbps}k`,
+        '-maxrate',
+        `${videoKbps}k`,
+        '-bufsize',
+        `${videoKbps * 2}k`,
+        // Keep the aspect ratio, cap the long edge at 1920 and force even dimensions for H.264.
+        '-vf',
+        "scale='if(gt(iw,ih),min(1920,trunc(iw/2)*2),-2)':'if(gt(iw,ih),-2,min(1920,trunc(ih/2)*2))'",
+        '-pix_fmt',
+        'yuv420p',
+        '-c:a',
+        'aac',
+        '-b:a',
+        `${AUDIO_BITRATE_KBPS}k`,
+        '-movflags',
+        '+faststart',
+        outputPath,
+      ],
+      FFMPEG_TIMEOUT_MS,
+    );
+
+    const buffer = await fs.readFile(outputPath);
+    if (buffer.length > MAX_VIDEO_BYTES) {
+      throw new Error(`Transcoded video is still too large (${(buffer.length / 1024 / 1024).toFixed(2)} MB)`);
+    }
+    return { buffer, trimmed };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+};
+
+// Samples evenly spaced frames and lays them out left to right, so one image describes the whole video.
+export const renderVideoFrameStrip = async (input: Buffer, durationMs: number, frameCount = 3): Promise<Buffer> => {
+  const durationSeconds = durationMs / 1000;
+  const timestamps =
+    durationSeconds > 1
+      ? Array.from({ length: frameCount }, (_, index) => (durationSeconds * (index + 1)) / (frameCount + 1))
+      : [0];
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tweets-2-bsky-frames-'));
+  const inputPath = path.join(workDir, 'input.mp4');
+
+  try {
+    await fs.writeFile(inputPath, input);
+    const frames: Array<{ buffer: Buffer; width: number; height: number }> = [];
+    for (const [index, timestamp] of timestamps.entries()) {
+      const framePath = path.join(workDir, `frame-${index}.jpg`);
+      await runFfmpeg(
+        [
+          '-hide_banner',
+          '-loglevel',
+          'error',
+          '-y',
+          '-ss',
+          timestamp.toFixed(2),
+          '-i',
+          inputPath,
+          '-frames:v',
+          '1',
+          '-vf',
+          `scale=${FRAME_WIDTH}:-2`,
+          framePath,
+        ],
+        FRAME_TIMEOUT_MS,
+      );
+      const buffer = await fs.readFile(framePath);
+      const metadata = await sharp(buffer).metadata();
+      frames.push({ buffer, width: metadata.width || FRAME_WIDTH, height: metadata.height || FRAME_WIDTH });
+    }
+
+    const width = frames.reduce((total, frame) => total + frame.width, 0);
+    const height = Math.max(...frames.map((frame) => frame.height));
+    let left = 0;
+    const composites = frames.map((frame) => {
+      const composite = { input: frame.buffer, left, top: 0 };
+      left += frame.width;
+      return composite;
+    });
+
+    return await sharp({ create: { width, height, channels: 3, background: '#000000' } })
+      .composite(composites)
+      .jpeg({ quality: 80 })
+      .toBuffer();
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+};
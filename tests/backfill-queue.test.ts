@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { dbService } from '../src/db.js';
+
+let nextRequest = 0;
+const queueJob = (mappingId = 'mapping-a') => {
+  const requestId = `request-${++nextRequest}`;
+  dbService.createBackfillJob({
+    request_id: requestId,
+    mapping_id: mappingId,
+    bsky_identifier: 'Mirror.bsky.social',
+    tweet_limit: 50,
+    queued_at: Date.now(),
+  });
+  return requestId;
+};
+
+const activeJob = (requestId: string) => dbService.getActiveBackfillJobs().find((job) => job.request_id === requestId);
+
+beforeEach(() => {
+  dbService.cancelBackfillJobs();
+});
+
+describe('backfill queue', () => {
+  test('keeps queued jobs in the order they were requested', () => {
+    const first = queueJob();
+    const second = queueJob('mapping-b');
+    const jobs = dbService.getActiveBackfillJobs();
+    expect(jobs.map((job) => job.request_id)).toEqual([first, second]);
+    expect(jobs[1]?.sequence).toBe((jobs[0]?.sequence ?? 0) + 1);
+    expect(jobs[0]).toMatchObject({ state: 'queued', bsky_identifier: 'mirror.bsky.social', tweet_limit: 50 });
+  });
+
+  test('requeues jobs that were running when the process stopped', () => {
+    const interrupted = queueJob();
+    const waiting = queueJob();
+    dbService.markBackfillJobRunning(interrupted, 40);
+    dbService.updateBackfillJobProgress(interrupted, 12, 40);
+    const startedAt = activeJob(interrupted)?.started_at;
+
+    expect(dbService.requeueInterruptedBackfillJobs()).toBe(1);
+    expect(activeJob(interrupted)).toMatchObject({ state: 'queued', processed_count: 12, total_count: 40 });
+    expect(activeJob(waiting)?.state).toBe('queued');
+    expect(dbService.getActiveBackfillJobs().map((job) => job.request_id)).toEqual([interrupted, waiting]);
+
+    dbService.markBackfillJobRunning(interrupted, 40);
+    expect(activeJob(interrupted)?.started_at).toBe(startedAt);
+    expect(dbService.requeueInterruptedBackfillJobs()).toBe(1);
+    expect(dbService.requeueInterruptedBackfillJobs()).toBe(0);
+  });
+
+  test('leaves finished and cancelled jobs alone', () => {
+    const done = queueJob();
+    const cancelled = queueJob('mapping-b');
+    dbService.markBackfillJobRunning(done, 5);
+    dbService.finishBackfillJob(done, 'done');
+    dbService.markBackfillJobRunning(cancelled, 5);
+    dbService.cancelBackfillJobs('mapping-b');
+    dbService.finishBackfillJob(cancelled, 'failed', 'too late');
+
+    expect(dbService.requeueInterruptedBackfillJobs()).toBe(0);
+    expect(dbService.getActiveBackfillJobs()).toEqual([]);
+    const history = dbService.getRecentBackfillJobs();
+    expect(history.find((job) => job.request_id === done)?.state).toBe('done');
+    expect(history.find((job) => job.request_id === cancelled)).toMatchObject({ state: 'cancelled' });
+    expect(history.find((job) => job.request_id === cancelled)?.last_error).toBeNull();
+  });
+});
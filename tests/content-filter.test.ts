@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test';
+import { normalizeContentFilterRules } from '../src/config-manager.js';
+import type { ContentFilterRule } from '../src/config-manager.js';
+import { evaluateContentFilters, extractHashtags } from '../src/content-filter.js';
+import type { ContentFilterSubject } from '../src/content-filter.js';
+
+const subject = (overrides: Partial<ContentFilterSubject> = {}): ContentFilterSubject => ({
+  text: 'Shipping the new release today #launch',
+  hashtags: ['launch'],
+  hasMedia: false,
+  hasLink: false,
+  languages: ['en'],
+  ...overrides,
+});
+
+describe('extractHashtags', () => {
+  test('collects unique lowercase tags and ignores anchors and entities', () => {
+    expect(extractHashtags('#Launch day! ＃ÉTÉ #launch see page#anchor &#39; #a_b')).toEqual(['launch', 'été', 'a_b']);
+  });
+});
+
+describe('evaluateContentFilters', () => {
+  test('allows everything without rules', () => {
+    expect(evaluateContentFilters(subject(), undefined)).toEqual({ allowed: true });
+    expect(evaluateContentFilters(subject(), [])).toEqual({ allowed: true });
+  });
+
+  test('excludes on a case-insensitive keyword match', () => {
+    const rule: ContentFilterRule = { action: 'exclude', type: 'keyword', value: 'RELEASE' };
+    expect(evaluateContentFilters(subject(), [rule])).toEqual({
+      allowed: false,
+      rule,
+      reason: 'exclude keyword "RELEASE"',
+    });
+  });
+
+  test('lets the first matching rule decide', () => {
+    const rules: ContentFilterRule[] = [
+      { action: 'include', type: 'hashtag', value: 'launch' },
+      { action: 'exclude', type: 'keyword', value: 'release' },
+    ];
+    expect(evaluateContentFilters(subject(), rules)).toMatchObject({
+      allowed: true,
+      reason: 'include hashtag #launch',
+    });
+  });
+
+  test('treats include rules as an allowlist when nothing matches', () => {
+    const rules: ContentFilterRule[] = [{ action: 'include', type: 'has_media' }];
+    expect(evaluateContentFilters(subject(), rules)).toEqual({ allowed: false, reason: 'no include rule matched' });
+    expect(evaluateContentFilters(subject({ hasMedia: true }), rules).allowed).toBe(true);
+  });
+
+  test('posts unmatched tweets when there are only exclude rules', () => {
+    const rules: ContentFilterRule[] = [{ action: 'exclude', type: 'has_link' }];
+    expect(evaluateContentFilters(subject(), rules)).toEqual({ allowed: true });
+    expect(evaluateContentFilters(subject({ hasLink: true }), rules).allowed).toBe(false);
+  });
+
+  test('matches regex, minimum length and language rules', () => {
+    const regex: ContentFilterRule = { action: 'exclude', type: 'regex', value: '^shipping\\b' };
+    const broken: ContentFilterRule = { action: 'exclude', type: 'regex', value: '(' };
+    const short: ContentFilterRule = { action: 'exclude', type: 'min_length', value: '500' };
+    const language: ContentFilterRule = { action: 'exclude', type: 'language', value: 'de, EN' };
+    expect(evaluateContentFilters(subject(), [regex]).allowed).toBe(false);
+    expect(evaluateContentFilters(subject(), [broken]).allowed).toBe(true);
+    expect(evaluateContentFilters(subject(), [short]).allowed).toBe(true);
+    expect(evaluateContentFilters(subject({ text: 'x'.repeat(500) }), [short]).allowed).toBe(false);
+    expect(evaluateContentFilters(subject(), [language]).allowed).toBe(false);
+    expect(evaluateContentFilters(subject({ languages: ['fr'] }), [language]).allowed).toBe(true);
+  });
+});
+
+describe('normalizeContentFilterRules', () => {
+  test('cleans up values and drops invalid rules', () => {
+    expect(
+      normalizeContentFilterRules([
+        { action: 'exclude', type: 'hashtag', value: '#Launch' },
+        { action: 'include', type: 'has_media', value: 'ignored' },
+        { action: 'exclude', type: 'min_length', value: 12.4 },
+        { action: 'exclude', type: 'language', value: ' EN, de,en ' },
+        { action: 'exclude', type: 'regex', value: '(' },
+        { action: 'exclude', type: 'keyword', value: '   ' },
+        { action: 'block', type: 'keyword', value: 'x' },
+        null,
+      ]),
+    ).toEqual([
+      { action: 'exclude', type: 'hashtag', value: 'launch' },
+      { action: 'include', type: 'has_media' },
+      { action: 'exclude', type: 'min_length', value: '12' },
+      { action: 'exclude', type: 'language', value: 'en,de' },
+    ]);
+  });
+});
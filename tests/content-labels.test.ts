@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'bun:test';
+import { detectContentLabels } from '../src/content-labels.js';
+
+describe('detectContentLabels', () => {
+  test('maps adult content to porn and violence to graphic media', () => {
+    expect(detectContentLabels([{ ext_sensitive_media_warning: { adult_content: true } }], true)).toEqual(['porn']);
+    expect(detectContentLabels([{ sensitive_media_warning: { graphic_violence: true } }], true)).toEqual([
+      'graphic-media',
+    ]);
+    expect(
+      detectContentLabels(
+        [
+          { ext_sensitive_media_warning: { adult_content: true } },
+          { sensitive_media_warning: { graphic_violence: true } },
+        ],
+        true,
+      ),
+    ).toEqual(['porn', 'graphic-media']);
+  });
+
+  test('labels media flagged without a specific reason as graphic media', () => {
+    expect(detectContentLabels([{}], true)).toEqual(['graphic-media']);
+    expect(detectContentLabels([{ ext_sensitive_media_warning: { other: true } }], false)).toEqual(['graphic-media']);
+  });
+
+  test('adds nothing for an unspecified flag when a specific one already applies', () => {
+    expect(detectContentLabels([{ ext_sensitive_media_warning: { adult_content: true, other: true } }], true)).toEqual([
+      'porn',
+    ]);
+  });
+
+  test('ignores the sensitive flag on tweets without media', () => {
+    expect(detectContentLabels([], true)).toEqual([]);
+    expect(detectContentLabels([{}], false)).toEqual([]);
+  });
+
+  test('adds the forced label on top, which is the only source of nudity and sexual', () => {
+    expect(detectContentLabels([], undefined, 'nudity')).toEqual(['nudity']);
+    expect(detectContentLabels([{ sensitive_media_warning: { adult_content: true } }], true, 'sexual')).toEqual([
+      'porn',
+      'sexual',
+    ]);
+    expect(detectContentLabels([{}], true, 'graphic-media')).toEqual(['graphic-media']);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, test } from 'bun:test';
+import type { BskyAgent } from '@atproto/api';
+import { findMirroredThread, listRecentPostRecords, normalizePostText } from '../src/duplicate-check.js';
+import type { FeedPostRecord } from '../src/duplicate-check.js';
+
+const TWEET_AT = Date.parse('2026-03-01T12:00:00.000Z');
+const TWEET_TEXT =
+  'Our new release is out today with faster imports, better threading and a lot of fixes for long posts.';
+
+const record = (uri: string, createdAtMs: number, text: string, reply?: { root: string; parent: string }) =>
+  ({
+    uri,
+    cid: `cid-${uri}`,
+    createdAtMs,
+    text,
+    replyRoot: reply ? { uri: reply.root, cid: `cid-${reply.root}` } : undefined,
+    replyParentUri: reply?.parent,
+  }) satisfies FeedPostRecord;
+
+describe('normalizePostText', () => {
+  test('drops links, entities, thread labels, case and punctuation', () => {
+    expect(normalizePostText('Read THIS: https://example.com/a?b=c &amp; more! (2/3)')).toBe('read this more');
+  });
+});
+
+describe('findMirroredThread', () => {
+  test('matches a post stamped with the tweet time', () => {
+    const match = findMirroredThread([record('at://post/1', TWEET_AT + 3, `${TWEET_TEXT} 🐦 source`)], {
+      createdAtMs: TWEET_AT,
+      text: TWEET_TEXT,
+    });
+    expect(match).toMatchObject({ uri: 'at://post/1', chunkCount: 1, root: { uri: 'at://post/1' } });
+  });
+
+  test('ignores posts outside the timestamp window or with other text', () => {
+    const records = [
+      record('at://post/early', TWEET_AT - 1000, TWEET_TEXT),
+      record('at://post/late', TWEET_AT + 60_000, TWEET_TEXT),
+      record('at://post/other', TWEET_AT, 'Something else entirely that was posted in the same second.'),
+    ];
+    expect(findMirroredThread(records, { createdAtMs: TWEET_AT, text: TWEET_TEXT })).toBeNull();
+  });
+
+  test('follows the chunk chain to the tail of a split thread', () => {
+    const records = [
+      record('at://post/1', TWEET_AT, `${TWEET_TEXT.slice(0, 60)} (1/3)`),
+      record('at://post/2', TWEET_AT + 1000, `${TWEET_TEXT.slice(60)} (2/3)`, {
+        root: 'at://post/1',
+        parent: 'at://post/1',
+      }),
+      record('at://post/3', TWEET_AT + 2000, 'and the last part (3/3)', { root: 'at://post/1', parent: 'at://post/2' }),
+    ];
+    const match = findMirroredThread(records, { createdAtMs: TWEET_AT, text: TWEET_TEXT });
+    expect(match).toMatchObject({ uri: 'at://post/1', tail: { uri: 'at://post/3' }, chunkCount: 3 });
+  });
+
+  test('keeps the thread root of a mirrored reply', () => {
+    const records = [record('at://post/2', TWEET_AT, TWEET_TEXT, { root: 'at://post/root', parent: 'at://post/root' })];
+    const match = findMirroredThread(records, { createdAtMs: TWEET_AT, text: TWEET_TEXT });
+    expect(match?.root.uri).toBe('at://post/root');
+  });
+
+  test('only matches rewritten posts when given the rewritten text', () => {
+    const posted = `Replying to @someone\n\n[news] ${TWEET_TEXT}`;
+    const records = [record('at://post/1', TWEET_AT, posted)];
+    const rawTweet = `@someone ${TWEET_TEXT}`;
+    expect(findMirroredThread(records, { createdAtMs: TWEET_AT, text: rawTweet })).toBeNull();
+    expect(findMirroredThread(records, { createdAtMs: TWEET_AT, text: posted })?.uri).toBe('at://post/1');
+  });
+});
+
+describe('listRecentPostRecords', () => {
+  test('pages through post records and skips ones without a valid date', async () => {
+    const pages = [
+      {
+        records: [
+          { uri: 'at://post/1', cid: 'a', value: { text: 'one', createdAt: '2026-03-01T12:00:00.000Z' } },
+          { uri: 'at://post/2', cid: 'b', value: { text: 'no date' } },
+        ],
+        cursor: 'next',
+      },
+      {
+        records: [
+          {
+            uri: 'at://post/3',
+            cid: 'c',
+            value: {
+              text: 'three',
+              createdAt: '2026-03-01T12:00:01.000Z',
+              reply: { root: { uri: 'at://post/1', cid: 'a' }, parent: { uri: 'at://post/1', cid: 'a' } },
+            },
+          },
+        ],
+      },
+    ];
+    const cursors: Array<string | undefined> = [];
+    const agent = {
+      session: { did: 'did:plc:test' },
+      com: {
+        atproto: {
+          repo: {
+            listRecords: async (params: { cursor?: string }) => {
+              cursors.push(params.cursor);
+              return { data: pages[cursors.length - 1] };
+            },
+          },
+        },
+      },
+    } as unknown as BskyAgent;
+
+    const records = await listRecentPostRecords(agent, 10);
+    expect(cursors).toEqual([undefined, 'next']);
+    expect(records.map((entry) => entry.uri)).toEqual(['at://post/1', 'at://post/3']);
+    expect(records[1]).toMatchObject({ replyParentUri: 'at://post/1', replyRoot: { uri: 'at://post/1' } });
+  });
+
+  test('requires a session', async () => {
+    await expect(listRecentPostRecords({} as BskyAgent, 10)).rejects.toThrow('active session');
+  });
+});
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { dbService } from '../src/db.js';
+import { buildPostUrl, rewriteTwitterLinks } from '../src/link-rewriter.js';
+
+const mirror = (twitterId: string, bskyIdentifier: string, bskyUri: string, status: 'migrated' | 'deleted') =>
+  dbService.saveTweet({
+    twitter_id: twitterId,
+    twitter_username: 'example',
+    bsky_identifier: bskyIdentifier,
+    bsky_uri: bskyUri,
+    status,
+  });
+
+beforeEach(() => {
+  dbService.clearAll();
+});
+
+describe('buildPostUrl', () => {
+  test('uses the record key of the post URI', () => {
+    expect(buildPostUrl('mirror.bsky.social', 'at://did:plc:abc/app.bsky.feed.post/3kxyz')).toBe(
+      'https://bsky.app/profile/mirror.bsky.social/post/3kxyz',
+    );
+    expect(buildPostUrl('mirror.bsky.social')).toBeUndefined();
+  });
+});
+
+describe('rewriteTwitterLinks', () => {
+  test('points links to mirrored tweets at the Bluesky post and keeps trailing punctuation', () => {
+    mirror('111', 'mirror.bsky.social', 'at://did:plc:abc/app.bsky.feed.post/3kaaa', 'migrated');
+    expect(rewriteTwitterLinks('See https://x.com/example/status/111?s=20.', 'xcancel.com')).toBe(
+      'See https://bsky.app/profile/mirror.bsky.social/post/3kaaa.',
+    );
+    expect(rewriteTwitterLinks('(https://mobile.twitter.com/i/web/status/111)')).toBe(
+      '(https://bsky.app/profile/mirror.bsky.social/post/3kaaa)',
+    );
+  });
+
+  test('uses the DID for accounts that are mapped by login email', () => {
+    mirror('222', 'owner@example.com', 'at://did:plc:xyz/app.bsky.feed.post/3kbbb', 'migrated');
+    expect(rewriteTwitterLinks('https://twitter.com/example/status/222')).toBe(
+      'https://bsky.app/profile/did:plc:xyz/post/3kbbb',
+    );
+  });
+
+  test('moves other Twitter links to the front-end domain when one is set', () => {
+    mirror('333', 'mirror.bsky.social', 'at://did:plc:abc/app.bsky.feed.post/3kccc', 'deleted');
+    const text = 'https://x.com/example/status/333 and https://www.twitter.com/example';
+    expect(rewriteTwitterLinks(text, 'xcancel.com')).toBe(
+      'https://xcancel.com/example/status/333 and https://xcancel.com/example',
+    );
+    expect(rewriteTwitterLinks(text)).toBe(text);
+  });
+
+  test('leaves other domains alone', () => {
+    const text = 'https://example.com/status/111 https://notx.com/example';
+    expect(rewriteTwitterLinks(text, 'xcancel.com')).toBe(text);
+  });
+});
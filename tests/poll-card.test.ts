@@ -0,0 +1,117 @@
+import { describe, expect, test } from 'bun:test';
+import { buildPollResultsReply, formatPollText, isPollClosed, parsePollCard } from '../src/poll-card.js';
+import type { TweetPoll } from '../src/poll-card.js';
+
+const ENDS_AT = Date.parse('2026-03-01T12:00:00Z');
+
+const poll = (overrides: Partial<TweetPoll> = {}): TweetPoll => ({
+  choices: [
+    { label: 'Tabs', votes: 75 },
+    { label: 'Spaces', votes: 25 },
+  ],
+  endsAt: ENDS_AT,
+  countsAreFinal: false,
+  totalVotes: 100,
+  ...overrides,
+});
+
+describe('parsePollCard', () => {
+  test('reads choices, counts and the end date from card bindings', () => {
+    const parsed = parsePollCard('poll3choice_text_only', {
+      choice1_label: { string_value: ' Tabs ' },
+      choice1_count: { string_value: '75' },
+      choice2_label: { string_value: 'Spaces' },
+      choice2_count: { string_value: 'n/a' },
+      choice3_label: { string_value: '' },
+      end_datetime_utc: { string_value: '2026-03-01T12:00:00Z' },
+      counts_are_final: { boolean_value: true },
+    });
+    expect(parsed).toEqual({
+      choices: [
+        { label: 'Tabs', votes: 75 },
+        { label: 'Spaces', votes: 0 },
+      ],
+      endsAt: ENDS_AT,
+      countsAreFinal: true,
+      totalVotes: 75,
+    });
+  });
+
+  test('ignores other cards and polls with fewer than two choices', () => {
+    expect(parsePollCard('summary_large_image', {})).toBeNull();
+    expect(parsePollCard(undefined, {})).toBeNull();
+    expect(parsePollCard('poll2choice_text_only', { choice1_label: { string_value: 'Only' } })).toBeNull();
+  });
+
+  test('leaves the end date out when it cannot be parsed', () => {
+    const parsed = parsePollCard('poll2choice_image', {
+      choice1_label: { string_value: 'A' },
+      choice2_label: { string_value: 'B' },
+    });
+    expect(parsed).not.toHaveProperty('endsAt');
+    expect(parsed?.countsAreFinal).toBe(false);
+  });
+});
+
+describe('isPollClosed', () => {
+  test('closes on final counts or once the end date has passed', () => {
+    expect(isPollClosed(poll(), ENDS_AT - 1)).toBe(false);
+    expect(isPollClosed(poll(), ENDS_AT)).toBe(true);
+    expect(isPollClosed(poll({ countsAreFinal: true }), ENDS_AT - 1)).toBe(true);
+    expect(isPollClosed(poll({ endsAt: undefined }), ENDS_AT)).toBe(false);
+  });
+});
+
+describe('formatPollText', () => {
+  test('shows bars, percentages and when an open poll ends', () => {
+    const lines = [
+      '📊 Poll · 100 votes so far · ends 1 Mar 2026, 12:00 UTC',
+      '▓▓▓▓▓▓░░ 75% Tabs',
+      '▓▓░░░░░░ 25% Spaces',
+    ];
+    expect(formatPollText(poll(), ENDS_AT - 1000)).toBe(lines.join('\n'));
+  });
+
+  test('labels closed polls as final and handles polls without votes', () => {
+    const empty = poll({
+      choices: [
+        { label: 'A', votes: 0 },
+        { label: 'B', votes: 0 },
+      ],
+      totalVotes: 0,
+      countsAreFinal: true,
+    });
+    expect(formatPollText(empty)).toBe(['📊 Final results · 0 votes', '░░░░░░░░ 0% A', '░░░░░░░░ 0% B'].join('\n'));
+  });
+});
+
+describe('buildPollResultsReply', () => {
+  const row = {
+    twitter_id: '100',
+    twitter_username: 'example',
+    bsky_identifier: 'mirror.bsky.social',
+    bsky_uri: 'at://did:plc:abc/app.bsky.feed.post/1',
+    bsky_cid: 'c1',
+    status: 'migrated' as const,
+  };
+
+  test('continues a multi-post thread from its last post', () => {
+    const reply = buildPollResultsReply({
+      ...row,
+      bsky_root_uri: 'at://did:plc:abc/app.bsky.feed.post/1',
+      bsky_root_cid: 'c1',
+      bsky_tail_uri: 'at://did:plc:abc/app.bsky.feed.post/3',
+      bsky_tail_cid: 'c3',
+    });
+    expect(reply).toEqual({
+      root: { uri: 'at://did:plc:abc/app.bsky.feed.post/1', cid: 'c1' },
+      parent: { uri: 'at://did:plc:abc/app.bsky.feed.post/3', cid: 'c3' },
+    });
+  });
+
+  test('replies to the post itself when no tail was stored', () => {
+    const first = { uri: 'at://did:plc:abc/app.bsky.feed.post/1', cid: 'c1' };
+    expect(buildPollResultsReply(row)).toEqual({ root: first, parent: first });
+    expect(buildPollResultsReply({ ...row, bsky_uri: undefined })).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { dbService } from '../src/db.js';
+import {
+  MAX_POST_FAILURE_ATTEMPTS,
+  getPostRetryDelayMs,
+  giveUpPostFailure,
+  recordPostDeferral,
+  recordPostFailure,
+  retryPostFailureNow,
+} from '../src/post-failures.js';
+
+const ACCOUNT = 'mirror.bsky.social';
+const failure = (twitterId = '100') => ({
+  twitterId,
+  twitterUsername: 'example',
+  bskyIdentifier: ACCOUNT,
+  stage: 'post',
+  error: 'upstream 502',
+});
+
+beforeEach(() => {
+  dbService.clearAll();
+});
+
+describe('getPostRetryDelayMs', () => {
+  test('doubles from two minutes and caps at six hours', () => {
+    expect(getPostRetryDelayMs(1)).toBe(2 * 60 * 1000);
+    expect(getPostRetryDelayMs(2)).toBe(4 * 60 * 1000);
+    expect(getPostRetryDelayMs(4)).toBe(16 * 60 * 1000);
+    expect(getPostRetryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+  });
+});
+
+describe('recordPostFailure', () => {
+  test('counts attempts and schedules the next retry with backoff', () => {
+    const first = recordPostFailure({ ...failure(), tweetJson: '{"id":"100"}' });
+    expect(first).toMatchObject({ attempts: 1, state: 'pending', tweet_json: '{"id":"100"}' });
+    expect(first.next_attempt_at).toBe(first.last_failed_at + getPostRetryDelayMs(1));
+
+    const second = recordPostFailure(failure());
+    expect(second).toMatchObject({ attempts: 2, state: 'pending', tweet_json: '{"id":"100"}' });
+    expect(second.first_failed_at).toBe(first.first_failed_at);
+    expect(second.next_attempt_at).toBe(second.last_failed_at + getPostRetryDelayMs(2));
+  });
+
+  test('gives up after the last attempt and marks the tweet skipped', () => {
+    dbService.saveTweet({ twitter_id: '100', twitter_username: 'example', bsky_identifier: ACCOUNT, status: 'failed' });
+    let latest = recordPostFailure(failure());
+    for (let attempt = 1; attempt < MAX_POST_FAILURE_ATTEMPTS; attempt++) {
+      latest = recordPostFailure(failure());
+    }
+    expect(latest).toMatchObject({ attempts: MAX_POST_FAILURE_ATTEMPTS, state: 'gave_up' });
+    expect(latest.next_attempt_at).toBeUndefined();
+    expect(dbService.getTweet('100', ACCOUNT)).toMatchObject({
+      status: 'skipped',
+      skip_reason: `gave up after ${MAX_POST_FAILURE_ATTEMPTS} attempt(s) at post`,
+    });
+    expect(dbService.getDuePostFailures(ACCOUNT, Date.now() + 1e9)).toEqual([]);
+  });
+});
+
+describe('recordPostDeferral', () => {
+  test('waits without using up attempts and stays out of the failure list', () => {
+    recordPostFailure(failure());
+    const deferred = recordPostDeferral({
+      twitterId: '100',
+      twitterUsername: 'example',
+      bskyIdentifier: ACCOUNT,
+      stage: 'quote',
+      reason: 'waiting for quoted tweet 99',
+    });
+    expect(deferred).toMatchObject({ attempts: 1, state: 'deferred', error: 'waiting for quoted tweet 99' });
+    expect(deferred.next_attempt_at).toBeGreaterThan(deferred.last_failed_at);
+    expect(dbService.getPostFailures()).toEqual([]);
+    expect(dbService.getDuePostFailures(ACCOUNT, deferred.next_attempt_at ?? 0)).toHaveLength(1);
+  });
+
+  test('never gives up however often it waits', () => {
+    for (let attempt = 0; attempt < MAX_POST_FAILURE_ATTEMPTS + 2; attempt++) {
+      recordPostDeferral({
+        twitterId: '100',
+        twitterUsername: 'example',
+        bskyIdentifier: ACCOUNT,
+        stage: 'parent',
+        reason: 'waiting for parent tweet',
+      });
+    }
+    expect(dbService.getPostFailure('100', ACCOUNT)).toMatchObject({ attempts: 0, state: 'deferred' });
+  });
+});
+
+describe('retryPostFailureNow and giveUpPostFailure', () => {
+  test('reschedule or abandon an existing failure', () => {
+    recordPostFailure(failure());
+    const retried = retryPostFailureNow('100', ACCOUNT);
+    expect(retried?.state).toBe('pending');
+    expect(dbService.getDuePostFailures(ACCOUNT, Date.now())).toHaveLength(1);
+
+    expect(giveUpPostFailure('100', ACCOUNT)).toMatchObject({ state: 'gave_up', next_attempt_at: undefined });
+    expect(dbService.getDuePostFailures(ACCOUNT, Date.now() + 1e9)).toEqual([]);
+  });
+
+  test('return null for unknown tweets', () => {
+    expect(retryPostFailureNow('404', ACCOUNT)).toBeNull();
+    expect(giveUpPostFailure('404', ACCOUNT)).toBeNull();
+  });
+
+  test('leave migrated tweets alone when giving up', () => {
+    dbService.saveTweet({
+      twitter_id: '100',
+      twitter_username: 'example',
+      bsky_identifier: ACCOUNT,
+      bsky_uri: 'at://post/1',
+      status: 'migrated',
+    });
+    recordPostFailure(failure());
+    giveUpPostFailure('100', ACCOUNT);
+    expect(dbService.getTweet('100', ACCOUNT)?.status).toBe('migrated');
+  });
+});
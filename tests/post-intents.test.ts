@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import type { BskyAgent } from '@atproto/api';
+import { dbService } from '../src/db.js';
+import {
+  beginPostIntent,
+  getPostedChunks,
+  markChunkPending,
+  markChunkPosted,
+  reconcilePostIntent,
+  rollBackPostIntent,
+} from '../src/post-intents.js';
+
+const ACCOUNT = 'mirror.bsky.social';
+const REPO = 'did:plc:mirror';
+const CREATED_AT = '2026-03-01T12:00:01.000Z';
+const postUri = (rkey: string) => `at://${REPO}/app.bsky.feed.post/${rkey}`;
+
+interface FakeRecord {
+  uri: string;
+  cid: string;
+  value: Record<string, unknown>;
+}
+
+const fakeAgent = (records: FakeRecord[]) => {
+  const deleted: string[] = [];
+  let listCalls = 0;
+  const agent = {
+    session: { did: REPO },
+    com: {
+      atproto: {
+        repo: {
+          listRecords: async () => {
+            listCalls++;
+            return { data: { records } };
+          },
+          getRecord: async ({ rkey }: { rkey: string }) => {
+            const record = records.find((entry) => entry.uri === postUri(rkey));
+            if (!record) throw new Error('not found');
+            return { data: record };
+          },
+          deleteRecord: async ({ rkey }: { rkey: string }) => {
+            deleted.push(postUri(rkey));
+          },
+        },
+      },
+    },
+  } as unknown as BskyAgent;
+  return { agent, deleted, listCalls: () => listCalls };
+};
+
+const startThread = () =>
+  beginPostIntent({ twitterId: '100', twitterUsername: 'example', bskyIdentifier: ACCOUNT, chunks: ['one', 'two'] });
+
+beforeEach(() => {
+  dbService.clearAll();
+});
+
+describe('reconcilePostIntent', () => {
+  test('adopts a chunk that landed before the crash was recorded', async () => {
+    const pending = markChunkPending(startThread(), CREATED_AT, 'one');
+    const { agent } = fakeAgent([
+      { uri: postUri('other'), cid: 'x', value: { text: 'one', createdAt: '2026-03-01T12:00:00.000Z' } },
+      {
+        uri: postUri('1'),
+        cid: 'c1',
+        value: { text: 'one', createdAt: CREATED_AT, reply: { root: { uri: postUri('root'), cid: 'r' } } },
+      },
+    ]);
+
+    const reconciled = await reconcilePostIntent(agent, pending);
+    expect(getPostedChunks(reconciled)).toEqual([{ uri: postUri('1'), cid: 'c1' }]);
+    expect(reconciled).toMatchObject({ root_uri: postUri('root'), root_cid: 'r' });
+
+    const stored = dbService.getPostIntent('100', ACCOUNT);
+    expect(stored?.pending_created_at).toBeNull();
+    expect(stored?.posted_json).toBe(reconciled.posted_json);
+  });
+
+  test('clears the pending chunk when it never reached Bluesky', async () => {
+    const posted = markChunkPosted(startThread(), { uri: postUri('1'), cid: 'c1' });
+    const pending = markChunkPending(posted, CREATED_AT, 'two');
+    const { agent } = fakeAgent([{ uri: postUri('1'), cid: 'c1', value: { text: 'one', createdAt: CREATED_AT } }]);
+
+    const reconciled = await reconcilePostIntent(agent, pending);
+    expect(getPostedChunks(reconciled)).toEqual([{ uri: postUri('1'), cid: 'c1' }]);
+    expect(reconciled.pending_created_at).toBeUndefined();
+    expect(reconciled).toMatchObject({ root_uri: postUri('1'), root_cid: 'c1' });
+  });
+
+  test('skips the lookup when nothing was in flight', async () => {
+    const intent = startThread();
+    const { agent, listCalls } = fakeAgent([]);
+    expect(await reconcilePostIntent(agent, intent)).toBe(intent);
+    expect(listCalls()).toBe(0);
+  });
+
+  test('requires a session to look up records', async () => {
+    const pending = markChunkPending(startThread(), CREATED_AT, 'one');
+    await expect(reconcilePostIntent({} as BskyAgent, pending)).rejects.toThrow('Bluesky session');
+  });
+});
+
+describe('rollBackPostIntent', () => {
+  test('deletes the posted chunks from the tail up and forgets the intent', async () => {
+    let intent = markChunkPosted(startThread(), { uri: postUri('1'), cid: 'c1' });
+    intent = markChunkPending(intent, CREATED_AT, 'two');
+    const { agent, deleted } = fakeAgent([
+      { uri: postUri('1'), cid: 'c1', value: { text: 'one', createdAt: '2026-03-01T12:00:00.000Z' } },
+      {
+        uri: postUri('2'),
+        cid: 'c2',
+        value: {
+          text: 'two',
+          createdAt: CREATED_AT,
+          reply: { root: { uri: postUri('1'), cid: 'c1' }, parent: { uri: postUri('1'), cid: 'c1' } },
+        },
+      },
+    ]);
+
+    expect(await rollBackPostIntent(agent, intent)).toBe(2);
+    expect(deleted).toEqual([postUri('2'), postUri('1')]);
+    expect(dbService.getPostIntent('100', ACCOUNT)).toBeNull();
+  });
+});
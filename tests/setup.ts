@@ -0,0 +1,6 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Modules that use the database open it on import; keep test runs away from the real data directory.
+process.env.TWEETS2BSKY_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'tweets2bsky-test-'));
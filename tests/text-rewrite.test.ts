@@ -0,0 +1,121 @@
+import { describe, expect, test } from 'bun:test';
+import { normalizeTextRewriteRules, normalizeTextTemplate } from '../src/config-manager.js';
+import {
+  applyTextRewriteRules,
+  describeTextRewriteRule,
+  formatTemplateDate,
+  renderTextTemplate,
+  transformTweetText,
+} from '../src/text-rewrite.js';
+
+const variables = {
+  author: 'Example News',
+  username: 'examplenews',
+  date: '2026-03-01',
+  url: 'https://x.com/examplenews/status/1',
+};
+
+describe('applyTextRewriteRules', () => {
+  test('replaces every literal match and runs rules in order', () => {
+    const rules = [
+      { type: 'replace' as const, find: 'cat', replace: 'dog' },
+      { type: 'replace' as const, find: 'dog', replace: 'fox' },
+    ];
+    expect(applyTextRewriteRules('cat and cat', rules)).toBe('fox and fox');
+  });
+
+  test('treats replace patterns literally', () => {
+    expect(applyTextRewriteRules('a.b.c', [{ type: 'replace', find: '.', replace: '-' }])).toBe('a-b-c');
+  });
+
+  test('supports regex capture groups case-insensitively', () => {
+    const rules = [{ type: 'regex' as const, find: 'via @(\\w+)', replace: '(from $1)' }];
+    expect(applyTextRewriteRules('News VIA @someone', rules)).toBe('News (from someone)');
+  });
+
+  test('skips an invalid regex instead of throwing', () => {
+    const rules = [
+      { type: 'regex' as const, find: '(', replace: 'x' },
+      { type: 'replace' as const, find: 'b', replace: 'c' },
+    ];
+    expect(applyTextRewriteRules('ab', rules)).toBe('ac');
+  });
+
+  test('leaves text alone without rules', () => {
+    expect(applyTextRewriteRules('unchanged', undefined)).toBe('unchanged');
+  });
+});
+
+describe('renderTextTemplate', () => {
+  test('fills known placeholders and line breaks and keeps unknown ones', () => {
+    expect(renderTextTemplate('📰 {author} (@{username}) {date}\\n{url} {other}', variables)).toBe(
+      '📰 Example News (@examplenews) 2026-03-01\nhttps://x.com/examplenews/status/1 {other}',
+    );
+  });
+});
+
+describe('transformTweetText', () => {
+  test('wraps the rewritten text in the prefix and suffix', () => {
+    const text = transformTweetText('Hello   world', {
+      rules: [{ type: 'replace', find: '   ', replace: ' ' }],
+      prefix: '{author}: ',
+      suffix: '\\n\\n{url}',
+      variables,
+    });
+    expect(text).toBe('Example News: Hello world\n\nhttps://x.com/examplenews/status/1');
+  });
+
+  test('collapses blank lines left by removed text and trims the result', () => {
+    const rules = [{ type: 'regex' as const, find: '#ad\\b', replace: '' }];
+    expect(transformTweetText('  first\n\n#ad\n\nsecond  ', { rules, variables })).toBe('first\n\nsecond');
+  });
+});
+
+describe('formatTemplateDate', () => {
+  test('formats tweet dates in UTC', () => {
+    expect(formatTemplateDate('Sun Mar 01 23:30:00 -0500 2026')).toBe('2026-03-02');
+  });
+
+  test('falls back to today for missing or invalid dates', () => {
+    const today = new Date().toISOString().slice(0, 10);
+    expect(formatTemplateDate()).toBe(today);
+    expect(formatTemplateDate('not a date')).toBe(today);
+  });
+});
+
+describe('describeTextRewriteRule', () => {
+  test('labels literal and regex rules', () => {
+    expect(describeTextRewriteRule({ type: 'replace', find: 'a', replace: 'b' })).toBe('"a" → "b"');
+    expect(describeTextRewriteRule({ type: 'regex', find: '\\d+', replace: '' })).toBe('regex /\\d+/ → nothing');
+  });
+});
+
+describe('normalizeTextRewriteRules', () => {
+  test('drops malformed rules and invalid patterns', () => {
+    expect(
+      normalizeTextRewriteRules([
+        { type: 'replace', find: 'a', replace: ' b ' },
+        { type: 'regex', find: '(' },
+        { type: 'replace', find: '' },
+        { type: 'other', find: 'x' },
+        'nope',
+        { type: 'regex', find: '\\s+' },
+      ]),
+    ).toEqual([
+      { type: 'replace', find: 'a', replace: ' b ' },
+      { type: 'regex', find: '\\s+', replace: '' },
+    ]);
+  });
+
+  test('returns no rules for non-array input', () => {
+    expect(normalizeTextRewriteRules({ type: 'replace' })).toEqual([]);
+  });
+});
+
+describe('normalizeTextTemplate', () => {
+  test('keeps spacing and drops blank templates', () => {
+    expect(normalizeTextTemplate('📰 {author}: ')).toBe('📰 {author}: ');
+    expect(normalizeTextTemplate('   ')).toBeUndefined();
+    expect(normalizeTextTemplate(3)).toBeUndefined();
+  });
+});
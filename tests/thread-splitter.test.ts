@@ -0,0 +1,126 @@
+import { describe, expect, test } from 'bun:test';
+import type { ThreadNumberingStyle } from '../src/config-manager.js';
+import {
+  POST_GRAPHEME_LIMIT,
+  countGraphemes,
+  formatThreadLabel,
+  splitText,
+  truncateText,
+} from '../src/thread-splitter.js';
+
+const NUMBERING_STYLES: ThreadNumberingStyle[] = ['none', 'fraction', 'thread-emoji', 'ellipsis'];
+
+const sentence = (index: number) =>
+  `Sentence number ${index} talks about https://example.com/page/${index} and #tag${index}.`;
+const longText = (sentences: number) => Array.from({ length: sentences }, (_, index) => sentence(index)).join(' ');
+// Short words with no punctuation fill every chunk right up to its budget.
+const denseText = (words: number) => Array.from({ length: words }, (_, index) => `w${index % 10}`).join(' ');
+
+describe('countGraphemes', () => {
+  test('counts emoji sequences and combining marks once', () => {
+    expect(countGraphemes('👩‍👩‍👧‍👦')).toBe(1);
+    expect(countGraphemes('é')).toBe(1);
+    expect(countGraphemes('abc')).toBe(3);
+  });
+});
+
+describe('formatThreadLabel', () => {
+  test('formats each style', () => {
+    expect(formatThreadLabel('fraction', 1, 3)).toBe(' (1/3)');
+    expect(formatThreadLabel('thread-emoji', 2, 3)).toBe(' 🧵 2/3');
+    expect(formatThreadLabel('ellipsis', 1, 3)).toBe(' …');
+    expect(formatThreadLabel('ellipsis', 3, 3)).toBe('');
+    expect(formatThreadLabel('none', 1, 3)).toBe('');
+  });
+
+  test('single posts carry no label', () => {
+    expect(formatThreadLabel('fraction', 1, 1)).toBe('');
+  });
+});
+
+describe('splitText', () => {
+  test('keeps short text as a single unlabeled post', () => {
+    expect(splitText('Hello world', 'fraction')).toEqual(['Hello world']);
+  });
+
+  for (const numbering of NUMBERING_STYLES) {
+    for (const limit of [POST_GRAPHEME_LIMIT, 290, 120]) {
+      test(`keeps every ${numbering} chunk within ${limit} graphemes`, () => {
+        for (const text of [longText(6), longText(40), denseText(200), denseText(1000)]) {
+          const chunks = splitText(text, numbering, limit);
+          expect(chunks.length).toBeGreaterThan(1);
+          for (const chunk of chunks) {
+            expect(countGraphemes(chunk)).toBeLessThanOrEqual(limit);
+          }
+        }
+      });
+    }
+  }
+
+  test('labels chunks in order', () => {
+    const chunks = splitText(longText(12), 'fraction');
+    chunks.forEach((chunk, index) => {
+      expect(chunk.endsWith(`(${index + 1}/${chunks.length})`)).toBe(true);
+    });
+  });
+
+  test('never splits inside a link', () => {
+    const chunks = splitText(longText(20), 'none', 100);
+    const links = chunks.flatMap((chunk) => chunk.match(/https?:\/\/\S+/g) ?? []);
+    for (const link of links) {
+      expect(link).toMatch(/^https:\/\/example\.com\/page\/\d+$/);
+    }
+  });
+});
+
+describe('splitText reserve', () => {
+  const SUFFIX = 11;
+
+  for (const [position, reserve] of [
+    ['first', { first: SUFFIX }],
+    ['last', { last: SUFFIX }],
+  ] as const) {
+    test(`keeps room on the ${position} chunk only`, () => {
+      for (const numbering of NUMBERING_STYLES) {
+        for (const text of [longText(12), denseText(400)]) {
+          const chunks = splitText(text, numbering, POST_GRAPHEME_LIMIT, reserve);
+          const labelled = position === 'first' ? 0 : chunks.length - 1;
+          chunks.forEach((chunk, index) => {
+            const budget = index === labelled ? POST_GRAPHEME_LIMIT - SUFFIX : POST_GRAPHEME_LIMIT;
+            expect(countGraphemes(chunk)).toBeLessThanOrEqual(budget);
+          });
+        }
+      }
+    });
+  }
+
+  test('does not add a chunk when only one post carries the reserve', () => {
+    const text = denseText(480);
+    const plain = splitText(text, 'fraction');
+    const everyPost = splitText(text, 'fraction', POST_GRAPHEME_LIMIT - SUFFIX);
+    expect(splitText(text, 'fraction', POST_GRAPHEME_LIMIT, { first: SUFFIX })).toHaveLength(plain.length);
+    expect(everyPost.length).toBeGreaterThan(plain.length);
+  });
+
+  test('splits text that only overflows because of the reserve', () => {
+    const text = denseText(99);
+    expect(countGraphemes(text)).toBeLessThanOrEqual(POST_GRAPHEME_LIMIT);
+    expect(countGraphemes(text)).toBeGreaterThan(POST_GRAPHEME_LIMIT - SUFFIX);
+    const chunks = splitText(text, 'none', POST_GRAPHEME_LIMIT, { last: SUFFIX });
+    expect(chunks).toHaveLength(2);
+    expect(countGraphemes(chunks[1] ?? '')).toBeLessThanOrEqual(POST_GRAPHEME_LIMIT - SUFFIX);
+  });
+});
+
+describe('truncateText', () => {
+  test('returns short text with the suffix untouched', () => {
+    expect(truncateText('Short', '\n\nhttps://x.test')).toBe('Short\n\nhttps://x.test');
+  });
+
+  test('cuts long text to fit with the suffix', () => {
+    const suffix = '\n\nhttps://twitter.com/user/status/1';
+    const truncated = truncateText(longText(20), suffix);
+    expect(countGraphemes(truncated)).toBeLessThanOrEqual(POST_GRAPHEME_LIMIT);
+    expect(truncated.endsWith(suffix)).toBe(true);
+  });
+});
@@ -1,6 +1,8 @@
 import axios from 'axios';
 import {
+  AlertTriangle,
   ArrowUpRight,
+  AtSign,
   Bot,
   ChevronDown,
   ChevronLeft,
@@ -42,14 +44,40 @@ import { cn } from './lib/utils';
 
 type ThemeMode = 'system' | 'light' | 'dark';
 type AuthView = 'login' | 'register';
-type DashboardTab = 'overview' | 'accounts' | 'posts' | 'activity' | 'settings';
-type SettingsSection = 'account' | 'users' | 'twitter' | 'ai' | 'data';
+type DashboardTab = 'overview' | 'accounts' | 'posts' | 'activity' | 'failures' | 'settings';
+type SettingsSection = 'account' | 'users' | 'twitter' | 'ai' | 'mentions' | 'data';
 type BulkAccountsAction =
   | 'sync_profiles'
   | 'pull_twitter_bio'
   | 'bridge_all'
   | 'apply_bot_label'
-  | 'append_bot_name';
+  | 'append_bot_name'
+  | 'apply_interaction_gate';
+
+type RetweetPolicy = 'skip' | 'repost' | 'attributed';
+type EditSyncMode = 'off' | 'update' | 'repost';
+type ThreadNumberingStyle = 'none' | 'fraction' | 'thread-emoji' | 'ellipsis';
+type OverflowStrategy = 'thread' | 'image' | 'truncate';
+type PollStyle = 'text' | 'image';
+type AttributionStyle = 'none' | 'compact' | 'last-chunk' | 'tags';
+type ContentLabel = 'graphic-media' | 'nudity' | 'sexual' | 'porn';
+type ReplyGate = 'everyone' | 'nobody' | 'followers' | 'following' | 'mentioned' | 'list';
+type TextRewriteType = 'replace' | 'regex';
+type ContentFilterAction = 'include' | 'exclude';
+type ContentFilterType = 'keyword' | 'regex' | 'hashtag' | 'has_media' | 'has_link' | 'min_length' | 'language';
+
+interface InteractionGateSettings {
+  replies: ReplyGate;
+  replyListUri?: string;
+  allowQuotes: boolean;
+}
+
+interface DeletionSyncSettings {
+  enabled: boolean;
+  reportOnly: boolean;
+  windowSize: number;
+  maxDeletesPerPass: number;
+}
 
 type AppState = 'idle' | 'checking' | 'backfilling' | 'pacing' | 'processing';
 
@@ -72,6 +100,25 @@ interface AccountMapping {
   lastMirroredAvatarUrl?: string;
   lastMirroredBannerUrl?: string;
   hasBotLabel?: boolean;
+  contentFilters?: ContentFilterRule[];
+  textRewrites?: TextRewriteRule[];
+  textPrefix?: string;
+  textSuffix?: string;
+  retweetPolicy?: RetweetPolicy;
+  postExternalReplies?: boolean;
+  editSyncMode?: EditSyncMode;
+  deletionSync?: DeletionSyncSettings;
+  threadNumbering?: ThreadNumberingStyle;
+  overflowStrategy?: OverflowStrategy;
+  postMediaFollowUps?: boolean;
+  trimLongVideos?: boolean;
+  quoteWaitMinutes?: number;
+  twitterLinkFrontend?: string;
+  pollStyle?: PollStyle;
+  pollResultsFollowUp?: boolean;
+  forceContentLabel?: ContentLabel;
+  interactionGate?: InteractionGateSettings;
+  attributionStyle?: AttributionStyle;
   createdByUser?: {
     id: string;
     username?: string;
@@ -99,16 +146,37 @@ interface AIConfig {
   baseUrl?: string;
 }
 
+interface HandleDirectoryEntry {
+  twitterUsername: string;
+  bskyIdentifier: string;
+  source: 'mapping' | 'manual';
+}
+
 interface ActivityLog {
   twitter_id: string;
   twitter_username: string;
   bsky_identifier: string;
   tweet_text?: string;
   bsky_uri?: string;
-  status: 'migrated' | 'skipped' | 'failed';
+  status: 'migrated' | 'reposted' | 'skipped' | 'failed' | 'deleted';
   created_at?: string;
 }
 
+interface PostFailure {
+  twitterId: string;
+  twitterUsername: string;
+  bskyIdentifier: string;
+  mappingId?: string;
+  stage: string;
+  error?: string;
+  attempts: number;
+  state: 'pending' | 'gave_up';
+  firstFailedAt: number;
+  lastFailedAt: number;
+  nextAttemptAt?: number;
+  tweetUrl: string;
+}
+
 interface BskyFacetFeatureLink {
   $type: 'app.bsky.richtext.facet#link';
   uri: string;
@@ -209,6 +277,24 @@ interface PendingBackfill {
   position: number;
 }
 
+type BackfillJobState = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+interface BackfillJob {
+  requestId: string;
+  mappingId: string;
+  bskyIdentifier?: string;
+  limit?: number;
+  state: BackfillJobState;
+  requestedBy?: string;
+  processedCount: number;
+  totalCount: number;
+  lastError?: string;
+  queuedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  updatedAt: number;
+}
+
 interface StatusState {
   state: AppState;
   currentAccount?: string;
@@ -226,6 +312,7 @@ interface StatusResponse {
   nextCheckMinutes: number;
   checkIntervalMinutes: number;
   pendingBackfills: PendingBackfill[];
+  backfillHistory?: BackfillJob[];
   currentStatus: StatusState;
 }
 
@@ -298,6 +385,24 @@ interface MirrorProfileSyncResult {
   mapping?: AccountMapping;
 }
 
+interface InteractionGateJob {
+  state: 'running' | 'done';
+  totalMappings: number;
+  processedMappings: number;
+  currentAccount?: string;
+  totalPosts: number;
+  processedPosts: number;
+  updatedPosts: number;
+  failedPosts: number;
+  failedMappings: Array<{
+    id: string;
+    bskyIdentifier: string;
+    error: string;
+  }>;
+  startedAt: number;
+  finishedAt?: number;
+}
+
 interface BulkBotLabelAllResult {
   success: boolean;
   total: number;
@@ -354,6 +459,18 @@ interface Notice {
   message: string;
 }
 
+interface ContentFilterRule {
+  action: ContentFilterAction;
+  type: ContentFilterType;
+  value?: string;
+}
+
+interface TextRewriteRule {
+  type: TextRewriteType;
+  find: string;
+  replace: string;
+}
+
 interface MappingFormState {
   owner: string;
   bskyIdentifier: string;
@@ -362,6 +479,30 @@ interface MappingFormState {
   groupName: string;
   groupEmoji: string;
   profileSyncSourceUsername: string;
+  contentFilters: ContentFilterRule[];
+  textRewrites: TextRewriteRule[];
+  textPrefix: string;
+  textSuffix: string;
+  retweetPolicy: RetweetPolicy;
+  postExternalReplies: boolean;
+  editSyncMode: EditSyncMode;
+  threadNumbering: ThreadNumberingStyle;
+  overflowStrategy: OverflowStrategy;
+  postMediaFollowUps: boolean;
+  trimLongVideos: boolean;
+  quoteWaitMinutes: string;
+  twitterLinkFrontend: string;
+  pollStyle: PollStyle;
+  pollResultsFollowUp: boolean;
+  attributionStyle: AttributionStyle;
+  forceContentLabel: ContentLabel | '';
+  replyGate: ReplyGate;
+  replyListUri: string;
+  allowQuotes: boolean;
+  deletionSyncEnabled: boolean;
+  deletionSyncReportOnly: boolean;
+  deletionSyncWindow: string;
+  deletionSyncMaxDeletes: string;
 }
 
 interface UserFormState {
@@ -392,6 +533,30 @@ const defaultMappingForm = (): MappingFormState => ({
   groupName: '',
   groupEmoji: '📁',
   profileSyncSourceUsername: '',
+  contentFilters: [],
+  textRewrites: [],
+  textPrefix: '',
+  textSuffix: '',
+  retweetPolicy: 'skip',
+  postExternalReplies: false,
+  editSyncMode: 'off',
+  threadNumbering: 'fraction',
+  overflowStrategy: 'thread',
+  postMediaFollowUps: true,
+  trimLongVideos: false,
+  quoteWaitMinutes: '0',
+  twitterLinkFrontend: '',
+  pollStyle: 'text',
+  pollResultsFollowUp: false,
+  attributionStyle: 'none',
+  forceContentLabel: '',
+  replyGate: 'everyone',
+  replyListUri: '',
+  allowQuotes: true,
+  deletionSyncEnabled: false,
+  deletionSyncReportOnly: false,
+  deletionSyncWindow: '50',
+  deletionSyncMaxDeletes: '5',
 });
 
 const defaultUserForm = (): UserFormState => ({
@@ -410,6 +575,7 @@ const TAB_PATHS: Record<DashboardTab, string> = {
   accounts: '/accounts',
   posts: '/posts',
   activity: '/activity',
+  failures: '/failures',
   settings: '/settings',
 };
 const ADD_ACCOUNT_STEPS = ['Sources', 'Create', 'Bluesky', 'Verify & Create'] as const;
@@ -419,6 +585,7 @@ const ACCOUNT_ROWS_BATCH_SIZE = 40;
 const ACCOUNT_PAGE_SIZE_DEFAULT = 50;
 const DEFAULT_BACKFILL_LIMIT = 15;
 const FEDIVERSE_BRIDGE_MIN_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const INTERACTION_GATE_POLL_INTERVAL_MS = 2000;
 const DEFAULT_USER_PERMISSIONS: UserPermissions = {
   viewAllMappings: false,
   manageOwnMappings: true,
@@ -440,6 +607,22 @@ const PERMISSION_OPTIONS: Array<{
   { key: 'runNow', label: 'Run checks now', help: 'Trigger an immediate scheduler run.' },
 ];
 
+const CONTENT_FILTER_TYPE_OPTIONS: Array<{
+  value: ContentFilterType;
+  label: string;
+  placeholder?: string;
+}> = [
+  { value: 'keyword', label: 'Keyword', placeholder: 'giveaway' },
+  { value: 'regex', label: 'Regex', placeholder: '^breaking' },
+  { value: 'hashtag', label: 'Hashtag', placeholder: '#ad' },
+  { value: 'has_media', label: 'Has media' },
+  { value: 'has_link', label: 'Has link' },
+  { value: 'min_length', label: 'Min length', placeholder: '40' },
+  { value: 'language', label: 'Language', placeholder: 'en, de' },
+];
+
+const contentFilterNeedsValue = (type: ContentFilterType) => type !== 'has_media' && type !== 'has_link';
+
 const selectClassName =
   'flex h-10 w-full rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
 
@@ -471,8 +654,23 @@ function formatState(state: AppState): string {
   }
 }
 
+function formatBackfillJobState(state: BackfillJobState): string {
+  switch (state) {
+    case 'running':
+      return 'Running';
+    case 'done':
+      return 'Done';
+    case 'failed':
+      return 'Failed';
+    case 'cancelled':
+      return 'Cancelled';
+    default:
+      return 'Queued';
+  }
+}
+
 function getBskyPostUrl(activity: ActivityLog): string | null {
-  if (!activity.bsky_uri || !activity.bsky_identifier) {
+  if (!activity.bsky_uri || !activity.bsky_identifier || activity.status !== 'migrated') {
     return null;
   }
 
@@ -781,7 +979,11 @@ function App() {
   const [profilesByActor, setProfilesByActor] = useState<Record<string, BskyProfileView>>({});
   const [twitterConfig, setTwitterConfig] = useState<TwitterConfig>({ authToken: '', ct0: '' });
   const [aiConfig, setAiConfig] = useState<AIConfig>({ provider: 'gemini', apiKey: '', model: '', baseUrl: '' });
+  const [handleDirectory, setHandleDirectory] = useState<HandleDirectoryEntry[]>([]);
+  const [newHandlePair, setNewHandlePair] = useState({ twitterUsername: '', bskyIdentifier: '' });
   const [recentActivity, setRecentActivity] = useState<ActivityLog[]>([]);
+  const [postFailures, setPostFailures] = useState<PostFailure[]>([]);
+  const [pendingFailureActionKey, setPendingFailureActionKey] = useState<string | null>(null);
   const [status, setStatus] = useState<StatusResponse | null>(null);
   const [runtimeVersion, setRuntimeVersion] = useState<RuntimeVersionInfo | null>(null);
   const [updateStatus, setUpdateStatus] = useState<UpdateStatusInfo | null>(null);
@@ -798,6 +1000,7 @@ function App() {
       saved === 'accounts' ||
       saved === 'posts' ||
       saved === 'activity' ||
+      saved === 'failures' ||
       saved === 'settings'
     ) {
       return saved;
@@ -821,6 +1024,8 @@ function App() {
   const [isPullBioAllBusy, setIsPullBioAllBusy] = useState(false);
   const [isBotLabelAllBusy, setIsBotLabelAllBusy] = useState(false);
   const [isAppendBotNameAllBusy, setIsAppendBotNameAllBusy] = useState(false);
+  const [isInteractionGateAllBusy, setIsInteractionGateAllBusy] = useState(false);
+  const [interactionGateJob, setInteractionGateJob] = useState<InteractionGateJob | null>(null);
   const [bridgingMappingId, setBridgingMappingId] = useState<string | null>(null);
   const [isBridgeAllBusy, setIsBridgeAllBusy] = useState(false);
   const [bridgeAllProgress, setBridgeAllProgress] = useState<{
@@ -832,6 +1037,9 @@ function App() {
     Record<string, FediverseBridgeStatusView>
   >({});
   const [editForm, setEditForm] = useState<MappingFormState>(defaultMappingForm);
+  const [textRewriteSample, setTextRewriteSample] = useState('');
+  const [textRewritePreview, setTextRewritePreview] = useState<string | null>(null);
+  const [isTextRewritePreviewBusy, setIsTextRewritePreviewBusy] = useState(false);
   const [editTwitterUsers, setEditTwitterUsers] = useState<string[]>([]);
   const [editTwitterInput, setEditTwitterInput] = useState('');
   const [newGroupName, setNewGroupName] = useState('');
@@ -977,6 +1185,7 @@ function App() {
     setRuntimeVersion(null);
     setUpdateStatus(null);
     setRecentActivity([]);
+    setPostFailures([]);
     setEditingMapping(null);
     setNewTwitterUsers([]);
     setNewTwitterMirrorProfiles({});
@@ -989,6 +1198,7 @@ function App() {
     setBridgingMappingId(null);
     setIsBridgeAllBusy(false);
     setBridgeAllProgress(null);
+    setInteractionGateJob(null);
     setFediverseBridgeStatusByMappingId({});
     setEditTwitterUsers([]);
     setNewGroupName('');
@@ -1005,6 +1215,8 @@ function App() {
     setIsGroupActionBusy(false);
     setIsUpdateBusy(false);
     setManagedUsers([]);
+    setHandleDirectory([]);
+    setNewHandlePair({ twitterUsername: '', bskyIdentifier: '' });
     setAccountsCreatorFilter('all');
     setNewUserForm(defaultUserForm());
     setEditingUserId(null);
@@ -1074,6 +1286,19 @@ function App() {
     }
   }, [authHeaders, handleAuthFailure]);
 
+  const fetchPostFailures = useCallback(async () => {
+    if (!authHeaders) {
+      return;
+    }
+
+    try {
+      const response = await axios.get<PostFailure[]>('/api/failures', { headers: authHeaders });
+      setPostFailures(response.data);
+    } catch (error) {
+      handleAuthFailure(error, 'Failed to fetch failures.');
+    }
+  }, [authHeaders, handleAuthFailure]);
+
   const fetchEnrichedPosts = useCallback(async () => {
     if (!authHeaders) {
       return;
@@ -1257,12 +1482,14 @@ function App() {
         setRuntimeVersion(versionResponse.data);
 
         if (profile.isAdmin) {
-          const [twitterResponse, aiResponse, updateStatusResponse, usersResponse] = await Promise.all([
-            axios.get<TwitterConfig>('/api/twitter-config', { headers: authHeaders }),
-            axios.get<AIConfig>('/api/ai-config', { headers: authHeaders }),
-            axios.get<UpdateStatusInfo>('/api/update-status', { headers: authHeaders }),
-            axios.get<ManagedUser[]>('/api/admin/users', { headers: authHeaders }),
-          ]);
+          const [twitterResponse, aiResponse, updateStatusResponse, usersResponse, handleDirectoryResponse] =
+            await Promise.all([
+              axios.get<TwitterConfig>('/api/twitter-config', { headers: authHeaders }),
+              axios.get<AIConfig>('/api/ai-config', { headers: authHeaders }),
+              axios.get<UpdateStatusInfo>('/api/update-status', { headers: authHeaders }),
+              axios.get<ManagedUser[]>('/api/admin/users', { headers: authHeaders }),
+              axios.get<HandleDirectoryEntry[]>('/api/handle-directory', { headers: authHeaders }),
+            ]);
 
           setTwitterConfig({
             authToken: twitterResponse.data.authToken || '',
@@ -1279,6 +1506,7 @@ function App() {
           });
           setUpdateStatus(updateStatusResponse.data);
           setManagedUsers(Array.isArray(usersResponse.data) ? usersResponse.data : []);
+          setHandleDirectory(Array.isArray(handleDirectoryResponse.data) ? handleDirectoryResponse.data : []);
         } else {
           setUpdateStatus(null);
           setManagedUsers([]);
@@ -1413,6 +1641,7 @@ function App() {
     const statusPollIntervalMs = activeTab === 'accounts' ? 7000 : 3000;
     const shouldPollActivity = activeTab === 'overview' || activeTab === 'activity';
     const shouldPollPosts = activeTab === 'overview' || activeTab === 'posts';
+    const shouldPollFailures = activeTab === 'failures';
 
     const statusInterval = window.setInterval(() => {
       void fetchStatus();
@@ -1430,6 +1659,15 @@ function App() {
         }, 12000)
       : null;
 
+    if (shouldPollFailures) {
+      void fetchPostFailures();
+    }
+    const failuresInterval = shouldPollFailures
+      ? window.setInterval(() => {
+          void fetchPostFailures();
+        }, 10000)
+      : null;
+
     return () => {
       window.clearInterval(statusInterval);
       if (activityInterval !== null) {
@@ -1438,8 +1676,11 @@ function App() {
       if (postsInterval !== null) {
         window.clearInterval(postsInterval);
       }
+      if (failuresInterval !== null) {
+        window.clearInterval(failuresInterval);
+      }
     };
-  }, [activeTab, token, fetchEnrichedPosts, fetchRecentActivity, fetchStatus]);
+  }, [activeTab, token, fetchEnrichedPosts, fetchPostFailures, fetchRecentActivity, fetchStatus]);
 
   useEffect(() => {
     if (!token) {
@@ -1553,6 +1794,7 @@ function App() {
   }, [newMapping.bskyIdentifier, newMapping.bskyPassword, newMapping.bskyServiceUrl]);
 
   const pendingBackfills = status?.pendingBackfills ?? [];
+  const backfillHistory = status?.backfillHistory ?? [];
   const currentStatus = status?.currentStatus;
   const latestActivity = recentActivity[0];
   const selectedMirrorPreview = selectedMirrorSourceUsername
@@ -1564,6 +1806,7 @@ function App() {
       { id: 'accounts' as DashboardTab, label: 'Accounts', icon: Users },
       { id: 'posts' as DashboardTab, label: 'Posts', icon: Newspaper },
       { id: 'activity' as DashboardTab, label: 'Activity', icon: History },
+      { id: 'failures' as DashboardTab, label: 'Failures', icon: AlertTriangle },
       { id: 'settings' as DashboardTab, label: 'Settings', icon: Settings2 },
     ],
     [],
@@ -1649,6 +1892,7 @@ function App() {
     isBridgeAllBusy ||
     isBotLabelAllBusy ||
     isAppendBotNameAllBusy ||
+    isInteractionGateAllBusy ||
     Boolean(syncingProfileMappingId) ||
     Boolean(pullingBioMappingId) ||
     Boolean(bridgingMappingId);
@@ -1947,6 +2191,7 @@ function App() {
       users: true,
       twitter: !twitterConfigured,
       ai: !aiConfigured,
+      mentions: false,
       data: false,
     }),
     [aiConfigured, twitterConfigured],
@@ -2314,6 +2559,28 @@ function App() {
     }
   };
 
+  const handlePostFailureAction = async (failure: PostFailure, action: 'retry' | 'give-up') => {
+    if (!authHeaders) {
+      return;
+    }
+
+    const actionKey = `${failure.bskyIdentifier}:${failure.twitterId}`;
+    setPendingFailureActionKey(actionKey);
+    try {
+      await axios.post(
+        `/api/failures/${encodeURIComponent(failure.bskyIdentifier)}/${encodeURIComponent(failure.twitterId)}/${action}`,
+        {},
+        { headers: authHeaders },
+      );
+      showNotice('success', action === 'retry' ? 'Retry scheduled.' : 'Tweet marked as given up.');
+      await fetchPostFailures();
+    } catch (error) {
+      handleAuthFailure(error, action === 'retry' ? 'Failed to schedule retry.' : 'Failed to give up on tweet.');
+    } finally {
+      setPendingFailureActionKey(null);
+    }
+  };
+
   const handleDeleteAllPosts = async (mappingId: string) => {
     if (!authHeaders) {
       return;
@@ -2782,6 +3049,65 @@ function App() {
     }
   };
 
+  const handleApplyInteractionGateToAllAccounts = async (targetsOverride?: AccountMapping[]) => {
+    if (!authHeaders) {
+      return;
+    }
+    if (isAnyBulkAccountsActionBusy) {
+      showNotice('info', 'A bulk accounts action is already running. Please wait.');
+      return;
+    }
+
+    const candidates = targetsOverride && targetsOverride.length > 0 ? targetsOverride : manageableAccountMappingsForView;
+    if (candidates.length === 0) {
+      showNotice('info', 'No accounts available for reply and quote settings.');
+      return;
+    }
+
+    const confirmed = window.confirm(
+      `Apply each account's reply and quote settings to posts it already mirrored for ${candidates.length} account(s)? Accounts without settings get Bluesky's defaults back.`,
+    );
+    if (!confirmed) {
+      return;
+    }
+
+    setIsInteractionGateAllBusy(true);
+    try {
+      const response = await axios.post<{ job: InteractionGateJob }>(
+        '/api/mappings/interaction-gate-all',
+        { mappingIds: candidates.map((mapping) => mapping.id) },
+        { headers: authHeaders },
+      );
+      // The server paces the writes, so the job runs in the background and is polled for progress.
+      let job: InteractionGateJob | null = response.data.job;
+      setInteractionGateJob(job);
+      while (job?.state === 'running') {
+        await new Promise((resolve) => setTimeout(resolve, INTERACTION_GATE_POLL_INTERVAL_MS));
+        const progress = await axios.get<{ job: InteractionGateJob | null }>('/api/mappings/interaction-gate-all', {
+          headers: authHeaders,
+        });
+        job = progress.data.job;
+        setInteractionGateJob(job);
+      }
+      if (!job) {
+        return;
+      }
+
+      const firstFailure = job.failedMappings[0];
+      showNotice(
+        job.failedMappings.length > 0 || job.failedPosts > 0 ? 'info' : 'success',
+        `Reply and quote settings applied to ${job.updatedPosts} post(s), ${job.failedPosts} post(s) failed, ${job.failedMappings.length} account(s) failed.${
+          firstFailure ? ` First failure: ${firstFailure.bskyIdentifier} (${firstFailure.error})` : ''
+        }`,
+      );
+    } catch (error) {
+      handleAuthFailure(error, 'Failed to apply reply and quote settings.');
+    } finally {
+      setIsInteractionGateAllBusy(false);
+      setInteractionGateJob(null);
+    }
+  };
+
   const handleApplyAllAccountsAction = async () => {
     const actionLabel =
       accountsBulkAction === 'sync_profiles'
@@ -2792,7 +3118,9 @@ function App() {
             ? 'fediverse bridge'
             : accountsBulkAction === 'apply_bot_label'
               ? 'bot label update'
-              : 'display-name suffix update';
+              : accountsBulkAction === 'apply_interaction_gate'
+                ? 'reply and quote settings'
+                : 'display-name suffix update';
     const targets = resolveBulkAccountTargets(actionLabel);
     if (targets.length === 0) {
       return;
@@ -2814,6 +3142,10 @@ function App() {
       await handleAddBotLabelToAllAccounts(targets);
       return;
     }
+    if (accountsBulkAction === 'apply_interaction_gate') {
+      await handleApplyInteractionGateToAllAccounts(targets);
+      return;
+    }
     await handleAppendBotNameToAllAccounts(targets);
   };
 
@@ -3586,6 +3918,7 @@ function App() {
       return;
     }
     setEditingMapping(mapping);
+    setTextRewritePreview(null);
     setEditForm({
       owner: mapping.owner || '',
       bskyIdentifier: mapping.bskyIdentifier,
@@ -3594,6 +3927,30 @@ function App() {
       groupName: mapping.groupName || '',
       groupEmoji: mapping.groupEmoji || '📁',
       profileSyncSourceUsername: mapping.profileSyncSourceUsername || mapping.twitterUsernames[0] || '',
+      contentFilters: (mapping.contentFilters || []).map((rule) => ({ ...rule })),
+      textRewrites: (mapping.textRewrites || []).map((rule) => ({ ...rule })),
+      textPrefix: mapping.textPrefix || '',
+      textSuffix: mapping.textSuffix || '',
+      retweetPolicy: mapping.retweetPolicy || 'skip',
+      postExternalReplies: mapping.postExternalReplies === true,
+      editSyncMode: mapping.editSyncMode || 'off',
+      threadNumbering: mapping.threadNumbering || 'fraction',
+      overflowStrategy: mapping.overflowStrategy || 'thread',
+      postMediaFollowUps: mapping.postMediaFollowUps !== false,
+      trimLongVideos: mapping.trimLongVideos === true,
+      quoteWaitMinutes: String(mapping.quoteWaitMinutes ?? 0),
+      twitterLinkFrontend: mapping.twitterLinkFrontend || '',
+      pollStyle: mapping.pollStyle || 'text',
+      pollResultsFollowUp: mapping.pollResultsFollowUp === true,
+      attributionStyle: mapping.attributionStyle || 'none',
+      forceContentLabel: mapping.forceContentLabel || '',
+      replyGate: mapping.interactionGate?.replies || 'everyone',
+      replyListUri: mapping.interactionGate?.replyListUri || '',
+      allowQuotes: mapping.interactionGate?.allowQuotes !== false,
+      deletionSyncEnabled: mapping.deletionSync?.enabled === true,
+      deletionSyncReportOnly: mapping.deletionSync?.reportOnly === true,
+      deletionSyncWindow: String(mapping.deletionSync?.windowSize ?? 50),
+      deletionSyncMaxDeletes: String(mapping.deletionSync?.maxDeletesPerPass ?? 5),
     });
     setEditTwitterUsers(mapping.twitterUsernames);
     setEditTwitterInput('');
@@ -3636,6 +3993,40 @@ function App() {
           groupName: editForm.groupName.trim(),
           groupEmoji: editForm.groupEmoji.trim(),
           profileSyncSourceUsername,
+          contentFilters: editForm.contentFilters
+            .map((rule) =>
+              contentFilterNeedsValue(rule.type)
+                ? { action: rule.action, type: rule.type, value: (rule.value || '').trim() }
+                : { action: rule.action, type: rule.type },
+            )
+            .filter((rule) => !contentFilterNeedsValue(rule.type) || rule.value),
+          textRewrites: editForm.textRewrites.filter((rule) => rule.find.length > 0),
+          textPrefix: editForm.textPrefix,
+          textSuffix: editForm.textSuffix,
+          retweetPolicy: editForm.retweetPolicy,
+          postExternalReplies: editForm.postExternalReplies,
+          editSyncMode: editForm.editSyncMode,
+          threadNumbering: editForm.threadNumbering,
+          overflowStrategy: editForm.overflowStrategy,
+          postMediaFollowUps: editForm.postMediaFollowUps,
+          trimLongVideos: editForm.trimLongVideos,
+          quoteWaitMinutes: Number(editForm.quoteWaitMinutes),
+          twitterLinkFrontend: editForm.twitterLinkFrontend.trim(),
+          pollStyle: editForm.pollStyle,
+          pollResultsFollowUp: editForm.pollResultsFollowUp,
+          attributionStyle: editForm.attributionStyle,
+          forceContentLabel: editForm.forceContentLabel,
+          interactionGate: {
+            replies: editForm.replyGate,
+            replyListUri: editForm.replyListUri.trim(),
+            allowQuotes: editForm.allowQuotes,
+          },
+          deletionSync: {
+            enabled: editForm.deletionSyncEnabled,
+            reportOnly: editForm.deletionSyncReportOnly,
+            windowSize: Number(editForm.deletionSyncWindow),
+            maxDeletesPerPass: Number(editForm.deletionSyncMaxDeletes),
+          },
         },
         { headers: authHeaders },
       );
@@ -3653,6 +4044,32 @@ function App() {
     }
   };
 
+  const handlePreviewTextRewrites = async () => {
+    if (!authHeaders || !editingMapping) {
+      return;
+    }
+
+    setIsTextRewritePreviewBusy(true);
+    try {
+      const response = await axios.post<{ text: string }>(
+        '/api/mappings/text-rewrite-preview',
+        {
+          sampleText: textRewriteSample,
+          twitterUsername: editTwitterUsers[0] || editingMapping.twitterUsernames[0] || '',
+          textRewrites: editForm.textRewrites.filter((rule) => rule.find.length > 0),
+          textPrefix: editForm.textPrefix,
+          textSuffix: editForm.textSuffix,
+        },
+        { headers: authHeaders },
+      );
+      setTextRewritePreview(response.data.text);
+    } catch (error) {
+      handleAuthFailure(error, 'Failed to preview text rewrites.');
+    } finally {
+      setIsTextRewritePreviewBusy(false);
+    }
+  };
+
   const handleSaveTwitterConfig = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     if (!authHeaders) {
@@ -3709,6 +4126,53 @@ function App() {
     }
   };
 
+  const saveHandleDirectory = async (entries: Array<Omit<HandleDirectoryEntry, 'source'>>) => {
+    if (!authHeaders) {
+      return false;
+    }
+
+    setIsBusy(true);
+    try {
+      const response = await axios.post<HandleDirectoryEntry[]>(
+        '/api/handle-directory',
+        { entries },
+        { headers: authHeaders },
+      );
+      setHandleDirectory(Array.isArray(response.data) ? response.data : []);
+      showNotice('success', 'Mention directory saved.');
+      return true;
+    } catch (error) {
+      handleAuthFailure(error, 'Failed to save mention directory.');
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const manualHandlePairs = handleDirectory.filter((entry) => entry.source === 'manual');
+
+  const handleAddHandlePair = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const twitterUsername = newHandlePair.twitterUsername.trim().replace(/^@/, '').toLowerCase();
+    const bskyIdentifier = newHandlePair.bskyIdentifier.trim().replace(/^@/, '');
+    if (!twitterUsername || !bskyIdentifier) {
+      showNotice('error', 'Enter both a Twitter username and a Bluesky handle.');
+      return;
+    }
+
+    const saved = await saveHandleDirectory([
+      ...manualHandlePairs.filter((entry) => entry.twitterUsername !== twitterUsername),
+      { twitterUsername, bskyIdentifier },
+    ]);
+    if (saved) {
+      setNewHandlePair({ twitterUsername: '', bskyIdentifier: '' });
+    }
+  };
+
+  const handleRemoveHandlePair = async (twitterUsername: string) => {
+    await saveHandleDirectory(manualHandlePairs.filter((entry) => entry.twitterUsername !== twitterUsername));
+  };
+
   const handleExportConfig = async () => {
     if (!authHeaders) {
       return;
@@ -4296,6 +4760,58 @@ function App() {
             </Card>
           </div>
 
+          <Card className="animate-slide-up">
+            <CardHeader>
+              <CardTitle>Backfill History</CardTitle>
+              <CardDescription>Queued and recent backfill jobs. The queue survives restarts.</CardDescription>
+            </CardHeader>
+            <CardContent className="pt-0">
+              {backfillHistory.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No backfill jobs yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {backfillHistory.map((job) => (
+                    <div
+                      key={job.requestId}
+                      className="flex flex-wrap items-start justify-between gap-3 rounded-md border border-border/70 px-3 py-2"
+                    >
+                      <div className="min-w-0 space-y-1">
+                        <p className="truncate text-sm font-medium">@{job.bskyIdentifier || job.mappingId}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Queued {new Date(job.queuedAt).toLocaleString()}
+                          {job.requestedBy ? ` by ${job.requestedBy}` : ''}
+                          {job.finishedAt ? ` • finished ${new Date(job.finishedAt).toLocaleString()}` : ''}
+                        </p>
+                        {job.lastError ? (
+                          <p className="truncate text-xs text-red-600 dark:text-red-300">{job.lastError}</p>
+                        ) : null}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-muted-foreground">
+                          {job.processedCount}/{job.totalCount || '?'} accounts
+                          {job.limit ? ` • limit ${job.limit}` : ''}
+                        </span>
+                        <Badge
+                          variant={
+                            job.state === 'done'
+                              ? 'success'
+                              : job.state === 'failed'
+                                ? 'danger'
+                                : job.state === 'running'
+                                  ? 'warning'
+                                  : 'outline'
+                          }
+                        >
+                          {formatBackfillJobState(job.state)}
+                        </Badge>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           <Card className="animate-slide-up">
             <CardHeader>
               <CardTitle>Quick Navigation</CardTitle>
@@ -4345,6 +4861,7 @@ function App() {
                     <option value="bridge_all">Apply fediverse bridge to eligible accounts</option>
                     <option value="apply_bot_label">Apply automated-account label to accounts</option>
                     <option value="append_bot_name">Apply {'{bot}'} display-name suffix to accounts</option>
+                    <option value="apply_interaction_gate">Apply reply and quote settings to mirrored posts</option>
                   </select>
                   <select
                     className={cn(selectClassName, 'h-9 w-[200px] px-2 py-1 text-xs')}
@@ -4371,6 +4888,8 @@ function App() {
                       <Link2 className="mr-2 h-4 w-4" />
                     ) : accountsBulkAction === 'sync_profiles' ? (
                       <RefreshCw className="mr-2 h-4 w-4" />
+                    ) : accountsBulkAction === 'apply_interaction_gate' ? (
+                      <MessageCircle className="mr-2 h-4 w-4" />
                     ) : (
                       <Bot className="mr-2 h-4 w-4" />
                     )}
@@ -4382,7 +4901,9 @@ function App() {
                         ? 'Apply bridge all'
                         : accountsBulkAction === 'apply_bot_label'
                           ? 'Apply bot label all'
-                          : 'Apply append {bot} all'}
+                          : accountsBulkAction === 'apply_interaction_gate'
+                            ? 'Apply reply settings all'
+                            : 'Apply append {bot} all'}
                   </Button>
                   {isBridgeAllBusy && bridgeAllProgress ? (
                     <Badge variant="outline" className="max-w-[280px] truncate">
@@ -4391,6 +4912,11 @@ function App() {
                         : 'Preparing bridge-all...'}
                     </Badge>
                   ) : null}
+                  {isInteractionGateAllBusy && interactionGateJob ? (
+                    <Badge variant="outline" className="max-w-[280px] truncate">
+                      {`Reply settings: ${interactionGateJob.processedPosts}/${interactionGateJob.totalPosts} post(s), ${interactionGateJob.processedMappings}/${interactionGateJob.totalMappings} account(s)`}
+                    </Badge>
+                  ) : null}
                   <Badge variant="outline">{accountMappingsForView.length} configured</Badge>
                   <Badge variant={selectedManageableMappingsCount > 0 ? 'success' : 'outline'}>
                     {selectedManageableMappingsCount} selected
@@ -5576,8 +6102,12 @@ function App() {
                           <td className="px-2 py-3 align-top">
                             {activity.status === 'migrated' ? (
                               <Badge variant="success">Migrated</Badge>
+                            ) : activity.status === 'reposted' ? (
+                              <Badge variant="success">Reposted</Badge>
                             ) : activity.status === 'skipped' ? (
                               <Badge variant="outline">Skipped</Badge>
+                            ) : activity.status === 'deleted' ? (
+                              <Badge variant="warning">Deleted</Badge>
                             ) : (
                               <Badge variant="danger">Failed</Badge>
                             )}
@@ -5633,6 +6163,125 @@ function App() {
         </section>
       ) : null}
 
+      {activeTab === 'failures' ? (
+        <section className="space-y-6 animate-fade-in">
+          <Card className="animate-slide-up">
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                Failures
+              </CardTitle>
+              <CardDescription>
+                Tweets that failed to post. Pending entries are retried automatically with increasing delays.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="pt-0">
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-left text-sm">
+                  <thead className="border-b border-border text-xs uppercase tracking-wide text-muted-foreground">
+                    <tr>
+                      <th className="px-2 py-3">Last Failure</th>
+                      <th className="px-2 py-3">Account</th>
+                      <th className="px-2 py-3">Stage</th>
+                      <th className="px-2 py-3">Error</th>
+                      <th className="px-2 py-3">Attempts</th>
+                      <th className="px-2 py-3">Next Retry</th>
+                      <th className="px-2 py-3 text-right">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {postFailures.map((failure) => {
+                      const actionKey = `${failure.bskyIdentifier}:${failure.twitterId}`;
+                      const mapping = mappings.find((entry) => entry.id === failure.mappingId);
+                      const canManage = mapping ? canManageMapping(mapping) : false;
+                      const isActionPending = pendingFailureActionKey === actionKey;
+
+                      return (
+                        <tr key={actionKey} className="interactive-row border-b border-border/60 last:border-0">
+                          <td className="px-2 py-3 align-top text-xs text-muted-foreground">
+                            {new Date(failure.lastFailedAt).toLocaleString()}
+                          </td>
+                          <td className="px-2 py-3 align-top">
+                            <p className="font-medium">@{failure.twitterUsername}</p>
+                            <p className="text-xs text-muted-foreground">{failure.bskyIdentifier}</p>
+                          </td>
+                          <td className="px-2 py-3 align-top">
+                            <Badge variant="outline">{failure.stage}</Badge>
+                          </td>
+                          <td className="px-2 py-3 align-top text-xs text-muted-foreground">
+                            <div className="max-w-[320px] truncate" title={failure.error}>
+                              {failure.error || '--'}
+                            </div>
+                          </td>
+                          <td className="px-2 py-3 align-top">{failure.attempts}</td>
+                          <td className="px-2 py-3 align-top text-xs text-muted-foreground">
+                            {failure.state === 'gave_up' ? (
+                              <Badge variant="danger">Given up</Badge>
+                            ) : failure.nextAttemptAt ? (
+                              new Date(failure.nextAttemptAt).toLocaleString()
+                            ) : (
+                              '--'
+                            )}
+                          </td>
+                          <td className="px-2 py-3 align-top text-right">
+                            <div className="flex items-center justify-end gap-2">
+                              <a
+                                className="inline-flex items-center text-xs text-foreground underline-offset-4 hover:underline"
+                                href={failure.tweetUrl}
+                                target="_blank"
+                                rel="noreferrer"
+                              >
+                                Source
+                                <ArrowUpRight className="ml-1 h-3 w-3" />
+                              </a>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={!canManage || isActionPending}
+                                onClick={() => {
+                                  void handlePostFailureAction(failure, 'retry');
+                                }}
+                              >
+                                {isActionPending ? (
+                                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                ) : (
+                                  <RefreshCw className="mr-2 h-4 w-4" />
+                                )}
+                                Retry
+                              </Button>
+                              {failure.state !== 'gave_up' ? (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  disabled={!canManage || isActionPending}
+                                  onClick={() => {
+                                    void handlePostFailureAction(failure, 'give-up');
+                                  }}
+                                >
+                                  <X className="mr-2 h-4 w-4" />
+                                  Give up
+                                </Button>
+                              ) : null}
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                    {postFailures.length === 0 ? (
+                      <tr>
+                        <td className="px-2 py-6 text-center text-sm text-muted-foreground" colSpan={7}>
+                          No failed posts.
+                        </td>
+                      </tr>
+                    ) : null}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </section>
+      ) : null}
+
       {activeTab === 'settings' ? (
         <section className="space-y-6 animate-fade-in">
           <Card className="animate-slide-up">
@@ -6307,32 +6956,136 @@ function App() {
               <Card className="animate-slide-up">
                 <button
                   className="flex w-full items-center justify-between px-5 py-4 text-left"
-                  onClick={() => toggleSettingsSection('data')}
+                  onClick={() => toggleSettingsSection('mentions')}
                   type="button"
                 >
                   <div>
-                    <p className="text-sm font-semibold">Data Management</p>
-                    <p className="text-xs text-muted-foreground">Export/import mappings and provider settings.</p>
+                    <p className="text-sm font-semibold">Mention Directory</p>
+                    <p className="text-xs text-muted-foreground">
+                      Twitter handles that become Bluesky mentions instead of Twitter links.
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{handleDirectory.length} handles</Badge>
+                    <ChevronDown
+                      className={cn(
+                        'h-4 w-4 transition-transform duration-200',
+                        isSettingsSectionExpanded('mentions') ? 'rotate-0' : '-rotate-90',
+                      )}
+                    />
                   </div>
-                  <ChevronDown
-                    className={cn(
-                      'h-4 w-4 transition-transform duration-200',
-                      isSettingsSectionExpanded('data') ? 'rotate-0' : '-rotate-90',
-                    )}
-                  />
                 </button>
                 <div
                   className={cn(
                     'grid transition-[grid-template-rows,opacity] duration-300 ease-out',
-                    isSettingsSectionExpanded('data') ? 'grid-rows-[1fr] opacity-100' : 'grid-rows-[0fr] opacity-0',
+                    isSettingsSectionExpanded('mentions') ? 'grid-rows-[1fr] opacity-100' : 'grid-rows-[0fr] opacity-0',
                   )}
                 >
                   <div className="min-h-0 overflow-hidden">
                     <CardContent className="space-y-3 border-t border-border/70 pt-4">
-                      <Button className="w-full sm:w-auto" variant="outline" onClick={handleExportConfig}>
-                        <Download className="mr-2 h-4 w-4" />
-                        Export configuration
-                      </Button>
+                      <p className="text-xs text-muted-foreground">
+                        Accounts from your mappings are included automatically. Add pairs for accounts mirrored
+                        elsewhere; a manual pair overrides a mapping for the same handle.
+                      </p>
+                      {handleDirectory.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No handles in the directory yet.</p>
+                      ) : (
+                        <div className="space-y-2">
+                          {handleDirectory.map((entry) => (
+                            <div
+                              key={entry.twitterUsername}
+                              className="flex items-center justify-between gap-2 rounded-md border border-border/70 px-3 py-2"
+                            >
+                              <div className="min-w-0">
+                                <p className="truncate text-sm font-medium">@{entry.twitterUsername}</p>
+                                <p className="truncate text-xs text-muted-foreground">→ @{entry.bskyIdentifier}</p>
+                              </div>
+                              <div className="flex items-center gap-2">
+                                <Badge variant={entry.source === 'manual' ? 'success' : 'outline'}>
+                                  {entry.source === 'manual' ? 'Manual' : 'Mapping'}
+                                </Badge>
+                                {entry.source === 'manual' ? (
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    disabled={isBusy}
+                                    onClick={() => {
+                                      void handleRemoveHandlePair(entry.twitterUsername);
+                                    }}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                ) : null}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      <form className="space-y-3" onSubmit={handleAddHandlePair}>
+                        <div className="grid gap-3 sm:grid-cols-2">
+                          <div className="space-y-2">
+                            <Label htmlFor="handle-directory-twitter">Twitter username</Label>
+                            <Input
+                              id="handle-directory-twitter"
+                              value={newHandlePair.twitterUsername}
+                              onChange={(event) => {
+                                setNewHandlePair((prev) => ({ ...prev, twitterUsername: event.target.value }));
+                              }}
+                              placeholder="@jack"
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="handle-directory-bsky">Bluesky handle or DID</Label>
+                            <Input
+                              id="handle-directory-bsky"
+                              value={newHandlePair.bskyIdentifier}
+                              onChange={(event) => {
+                                setNewHandlePair((prev) => ({ ...prev, bskyIdentifier: event.target.value }));
+                              }}
+                              placeholder="jack.bsky.social"
+                            />
+                          </div>
+                        </div>
+                        <Button className="w-full sm:w-auto" size="sm" type="submit" disabled={isBusy}>
+                          <AtSign className="mr-2 h-4 w-4" />
+                          Add Pair
+                        </Button>
+                      </form>
+                    </CardContent>
+                  </div>
+                </div>
+              </Card>
+
+              <Card className="animate-slide-up">
+                <button
+                  className="flex w-full items-center justify-between px-5 py-4 text-left"
+                  onClick={() => toggleSettingsSection('data')}
+                  type="button"
+                >
+                  <div>
+                    <p className="text-sm font-semibold">Data Management</p>
+                    <p className="text-xs text-muted-foreground">Export/import mappings and provider settings.</p>
+                  </div>
+                  <ChevronDown
+                    className={cn(
+                      'h-4 w-4 transition-transform duration-200',
+                      isSettingsSectionExpanded('data') ? 'rotate-0' : '-rotate-90',
+                    )}
+                  />
+                </button>
+                <div
+                  className={cn(
+                    'grid transition-[grid-template-rows,opacity] duration-300 ease-out',
+                    isSettingsSectionExpanded('data') ? 'grid-rows-[1fr] opacity-100' : 'grid-rows-[0fr] opacity-0',
+                  )}
+                >
+                  <div className="min-h-0 overflow-hidden">
+                    <CardContent className="space-y-3 border-t border-border/70 pt-4">
+                      <Button className="w-full sm:w-auto" variant="outline" onClick={handleExportConfig}>
+                        <Download className="mr-2 h-4 w-4" />
+                        Export configuration
+                      </Button>
                       <input
                         ref={importInputRef}
                         className="hidden"
@@ -6781,7 +7534,7 @@ function App() {
 
       {editingMapping ? (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 backdrop-blur-sm">
-          <Card className="w-full max-w-xl animate-slide-up border-border/90 bg-card">
+          <Card className="max-h-[90vh] w-full max-w-xl animate-slide-up overflow-y-auto border-border/90 bg-card">
             <CardHeader>
               <CardTitle>Edit Mapping</CardTitle>
               <CardDescription>Update ownership, handles, and target credentials.</CardDescription>
@@ -6923,6 +7676,616 @@ function App() {
                     }}
                   />
                 </div>
+                <div className="space-y-2 border-t border-border/70 pt-3">
+                  <Label htmlFor="edit-retweet-policy">Retweets &amp; Replies</Label>
+                  <select
+                    id="edit-retweet-policy"
+                    className={selectClassName}
+                    value={editForm.retweetPolicy}
+                    onChange={(event) => {
+                      setEditForm((prev) => ({ ...prev, retweetPolicy: event.target.value as RetweetPolicy }));
+                    }}
+                  >
+                    <option value="skip">Skip retweets</option>
+                    <option value="repost">Repost natively when the original is mirrored</option>
+                    <option value="attributed">Post an attributed copy (RT @user: …)</option>
+                  </select>
+                  <p className="text-xs text-muted-foreground">
+                    Native reposts only happen when another mapping already mirrored the original tweet; other retweets
+                    are skipped.
+                  </p>
+                  <label className="inline-flex items-center gap-2 text-sm font-medium">
+                    <input
+                      type="checkbox"
+                      checked={editForm.postExternalReplies}
+                      onChange={(event) => {
+                        setEditForm((prev) => ({ ...prev, postExternalReplies: event.target.checked }));
+                      }}
+                    />
+                    Post replies to other accounts as standalone posts
+                  </label>
+                  <p className="text-xs text-muted-foreground">
+                    Adds a "Replying to @user" header plus a screenshot or link of the tweet being replied to.
+                  </p>
+                  <div className="space-y-1">
+                    <Label htmlFor="edit-quote-wait-minutes">Wait for mirrored quotes (minutes)</Label>
+                    <Input
+                      id="edit-quote-wait-minutes"
+                      type="number"
+                      min={0}
+                      max={1440}
+                      value={editForm.quoteWaitMinutes}
+                      onChange={(event) => {
+                        setEditForm((prev) => ({ ...prev, quoteWaitMinutes: event.target.value }));
+                      }}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Quotes of tweets mirrored by any account here become native Bluesky quotes. When the quoted account
+                    is mirrored but that tweet is not posted yet, retry for up to this long before using a screenshot or
+                    link. 0 posts right away.
+                  </p>
+                  <div className="space-y-1">
+                    <Label htmlFor="edit-twitter-link-frontend">Twitter link front-end</Label>
+                    <Input
+                      id="edit-twitter-link-frontend"
+                      placeholder="xcancel.com"
+                      value={editForm.twitterLinkFrontend}
+                      onChange={(event) => {
+                        setEditForm((prev) => ({ ...prev, twitterLinkFrontend: event.target.value }));
+                      }}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Links to mirrored tweets always point at their Bluesky posts. Other x.com/twitter.com links are
+                    rewritten to this domain; leave blank to keep them.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-edit-sync-mode">Tweet Edits</Label>
+                  <select
+                    id="edit-edit-sync-mode"
+                    className={selectClassName}
+                    value={editForm.editSyncMode}
+                    onChange={(event) => {
+                      setEditForm((prev) => ({ ...prev, editSyncMode: event.target.value as EditSyncMode }));
+                    }}
+                  >
+                    <option value="off">Ignore edits</option>
+                    <option value="update">Update the Bluesky post in place</option>
+                    <option value="repost">Delete and repost</option>
+                  </select>
+                  <p className="text-xs text-muted-foreground">
+                    In-place updates fall back to delete and repost when the edit changes how many posts a thread needs.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-overflow-strategy">Long Tweets</Label>
+                  <select
+                    id="edit-overflow-strategy"
+                    className={selectClassName}
+                    value={editForm.overflowStrategy}
+                    onChange={(event) => {
+                      setEditForm((prev) => ({ ...prev, overflowStrategy: event.target.value as OverflowStrategy }));
+                    }}
+                  >
+                    <option value="thread">Split into a thread</option>
+                    <option value="image">Post the full text as an image</option>
+                    <option value="truncate">Truncate and link to the original tweet</option>
+                  </select>
+                  <p className="text-xs text-muted-foreground">
+                    Image posts use the full text as alt text and fall back to truncating when the tweet already has
+                    four images or a video.
+                  </p>
+                  <label className="inline-flex items-center gap-2 text-sm font-medium">
+                    <input
+                      type="checkbox"
+                      checked={editForm.postMediaFollowUps}
+                      onChange={(event) => {
+                        setEditForm((prev) => ({ ...prev, postMediaFollowUps: event.target.checked }));
+                      }}
+                    />
+                    Post extra media as follow-up replies
+                  </label>
+                  <p className="text-xs text-muted-foreground">
+                    Extra videos, carousel images beyond four, and photos next to a video are posted as replies under
+                    the tweet instead of being dropped.
+                  </p>
+                  <label className="inline-flex items-center gap-2 text-sm font-medium">
+                    <input
+                      type="checkbox"
+                      checked={editForm.trimLongVideos}
+                      onChange={(event) => {
+                        setEditForm((prev) => ({ ...prev, trimLongVideos: event.target.checked }));
+                      }}
+                    />
+                    Trim videos longer than 3 minutes
+                  </label>
+                  <p className="text-xs text-muted-foreground">
+                    Oversized videos are re-encoded with ffmpeg when it is installed. Trimmed videos get a "Full video"
+                    link to the original tweet; otherwise long videos are posted as a link.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-poll-style">Polls</Label>
+                  <select
+                    id="edit-poll-style"
+                    className={selectClassName}
+                    value={editForm.pollStyle}
+                    onChange={(event) => {
+                      setEditForm((prev) => ({ ...prev, pollStyle: event.target.value as PollStyle }));
+                    }}
+                  >
+                    <option value="text">Text block under the question</option>
+                    <option value="image">Generated image</option>
+                  </select>
+                  <label className="inline-flex items-center gap-2 text-sm font-medium">
+                    <input
+                      type="checkbox"
+                      checked={editForm.pollResultsFollowUp}
+                      onChange={(event) => {
+                        setEditForm((prev) => ({ ...prev, pollResultsFollowUp: event.target.checked }));
+                      }}
+                    />
+                    Reply with final results when a poll closes
+                  </label>
+                  <p className="text-xs text-muted-foreground">
+                    Bluesky has no polls, so choices and vote counts are shown as they were when the tweet was mirrored.
+                    Images keep the text version as alt text.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-attribution-style">Source Attribution</Label>
+                  <select
+                    id="edit-attribution-style"
+                    className={selectClassName}
+                    value={editForm.attributionStyle}
+                    onChange={(event) => {
+                      setEditForm((prev) => ({ ...prev, attributionStyle: event.target.value as AttributionStyle }));
+                    }}
+                  >
+                    <option value="none">No attribution</option>
+                    <option value="compact">"🐦 source" link on the first post of a thread</option>
+                    <option value="last-chunk">"🐦 source" link on the last post of a thread</option>
+                    <option value="tags">Hidden link in post tags</option>
+                  </select>
+                  <p className="text-xs text-muted-foreground">
+                    The link points at the original tweet and is counted when splitting long tweets, so it never adds a
+                    post to the thread.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-force-content-label">Content Label</Label>
+                  <select
+                    id="edit-force-content-label"
+                    className={selectClassName}
+                    value={editForm.forceContentLabel}
+                    onChange={(event) => {
+                      setEditForm((prev) => ({ ...prev, forceContentLabel: event.target.value as ContentLabel | '' }));
+                    }}
+                  >
+                    <option value="">Only from Twitter sensitive flags</option>
+                    <option value="graphic-media">Graphic media on every post</option>
+                    <option value="nudity">Nudity on every post</option>
+                    <option value="sexual">Sexually suggestive on every post</option>
+                    <option value="porn">Adult content on every post</option>
+                  </select>
+                  <p className="text-xs text-muted-foreground">
+                    Media Twitter marks as sensitive is labeled automatically: adult content as porn, anything else as
+                    graphic media. Nudity and sexually suggestive labels are only applied when forced here.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-reply-gate">Who Can Reply</Label>
+                  <select
+                    id="edit-reply-gate"
+                    className={selectClassName}
+                    value={editForm.replyGate}
+                    onChange={(event) => {
+                      setEditForm((prev) => ({ ...prev, replyGate: event.target.value as ReplyGate }));
+                    }}
+                  >
+                    <option value="everyone">Everyone</option>
+                    <option value="nobody">Nobody</option>
+                    <option value="followers">Accounts that follow this account</option>
+                    <option value="following">Accounts this account follows</option>
+                    <option value="mentioned">Mentioned accounts</option>
+                    <option value="list">Members of a list</option>
+                  </select>
+                  {editForm.replyGate === 'list' ? (
+                    <Input
+                      id="edit-reply-list-uri"
+                      placeholder="at://did:plc:.../app.bsky.graph.list/..."
+                      value={editForm.replyListUri}
+                      onChange={(event) => {
+                        setEditForm((prev) => ({ ...prev, replyListUri: event.target.value }));
+                      }}
+                    />
+                  ) : null}
+                  <label className="inline-flex items-center gap-2 text-sm font-medium">
+                    <input
+                      type="checkbox"
+                      checked={editForm.allowQuotes}
+                      onChange={(event) => {
+                        setEditForm((prev) => ({ ...prev, allowQuotes: event.target.checked }));
+                      }}
+                    />
+                    Allow quote posts
+                  </label>
+                  <p className="text-xs text-muted-foreground">
+                    Applies to new posts. Use the accounts bulk action to update posts that were already mirrored.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-thread-numbering">Thread Numbering</Label>
+                  <select
+                    id="edit-thread-numbering"
+                    className={selectClassName}
+                    value={editForm.threadNumbering}
+                    onChange={(event) => {
+                      setEditForm((prev) => ({ ...prev, threadNumbering: event.target.value as ThreadNumberingStyle }));
+                    }}
+                  >
+                    <option value="fraction">(1/3) after each post</option>
+                    <option value="thread-emoji">🧵 1/3 after each post</option>
+                    <option value="ellipsis">Trailing … on all but the last post</option>
+                    <option value="none">No numbering</option>
+                  </select>
+                  <p className="text-xs text-muted-foreground">
+                    Used when a long tweet is split into a thread of posts.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Deleted Tweets</Label>
+                  <label className="inline-flex items-center gap-2 text-sm font-medium">
+                    <input
+                      type="checkbox"
+                      checked={editForm.deletionSyncEnabled}
+                      onChange={(event) => {
+                        setEditForm((prev) => ({ ...prev, deletionSyncEnabled: event.target.checked }));
+                      }}
+                    />
+                    Delete Bluesky mirrors of tweets deleted on Twitter
+                  </label>
+                  {editForm.deletionSyncEnabled ? (
+                    <>
+                      <label className="inline-flex items-center gap-2 text-sm font-medium">
+                        <input
+                          type="checkbox"
+                          checked={editForm.deletionSyncReportOnly}
+                          onChange={(event) => {
+                            setEditForm((prev) => ({ ...prev, deletionSyncReportOnly: event.target.checked }));
+                          }}
+                        />
+                        Report only (log deletions without removing posts)
+                      </label>
+                      <div className="grid gap-2 sm:grid-cols-2">
+                        <div className="space-y-1">
+                          <Label htmlFor="edit-deletion-sync-window">Tweets re-checked per pass</Label>
+                          <Input
+                            id="edit-deletion-sync-window"
+                            type="number"
+                            min={1}
+                            max={500}
+                            value={editForm.deletionSyncWindow}
+                            onChange={(event) => {
+                              setEditForm((prev) => ({ ...prev, deletionSyncWindow: event.target.value }));
+                            }}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor="edit-deletion-sync-max">Max deletions per pass</Label>
+                          <Input
+                            id="edit-deletion-sync-max"
+                            type="number"
+                            min={1}
+                            max={100}
+                            value={editForm.deletionSyncMaxDeletes}
+                            onChange={(event) => {
+                              setEditForm((prev) => ({ ...prev, deletionSyncMaxDeletes: event.target.value }));
+                            }}
+                          />
+                        </div>
+                      </div>
+                    </>
+                  ) : null}
+                  <p className="text-xs text-muted-foreground">
+                    Runs every few hours. Retweet copies are not checked, and nothing is deleted when every recent tweet
+                    of a source account disappears at once.
+                  </p>
+                </div>
+                <div className="space-y-2 border-t border-border/70 pt-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <Label>Content Filters</Label>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      type="button"
+                      onClick={() => {
+                        setEditForm((prev) => ({
+                          ...prev,
+                          contentFilters: [...prev.contentFilters, { action: 'exclude', type: 'keyword', value: '' }],
+                        }));
+                      }}
+                    >
+                      <Plus className="mr-1 h-4 w-4" />
+                      Add rule
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Rules run top to bottom and the first match decides. With any include rule, unmatched tweets are
+                    skipped.
+                  </p>
+                  {editForm.contentFilters.map((rule, index) => {
+                    const typeOption = CONTENT_FILTER_TYPE_OPTIONS.find((option) => option.value === rule.type);
+                    const updateRule = (updates: Partial<ContentFilterRule>) => {
+                      setEditForm((prev) => ({
+                        ...prev,
+                        contentFilters: prev.contentFilters.map((candidate, candidateIndex) =>
+                          candidateIndex === index ? { ...candidate, ...updates } : candidate,
+                        ),
+                      }));
+                    };
+                    const moveRule = (offset: number) => {
+                      setEditForm((prev) => {
+                        const target = index + offset;
+                        if (target < 0 || target >= prev.contentFilters.length) {
+                          return prev;
+                        }
+                        const next = [...prev.contentFilters];
+                        const [moved] = next.splice(index, 1);
+                        if (moved) {
+                          next.splice(target, 0, moved);
+                        }
+                        return { ...prev, contentFilters: next };
+                      });
+                    };
+
+                    return (
+                      // biome-ignore lint/suspicious/noArrayIndexKey: rules are positional and carry no id
+                      <div key={`edit-filter-${index}`} className="grid gap-2 sm:grid-cols-[7rem_8rem_1fr_auto]">
+                        <select
+                          className={selectClassName}
+                          value={rule.action}
+                          onChange={(event) => updateRule({ action: event.target.value as ContentFilterAction })}
+                          aria-label="Rule action"
+                        >
+                          <option value="exclude">Exclude</option>
+                          <option value="include">Include</option>
+                        </select>
+                        <select
+                          className={selectClassName}
+                          value={rule.type}
+                          onChange={(event) => updateRule({ type: event.target.value as ContentFilterType })}
+                          aria-label="Rule type"
+                        >
+                          {CONTENT_FILTER_TYPE_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                        {contentFilterNeedsValue(rule.type) ? (
+                          <Input
+                            value={rule.value || ''}
+                            onChange={(event) => updateRule({ value: event.target.value })}
+                            placeholder={typeOption?.placeholder}
+                            type={rule.type === 'min_length' ? 'number' : 'text'}
+                            min={rule.type === 'min_length' ? 1 : undefined}
+                            aria-label="Rule value"
+                          />
+                        ) : (
+                          <div />
+                        )}
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            type="button"
+                            disabled={index === 0}
+                            onClick={() => moveRule(-1)}
+                            aria-label="Move rule up"
+                          >
+                            <ChevronDown className="h-4 w-4 rotate-180" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            type="button"
+                            disabled={index === editForm.contentFilters.length - 1}
+                            onClick={() => moveRule(1)}
+                            aria-label="Move rule down"
+                          >
+                            <ChevronDown className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            type="button"
+                            onClick={() => {
+                              setEditForm((prev) => ({
+                                ...prev,
+                                contentFilters: prev.contentFilters.filter(
+                                  (_candidate, candidateIndex) => candidateIndex !== index,
+                                ),
+                              }));
+                            }}
+                            aria-label="Remove rule"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="space-y-2 border-t border-border/70 pt-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <Label>Text Rewrites</Label>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      type="button"
+                      onClick={() => {
+                        setEditForm((prev) => ({
+                          ...prev,
+                          textRewrites: [...prev.textRewrites, { type: 'replace', find: '', replace: '' }],
+                        }));
+                      }}
+                    >
+                      <Plus className="mr-1 h-4 w-4" />
+                      Add rule
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Rules run top to bottom on the tweet text. Regex rules ignore case and can use $1 for groups; an
+                    empty replacement deletes the match.
+                  </p>
+                  {editForm.textRewrites.map((rule, index) => {
+                    const updateRule = (updates: Partial<TextRewriteRule>) => {
+                      setEditForm((prev) => ({
+                        ...prev,
+                        textRewrites: prev.textRewrites.map((candidate, candidateIndex) =>
+                          candidateIndex === index ? { ...candidate, ...updates } : candidate,
+                        ),
+                      }));
+                    };
+                    const moveRule = (offset: number) => {
+                      setEditForm((prev) => {
+                        const target = index + offset;
+                        if (target < 0 || target >= prev.textRewrites.length) {
+                          return prev;
+                        }
+                        const next = [...prev.textRewrites];
+                        const [moved] = next.splice(index, 1);
+                        if (moved) {
+                          next.splice(target, 0, moved);
+                        }
+                        return { ...prev, textRewrites: next };
+                      });
+                    };
+
+                    return (
+                      // biome-ignore lint/suspicious/noArrayIndexKey: rules are positional and carry no id
+                      <div key={`edit-rewrite-${index}`} className="grid gap-2 sm:grid-cols-[7rem_1fr_1fr_auto]">
+                        <select
+                          className={selectClassName}
+                          value={rule.type}
+                          onChange={(event) => updateRule({ type: event.target.value as TextRewriteType })}
+                          aria-label="Rewrite type"
+                        >
+                          <option value="replace">Text</option>
+                          <option value="regex">Regex</option>
+                        </select>
+                        <Input
+                          value={rule.find}
+                          onChange={(event) => updateRule({ find: event.target.value })}
+                          placeholder={rule.type === 'regex' ? '(\\s*#\\w+){3,}$' : '🧵👇'}
+                          aria-label="Find"
+                        />
+                        <Input
+                          value={rule.replace}
+                          onChange={(event) => updateRule({ replace: event.target.value })}
+                          placeholder="(remove)"
+                          aria-label="Replace with"
+                        />
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            type="button"
+                            disabled={index === 0}
+                            onClick={() => moveRule(-1)}
+                            aria-label="Move rule up"
+                          >
+                            <ChevronDown className="h-4 w-4 rotate-180" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            type="button"
+                            disabled={index === editForm.textRewrites.length - 1}
+                            onClick={() => moveRule(1)}
+                            aria-label="Move rule down"
+                          >
+                            <ChevronDown className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            type="button"
+                            onClick={() => {
+                              setEditForm((prev) => ({
+                                ...prev,
+                                textRewrites: prev.textRewrites.filter(
+                                  (_candidate, candidateIndex) => candidateIndex !== index,
+                                ),
+                              }));
+                            }}
+                            aria-label="Remove rule"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    <div className="space-y-1">
+                      <Label htmlFor="edit-text-prefix">Prefix</Label>
+                      <Input
+                        id="edit-text-prefix"
+                        placeholder="📰 {author}: "
+                        value={editForm.textPrefix}
+                        onChange={(event) => {
+                          setEditForm((prev) => ({ ...prev, textPrefix: event.target.value }));
+                        }}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="edit-text-suffix">Suffix</Label>
+                      <Input
+                        id="edit-text-suffix"
+                        placeholder="\n— {date}"
+                        value={editForm.textSuffix}
+                        onChange={(event) => {
+                          setEditForm((prev) => ({ ...prev, textSuffix: event.target.value }));
+                        }}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Templates can use {'{author}'}, {'{username}'}, {'{date}'} and {'{url}'}; type \n for a line break.
+                  </p>
+                  <div className="space-y-2 rounded-lg border border-border/70 bg-muted/30 p-3 text-sm">
+                    <Label htmlFor="edit-text-rewrite-sample">Try it on a sample tweet</Label>
+                    <textarea
+                      id="edit-text-rewrite-sample"
+                      className={cn(selectClassName, 'h-auto min-h-[5rem]')}
+                      rows={3}
+                      value={textRewriteSample}
+                      onChange={(event) => setTextRewriteSample(event.target.value)}
+                      placeholder="Paste a tweet here"
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      type="button"
+                      disabled={isTextRewritePreviewBusy}
+                      onClick={() => {
+                        void handlePreviewTextRewrites();
+                      }}
+                    >
+                      {isTextRewritePreviewBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                      Preview
+                    </Button>
+                    {textRewritePreview !== null ? (
+                      <p className="whitespace-pre-wrap break-words rounded-md border border-border bg-background p-2">
+                        {textRewritePreview || '(empty)'}
+                      </p>
+                    ) : null}
+                  </div>
+                </div>
 
                 <div className="flex flex-wrap justify-end gap-2 pt-2">
                   <Button